@@ -1,18 +1,54 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import FileUpload from './components/FileUpload';
-import StudyGuideView from './components/StudyGuideView';
-import FlashcardView from './components/FlashcardView';
+import StudyGuideView, { GuideFocus } from './components/StudyGuideView';
+import FlashcardView, { FlashcardScope } from './components/FlashcardView';
 import ExamView from './components/ExamView';
-import { FileIcon, LoadingIcon, PdfIcon, PptxIcon, PaletteIcon } from './components/Icons';
+import GlossaryView, { GlossaryScope } from './components/GlossaryView';
+import MistakeNotebook, { MistakeScope } from './components/MistakeNotebook';
+import ChatPanel from './components/ChatPanel';
+import ReaderView from './components/ReaderView';
+import SettingsPanel from './components/SettingsPanel';
+import ExamPaperDialog, { ExamPaperFormat } from './components/ExamPaperDialog';
+import { FileIcon, LoadingIcon, PdfIcon, PptxIcon, PaletteIcon, SettingsIcon } from './components/Icons';
 import { extractTextFromFile } from './services/fileParser';
-import { generateStudyGuide } from './services/geminiService';
-import { exportToPdf, exportToPptx } from './services/exportService';
-import { ProcessingStatus, StudySection, THEMES, AppTheme, StudyFile } from './types';
+import { generateStudyGuide, generateChunkSections, regenerateSection, translateTexts, chunkDocument, splitPageText, getChunkPageRange, getSectionPages, isAbortError } from './services/geminiService';
+import { exportToPdf, exportToPptx, exportGlossary, exportToAnki, exportFlashcardsDelimited, exportToMarkdown, exportToHtml, exportToDocx, exportExamPaperPdf, exportExamPaperDocx, DelimitedFormat } from './services/exportService';
+import { gradeAnswer } from './services/gradingService';
+import { buildExamPaper, ExamPaperOptions } from './services/examPaperService';
+import { buildGlossary, GlossaryOccurrence } from './services/glossaryService';
+import { countLibraryDue, remapSectionCards } from './services/srsScheduler';
+import { recordExamMistakes, remapSectionMistakes, countLibraryMistakes } from './services/mistakeService';
+import { SessionQuestion } from './services/examService';
+import { askDocument, remapSectionChat } from './services/chatService';
+import { getPointKey, reattachAnnotations, remapSectionAnnotations, updateAnnotation } from './services/annotationService';
+import { loadLibrary, saveFile, deleteFile, storePageImages, getStorageUsage, StorageUsage } from './services/storageService';
+import StorageIndicator from './components/StorageIndicator';
+import GenerationBanner from './components/GenerationBanner';
+import { loadSettings, saveSettings, loadLanguagePair, saveLanguagePair, loadQuestionMix, saveQuestionMix, loadChatLanguage, saveChatLanguage } from './services/settingsService';
+import LanguagePairPicker from './components/LanguagePairPicker';
+import QuestionMixPicker from './components/QuestionMixPicker';
+import SearchPanel from './components/SearchPanel';
+import { SearchResult } from './services/searchService';
+import { ProcessingStatus, StudySection, THEMES, AppTheme, StudyFile, ExamAttempt, LLMSettings, GenerationJob, FailedChunk, LanguagePair, LANGUAGES, QuestionMix, DEFAULT_QUESTION_MIX, ShortAnswerQuestion, ChatAnswerLanguage, PointAnnotation, CardSchedule } from './types';
 
-type ViewMode = 'guide' | 'flashcards' | 'exam';
+type ViewMode = 'guide' | 'flashcards' | 'exam' | 'glossary' | 'mistakes' | 'reader';
 
-const STORAGE_KEY = 'bilingual-scholar-files';
+type DocumentExportFormat = 'markdown-table' | 'markdown-blocks' | 'html' | 'docx';
+
+const DOCUMENT_EXPORTS: Record<DocumentExportFormat, string> = {
+  'markdown-table': 'Markdown (tables)',
+  'markdown-blocks': 'Markdown (blocks)',
+  'html': 'HTML (single file)',
+  'docx': 'Word (DOCX)',
+};
+
+// Attach the images of every page/slide a section covers
+const attachSourceImages = (sections: StudySection[], pageImages: Record<number, string[]> = {}): StudySection[] =>
+  sections.map(section => {
+    const matchedImages = getSectionPages(section).flatMap(page => pageImages[page] ?? []);
+    return { ...section, images: matchedImages };
+  });
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<ProcessingStatus>({ step: 'idle' });
@@ -22,47 +58,93 @@ const App: React.FC = () => {
   const [viewMode, setViewMode] = useState<ViewMode>('guide');
   const [currentTheme, setCurrentTheme] = useState<AppTheme>(THEMES[0]);
   const [showThemeMenu, setShowThemeMenu] = useState<boolean>(false);
+  const [showExportMenu, setShowExportMenu] = useState<boolean>(false);
+  const [flashcardScope, setFlashcardScope] = useState<FlashcardScope>('file');
+  const [glossaryScope, setGlossaryScope] = useState<GlossaryScope>('file');
+  const [mistakeScope, setMistakeScope] = useState<MistakeScope>('file');
+  const [drillFileId, setDrillFileId] = useState<string | null>(null); // File whose exam opens on a mistake drill
+  const [drillCount, setDrillCount] = useState<number>(0);
+  const [llmSettings, setLlmSettings] = useState<LLMSettings>(loadSettings);
+  const [uploadLanguages, setUploadLanguages] = useState<LanguagePair>(loadLanguagePair);
+  const [uploadQuestionMix, setUploadQuestionMix] = useState<QuestionMix>(loadQuestionMix);
+  const [searchFocus, setSearchFocus] = useState<(GuideFocus & { fileId: string }) | null>(null);
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  const [showExamPaper, setShowExamPaper] = useState<boolean>(false);
+  const [showChat, setShowChat] = useState<boolean>(false);
+  const [exportAnnotations, setExportAnnotations] = useState<boolean>(true);
+  const [chatLanguage, setChatLanguage] = useState<ChatAnswerLanguage>(loadChatLanguage);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  // Last library state written to IndexedDB (null until the library has loaded)
+  const savedFilesRef = useRef<StudyFile[] | null>(null);
+  // Gaps being retried and sections being regenerated, as "fileId:index" keys
+  const [retryingChunks, setRetryingChunks] = useState<string[]>([]);
+  const [regeneratingSections, setRegeneratingSections] = useState<string[]>([]);
+  // Only one document generates at a time
+  const [activeGeneration, setActiveGeneration] = useState<{ fileId: string; chunk: number } | null>(null);
+  const generationControllerRef = useRef<AbortController | null>(null);
 
   const activeFile = files.find(f => f.id === activeFileId);
+  const dueTodayCount = useMemo(() => countLibraryDue(files), [files]);
+  const libraryMistakeCount = useMemo(() => countLibraryMistakes(files), [files]);
+
+  const refreshStorageUsage = useCallback(() => {
+    getStorageUsage().then(setStorageUsage).catch(() => setStorageUsage(null));
+  }, []);
 
   // Load Persistence
   useEffect(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      if (saved) {
-        const parsedFiles: StudyFile[] = JSON.parse(saved);
-        setFiles(parsedFiles);
-        if (parsedFiles.length > 0) {
-          const sorted = [...parsedFiles].sort((a, b) => b.lastAccessed - a.lastAccessed);
+    loadLibrary()
+      .then(savedFiles => {
+        savedFilesRef.current = savedFiles;
+        // A job still marked running was cut off by a reload or closed tab
+        const loadedFiles = savedFiles.map(f => f.generation?.status === 'running'
+          ? { ...f, generation: { ...f.generation, status: 'interrupted' as const } }
+          : f);
+        setFiles(loadedFiles);
+        if (loadedFiles.length > 0) {
+          const sorted = [...loadedFiles].sort((a, b) => b.lastAccessed - a.lastAccessed);
           setActiveFileId(sorted[0].id);
           setStatus({ step: 'complete' });
         }
-      }
-    } catch (e) {
-      console.error("Failed to load files", e);
-    }
-  }, []);
+      })
+      .catch(e => {
+        console.error("Failed to load files", e);
+        savedFilesRef.current = [];
+        setStorageError("Could not open the local library. Changes will not be saved.");
+      })
+      .finally(refreshStorageUsage);
+  }, [refreshStorageUsage]);
 
-  // Save Persistence (Handle Quota Limit)
+  // A drill request only applies to the exam it opened
   useEffect(() => {
-    if (files.length > 0) {
-       try {
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(files));
-       } catch (e) {
-          console.warn("Storage quota exceeded. Images might be too large.");
-          // Fallback: Try saving without images if quota exceeded
-          const stripped = files.map(f => ({
-            ...f,
-            sections: f.sections.map(s => ({ ...s, images: [] }))
-          }));
-          try {
-             localStorage.setItem(STORAGE_KEY, JSON.stringify(stripped));
-          } catch(e2) {
-             console.error("Critical storage failure", e2);
-          }
-       }
-    }
-  }, [files]);
+    if (drillFileId && (viewMode !== 'exam' || activeFileId !== drillFileId)) setDrillFileId(null);
+  }, [drillFileId, viewMode, activeFileId]);
+
+  // Save Persistence: write only files whose records changed since the last save
+  useEffect(() => {
+    const previous = savedFilesRef.current;
+    if (!previous) return; // Library not loaded yet
+    savedFilesRef.current = files;
+
+    const previousById = new Map(previous.map(f => [f.id, f]));
+    const currentIds = new Set(files.map(f => f.id));
+    const writes = [
+      ...files.filter(f => previousById.get(f.id) !== f).map(f => saveFile(f, previousById.get(f.id))),
+      ...previous.filter(f => !currentIds.has(f.id)).map(f => deleteFile(f.id)),
+    ];
+    if (writes.length === 0) return;
+
+    Promise.all(writes)
+      .then(() => setStorageError(null))
+      .catch(e => {
+        console.error("Failed to save library", e);
+        setStorageError(e?.name === 'QuotaExceededError'
+          ? "Storage is full. Delete files from the library to free up space."
+          : "Could not save your latest changes.");
+      })
+      .finally(refreshStorageUsage);
+  }, [files, refreshStorageUsage]);
 
   // Keyboard Navigation
   useEffect(() => {
@@ -74,6 +156,9 @@ const App: React.FC = () => {
           case '1': e.preventDefault(); setViewMode('guide'); break;
           case '2': e.preventDefault(); setViewMode('flashcards'); break;
           case '3': e.preventDefault(); setViewMode('exam'); break;
+          case '4': e.preventDefault(); setViewMode('glossary'); break;
+          case '5': e.preventDefault(); setViewMode('mistakes'); break;
+          case '6': e.preventDefault(); setViewMode('reader'); break;
           case 'ArrowRight': 
              e.preventDefault();
              const currIdx = files.findIndex(f => f.id === activeFileId);
@@ -91,35 +176,89 @@ const App: React.FC = () => {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [activeFileId, files, status.step]);
 
+  // Generate the remaining chunks of a file's job, appending sections as each chunk finishes
+  const runGeneration = useCallback(async (fileId: string, job: GenerationJob, languages: LanguagePair, questionMix: QuestionMix) => {
+    const controller = new AbortController();
+    generationControllerRef.current = controller;
+    setActiveGeneration({ fileId, chunk: job.nextChunk });
+    setFiles(prev => prev.map(f => f.id === fileId ? { ...f, generation: { ...job, status: 'running', error: undefined } } : f));
+
+    try {
+      await generateStudyGuide(job.chunks, languages, questionMix, llmSettings, {
+        startChunk: job.nextChunk,
+        signal: controller.signal,
+        onChunkStart: (index) => setActiveGeneration({ fileId, chunk: index }),
+        onChunkComplete: (index, total, sections) => {
+          setFiles(prev => prev.map(f => {
+            if (f.id !== fileId || !f.generation) return f;
+            return {
+              ...f,
+              sections: [...f.sections, ...attachSourceImages(sections, f.pageImages)],
+              generation: index + 1 < total ? { ...f.generation, nextChunk: index + 1 } : undefined,
+            };
+          }));
+        },
+        onChunkFailed: (index, total, error) => {
+          setFiles(prev => prev.map(f => {
+            if (f.id !== fileId || !f.generation) return f;
+            // The gap sits where this chunk's sections would have been appended
+            const failed: FailedChunk = {
+              chunkIndex: index,
+              pageRange: getChunkPageRange(job.chunks[index]),
+              sectionIndex: f.sections.length,
+              text: job.chunks[index],
+              error,
+            };
+            return {
+              ...f,
+              failedChunks: [...(f.failedChunks ?? []).filter(c => c.chunkIndex !== index), failed],
+              generation: index + 1 < total ? { ...f.generation, nextChunk: index + 1 } : undefined,
+            };
+          }));
+        },
+      });
+    } catch (error: any) {
+      const cancelled = isAbortError(error);
+      if (!cancelled) console.error(error);
+      // Generation only fails outright when this run produced nothing, so the job restarts where it began
+      setFiles(prev => prev.map(f => f.id === fileId ? {
+        ...f,
+        generation: {
+          ...(f.generation ?? job),
+          status: 'interrupted',
+          error: cancelled ? undefined : (error.message || 'Something went wrong.'),
+        },
+      } : f));
+    } finally {
+      generationControllerRef.current = null;
+      setActiveGeneration(null);
+    }
+  }, [llmSettings]);
+
   const handleFileSelect = useCallback(async (file: File) => {
     setStatus({ step: 'parsing', message: 'Extracting text and high-res visuals from document...' });
 
     try {
-      const { text, imageMap } = await extractTextFromFile(file);
-      
-      setStatus({ step: 'generating', message: 'Analyzing content, generating detailed bilingual notes...' });
-      const rawSections = await generateStudyGuide(text);
-      
-      // Match AI sections to source images
-      const enrichedSections = rawSections.map(section => {
-        let matchedImages: string[] = [];
-        const match = section.topic.match(/(?:Slide|Page)\s?(\d+)/i);
-        if (match && match[1]) {
-          const index = parseInt(match[1]);
-          if (imageMap[index]) {
-            matchedImages = imageMap[index];
-          }
-        }
-        return { ...section, images: matchedImages };
-      });
+      const { text, imageMap } = await extractTextFromFile(file, uploadLanguages, message => setStatus({ step: 'parsing', message }));
 
+      setStatus({ step: 'parsing', message: 'Saving page images to your library...' });
+      const fileId = Date.now().toString();
+      const pageImages = await storePageImages(fileId, imageMap);
+
+      // Sections are filled in chunk by chunk; the file is usable right away
+      const job: GenerationJob = { status: 'running', chunks: chunkDocument(text), nextChunk: 0 };
       const newFile: StudyFile = {
-        id: Date.now().toString(),
+        id: fileId,
         name: file.name,
+        languages: uploadLanguages,
+        questionMix: uploadQuestionMix,
         uploadDate: Date.now(),
         lastAccessed: Date.now(),
-        sections: enrichedSections,
+        sections: [],
         flashcardProgress: { mastered: [], queue: [] },
+        pageImages,
+        pageText: splitPageText(text),
+        generation: job,
       };
 
       setFiles(prev => [newFile, ...prev]);
@@ -127,18 +266,68 @@ const App: React.FC = () => {
       setStatus({ step: 'complete' });
       setViewMode('guide');
 
+      runGeneration(fileId, job, uploadLanguages, uploadQuestionMix);
+
     } catch (error: any) {
       console.error(error);
       setStatus({ step: 'error', message: error.message || 'Something went wrong.' });
     }
-  }, []);
+  }, [runGeneration, uploadLanguages, uploadQuestionMix]);
+
+  // Open a file in the guide and scroll to (and highlight) a point or section
+  const jumpToPoint = (fileId: string, sectionIndex: number, pointIndex: number | null, terms: string[]) => {
+    setActiveFileId(fileId);
+    setStatus({ step: 'complete' });
+    setViewMode('guide');
+    setSearchFocus({ fileId, sectionIndex, pointIndex, terms });
+  };
+
+  const handleSearchSelect = (result: SearchResult, terms: string[]) =>
+    jumpToPoint(result.fileId, result.sectionIndex, result.pointIndex, terms);
+
+  const handleGlossaryJump = (occurrence: GlossaryOccurrence, term: string) =>
+    jumpToPoint(occurrence.fileId, occurrence.sectionIndex, occurrence.pointIndex, [term.toLowerCase()]);
+
+  const getGlossaryFiles = () => glossaryScope === 'file' && activeFile ? [activeFile] : files;
+
+  // A term card's schedule is kept on every file the term occurs in
+  const handleGlossaryReview = (fileIds: string[], cardId: string, schedule: CardSchedule) => {
+    setFiles(prev => prev.map(f => fileIds.includes(f.id)
+      ? { ...f, glossarySchedule: { ...f.glossarySchedule, [cardId]: schedule }, lastAccessed: Date.now() }
+      : f));
+  };
+
+  const handleExportGlossary = (format: DelimitedFormat) => {
+    const name = glossaryScope === 'file' && activeFile ? activeFile.name : 'Library';
+    exportGlossary(buildGlossary(getGlossaryFiles()), name, format);
+  };
+
+  const handleLanguagesChange = (languages: LanguagePair) => {
+    saveLanguagePair(languages);
+    setUploadLanguages(languages);
+  };
+
+  const handleQuestionMixChange = (mix: QuestionMix) => {
+    saveQuestionMix(mix);
+    setUploadQuestionMix(mix);
+  };
+
+  const handleSaveSettings = (settings: LLMSettings) => {
+    saveSettings(settings);
+    setLlmSettings(settings);
+    setShowSettings(false);
+  };
+
+  const updateFile = (id: string, updates: Partial<StudyFile>) => {
+    setFiles(prev => prev.map(f => f.id === id ? { ...f, ...updates, lastAccessed: Date.now() } : f));
+  };
 
   const updateActiveFile = (updates: Partial<StudyFile>) => {
     if (!activeFileId) return;
-    setFiles(prev => prev.map(f => f.id === activeFileId ? { ...f, ...updates, lastAccessed: Date.now() } : f));
+    updateFile(activeFileId, updates);
   };
 
-  const handleUpdateContent = (sectionIndex: number, contentIndex: number, field: 'english' | 'chinese', newValue: string) => {
+  const handleUpdateContent = (sectionIndex: number, contentIndex: number, field: 'primary' | 'secondary', newValue: string) => {
     if (!activeFile) return;
     const newSections = [...activeFile.sections];
     const section = { ...newSections[sectionIndex] };
@@ -146,14 +335,184 @@ const App: React.FC = () => {
     content[contentIndex] = { ...content[contentIndex], [field]: newValue };
     section.content = content;
     newSections[sectionIndex] = section;
-    updateActiveFile({ sections: newSections });
+    // An annotated point keeps its anchor in step with the edited text
+    const key = getPointKey(sectionIndex, contentIndex);
+    const annotation = activeFile.annotations?.[key];
+    updateActiveFile({
+      sections: newSections,
+      ...(annotation && field === 'primary' ? { annotations: { ...activeFile.annotations, [key]: { ...annotation, anchor: newValue } } } : {}),
+    });
+  };
+
+  const handleAnnotate = (sectionIndex: number, pointIndex: number, update: Partial<PointAnnotation>) => {
+    const point = activeFile?.sections[sectionIndex]?.content[pointIndex];
+    if (!point) return;
+    updateActiveFile({ annotations: updateAnnotation(activeFile.annotations, getPointKey(sectionIndex, pointIndex), point.primary, update) });
+  };
+
+  const handleDismissUnattached = (index: number) => {
+    if (!activeFile?.unattachedAnnotations) return;
+    const unattachedAnnotations = activeFile.unattachedAnnotations.filter((_, i) => i !== index);
+    updateActiveFile({ unattachedAnnotations: unattachedAnnotations.length > 0 ? unattachedAnnotations : undefined });
+  };
+
+  // Annotations go into the Markdown, PDF and PPTX exports unless switched off
+  const getExportAnnotations = () => exportAnnotations ? activeFile?.annotations : undefined;
+
+  // Generate a failed chunk again and splice its sections into the gap it left
+  const handleRetryChunk = async (file: StudyFile, chunk: FailedChunk) => {
+    const fileId = file.id;
+    const key = `${fileId}:${chunk.chunkIndex}`;
+    setRetryingChunks(prev => [...prev, key]);
+    try {
+      const sections = await generateChunkSections(chunk.text, file.languages, file.questionMix ?? DEFAULT_QUESTION_MIX, llmSettings);
+      setFiles(prev => prev.map(f => {
+        const gap = f.id === fileId ? f.failedChunks?.find(c => c.chunkIndex === chunk.chunkIndex) : undefined;
+        if (!gap) return f;
+        const at = Math.min(gap.sectionIndex, f.sections.length);
+        const count = sections.length;
+        // Later gaps and card IDs move down by the number of inserted sections
+        const failedChunks = f.failedChunks!
+          .filter(c => c !== gap)
+          .map(c => c.sectionIndex > at || (c.sectionIndex === at && c.chunkIndex > gap.chunkIndex)
+            ? { ...c, sectionIndex: c.sectionIndex + count }
+            : c);
+        return {
+          ...f,
+          sections: [...f.sections.slice(0, at), ...attachSourceImages(sections, f.pageImages), ...f.sections.slice(at)],
+          failedChunks: failedChunks.length > 0 ? failedChunks : undefined,
+          flashcardProgress: remapSectionCards(f.flashcardProgress, sIdx => sIdx >= at ? sIdx + count : sIdx),
+          mistakes: remapSectionMistakes(f.mistakes, sIdx => sIdx >= at ? sIdx + count : sIdx),
+          chat: remapSectionChat(f.chat, sIdx => sIdx >= at ? sIdx + count : sIdx),
+          ...remapSectionAnnotations(f, sIdx => sIdx >= at ? sIdx + count : sIdx),
+          lastAccessed: Date.now(),
+        };
+      }));
+    } catch (error: any) {
+      console.error(error);
+      setFiles(prev => prev.map(f => f.id === fileId && f.failedChunks ? {
+        ...f,
+        failedChunks: f.failedChunks.map(c => c.chunkIndex === chunk.chunkIndex ? { ...c, error: error.message || 'Generation failed' } : c),
+      } : f));
+    } finally {
+      setRetryingChunks(prev => prev.filter(k => k !== key));
+    }
+  };
+
+  // Source text of the pages a section's topic points at
+  const getSectionSource = (file: StudyFile, sectionIndex: number) => {
+    const section = file.sections[sectionIndex];
+    if (!section || !file.pageText) return '';
+    return getSectionPages(section)
+      .map(page => file.pageText![page])
+      .filter(Boolean)
+      .join('\n\n');
+  };
+
+  const handleRegenerateSection = async (file: StudyFile, sectionIndex: number) => {
+    const fileId = file.id;
+    const sourceText = getSectionSource(file, sectionIndex);
+    if (!sourceText) return;
+
+    const target = file.sections[sectionIndex];
+    const targetPages = getSectionPages(target).join(',');
+    const key = `${fileId}:${sectionIndex}`;
+    setRegeneratingSections(prev => [...prev, key]);
+    try {
+      const section = await regenerateSection(sourceText, file.languages, file.questionMix ?? DEFAULT_QUESTION_MIX, llmSettings);
+      setFiles(prev => prev.map(f => {
+        if (f.id !== fileId) return f;
+        // A gap retry may have inserted sections meanwhile: find the section again,
+        // by identity or (if it was edited) by its topic and pages, and give up if it is gone
+        let at = f.sections.indexOf(target);
+        if (at < 0) at = f.sections.findIndex(s => s.topic === target.topic && getSectionPages(s).join(',') === targetPages);
+        if (at < 0) return f;
+        const sections = [...f.sections];
+        const previous = f.sections[at];
+        sections[at] = { ...section, sourcePages: previous.sourcePages ?? section.sourcePages, images: previous.images };
+        // The old cards of this section no longer exist, so their progress is dropped;
+        // annotations move to the new points that match them
+        return {
+          ...f,
+          sections,
+          flashcardProgress: remapSectionCards(f.flashcardProgress, sIdx => sIdx === at ? null : sIdx),
+          mistakes: remapSectionMistakes(f.mistakes, sIdx => sIdx === at ? null : sIdx),
+          chat: remapSectionChat(f.chat, sIdx => sIdx === at ? null : sIdx),
+          ...reattachAnnotations(f, at, sections[at]),
+          lastAccessed: Date.now(),
+        };
+      }));
+    } catch (error: any) {
+      console.error(error);
+      alert(`Failed to regenerate section: ${error.message || 'Something went wrong.'}`);
+    } finally {
+      setRegeneratingSections(prev => prev.filter(k => k !== key));
+    }
+  };
+
+  // Attempts with AI-graded answers finish after a delay, so they are recorded by file ID
+  const handleExamComplete = (fileId: string, attempt: ExamAttempt, questions: SessionQuestion[]) => {
+    setFiles(prev => prev.map(f => f.id === fileId ? {
+      ...f,
+      ...recordExamMistakes(f, questions, attempt.answers, attempt.date),
+      ...(attempt.kind === 'drill' ? {} : { examScore: { score: attempt.score, total: attempt.total, date: attempt.date } }),
+      examHistory: [...(f.examHistory ?? []), attempt],
+      lastAccessed: Date.now(),
+    } : f));
+  };
+
+  // Open the exam of a file straight on a drill of its logged mistakes
+  const handleDrillMistakes = (fileId: string) => {
+    setActiveFileId(fileId);
+    setStatus({ step: 'complete' });
+    setDrillFileId(fileId);
+    setDrillCount(c => c + 1);
+    setViewMode('exam');
+  };
+
+  const handleDismissMistake = (fileId: string, mistakeId: string) => {
+    setFiles(prev => prev.map(f => {
+      if (f.id !== fileId || !f.mistakes) return f;
+      const mistakes = f.mistakes.filter(entry => entry.id !== mistakeId);
+      return { ...f, mistakes: mistakes.length > 0 ? mistakes : undefined };
+    }));
+  };
+
+  // The question is saved together with its answer, so a failed request leaves no trace
+  const handleAskDocument = async (file: StudyFile, question: string) => {
+    const date = Date.now();
+    const answer = await askDocument(file, question, file.chat ?? [], chatLanguage, llmSettings);
+    setFiles(prev => prev.map(f => f.id === file.id ? {
+      ...f,
+      chat: [...(f.chat ?? []), { role: 'user', text: question, date }, answer],
+    } : f));
+  };
+
+  const handleChatLanguageChange = (language: ChatAnswerLanguage) => {
+    saveChatLanguage(language);
+    setChatLanguage(language);
+  };
+
+  const handleGradeAnswer = (file: StudyFile, question: ShortAnswerQuestion, section: StudySection, answer: string) =>
+    gradeAnswer(question, section, answer, file.languages, llmSettings);
+
+  // Full exams only; mistake drills are kept in the history but not in the scores
+  const getExamAttempts = (file: StudyFile) => (file.examHistory ?? []).filter(attempt => attempt.kind !== 'drill');
+
+  // Best and latest exam percentage for the library sidebar
+  const getExamSummary = (file: StudyFile) => {
+    const examAttempts = getExamAttempts(file);
+    const attempts = examAttempts.length ? examAttempts : (file.examScore ? [file.examScore] : []);
+    if (attempts.length === 0) return null;
+    const percents = attempts.map(a => a.total > 0 ? Math.round((a.score / a.total) * 100) : 0);
+    return { best: Math.max(...percents), latest: percents[percents.length - 1] };
   };
 
   const handleExportPdf = async () => {
     if (!activeFile) return;
     setIsExporting(true);
     try {
-      await exportToPdf(activeFile.name, currentTheme);
+      await exportToPdf(activeFile.sections, activeFile.name, currentTheme, activeFile.languages, getExportAnnotations());
     } catch (e) {
       console.error(e);
       alert("Failed to export PDF.");
@@ -166,7 +525,7 @@ const App: React.FC = () => {
     if (!activeFile) return;
     setIsExporting(true);
     try {
-      await exportToPptx(activeFile.sections, activeFile.name, currentTheme);
+      await exportToPptx(activeFile.sections, activeFile.name, currentTheme, activeFile.languages, getExportAnnotations());
     } catch (e) {
       console.error(e);
       alert("Failed to export PPTX.");
@@ -175,9 +534,65 @@ const App: React.FC = () => {
     }
   };
 
+  const handleExportDocument = async (format: DocumentExportFormat) => {
+    if (!activeFile) return;
+    setShowExportMenu(false);
+    setIsExporting(true);
+    try {
+      if (format === 'markdown-table') await exportToMarkdown(activeFile.sections, activeFile.name, activeFile.languages, 'table', getExportAnnotations());
+      if (format === 'markdown-blocks') await exportToMarkdown(activeFile.sections, activeFile.name, activeFile.languages, 'blocks', getExportAnnotations());
+      if (format === 'html') await exportToHtml(activeFile.sections, activeFile.name, currentTheme, activeFile.languages);
+      if (format === 'docx') await exportToDocx(activeFile.sections, activeFile.name, currentTheme, activeFile.languages);
+    } catch (e) {
+      console.error(e);
+      alert(`Failed to export ${DOCUMENT_EXPORTS[format]}.`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportExamPaper = async (options: ExamPaperOptions, format: ExamPaperFormat) => {
+    if (!activeFile) return;
+    setIsExporting(true);
+    try {
+      const paper = buildExamPaper(activeFile, options);
+      if (options.bilingual) {
+        const stems = await translateTexts(paper.questions.map(q => q.question.question), activeFile.languages, llmSettings);
+        paper.questions.forEach((question, i) => { question.questionSecondary = stems[i]; });
+      }
+      if (format === 'pdf') await exportExamPaperPdf(paper, currentTheme);
+      else await exportExamPaperDocx(paper, currentTheme);
+      setShowExamPaper(false);
+    } catch (e) {
+      console.error(e);
+      alert("Failed to export the exam paper.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportAnki = async () => {
+    if (!activeFile) return;
+    setIsExporting(true);
+    try {
+      await exportToAnki(activeFile);
+    } catch (e) {
+      console.error(e);
+      alert("Failed to export Anki deck.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportCards = (format: DelimitedFormat) => {
+    if (!activeFile) return;
+    exportFlashcardsDelimited(activeFile, format);
+  };
+
   const handleDeleteFile = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
     if (window.confirm("Delete this file?")) {
+        if (activeGeneration?.fileId === id) generationControllerRef.current?.abort();
         const newFiles = files.filter(f => f.id !== id);
         setFiles(newFiles);
         if (activeFileId === id) {
@@ -199,6 +614,8 @@ const App: React.FC = () => {
                 <span className="font-bold tracking-tight text-lg" style={{ color: currentTheme.colors.text }}>Library</span>
              </div>
            </div>
+
+           <SearchPanel files={files} theme={currentTheme} onSelect={handleSearchSelect} />
            
            <div className="flex-grow p-4 space-y-2">
               <button 
@@ -210,30 +627,47 @@ const App: React.FC = () => {
                  <span>Upload New</span>
               </button>
 
-              {files.map(file => (
-                  <div 
-                    key={file.id}
-                    onClick={() => { setActiveFileId(file.id); setStatus({ step: 'complete' }); }}
-                    className={`group relative w-full text-left p-3 rounded-lg text-sm transition-all cursor-pointer ${activeFileId === file.id ? 'shadow-md translate-x-1' : 'hover:bg-slate-50'}`}
-                    style={{ 
-                        backgroundColor: activeFileId === file.id ? currentTheme.colors.card : 'transparent',
-                        borderLeft: activeFileId === file.id ? `4px solid ${currentTheme.colors.primary}` : '4px solid transparent'
-                    }}
-                  >
-                     <h4 className="font-bold truncate pr-6" style={{ color: activeFileId === file.id ? currentTheme.colors.primary : currentTheme.colors.text }}>{file.name}</h4>
-                     <div className="flex justify-between items-center mt-1">
-                        <span className="text-xs opacity-50">{new Date(file.lastAccessed).toLocaleDateString()}</span>
-                     </div>
-                     <button 
-                       onClick={(e) => handleDeleteFile(file.id, e)}
-                       className="absolute top-3 right-2 text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
-                       title="Delete"
-                     >
-                        ×
-                     </button>
-                  </div>
-              ))}
+              {files.map(file => {
+                  const examSummary = getExamSummary(file);
+                  return (
+                    <div 
+                      key={file.id}
+                      onClick={() => { setActiveFileId(file.id); setStatus({ step: 'complete' }); setSearchFocus(null); }}
+                      className={`group relative w-full text-left p-3 rounded-lg text-sm transition-all cursor-pointer ${activeFileId === file.id ? 'shadow-md translate-x-1' : 'hover:bg-slate-50'}`}
+                      style={{ 
+                          backgroundColor: activeFileId === file.id ? currentTheme.colors.card : 'transparent',
+                          borderLeft: activeFileId === file.id ? `4px solid ${currentTheme.colors.primary}` : '4px solid transparent'
+                      }}
+                    >
+                       <h4 className="font-bold truncate pr-6" style={{ color: activeFileId === file.id ? currentTheme.colors.primary : currentTheme.colors.text }}>{file.name}</h4>
+                       <div className="flex justify-between items-center mt-1">
+                          <span className="text-xs opacity-50">
+                             {new Date(file.lastAccessed).toLocaleDateString()} · {LANGUAGES[file.languages.primary].nativeName} → {LANGUAGES[file.languages.secondary].nativeName}
+                          </span>
+                          {file.generation && (
+                             <span className="text-xs font-bold" style={{ color: currentTheme.colors.primary }}>
+                                {activeGeneration?.fileId === file.id ? 'Generating...' : 'Paused'}
+                             </span>
+                          )}
+                          {!file.generation && examSummary && (
+                             <span className="text-xs font-medium" style={{ color: currentTheme.colors.subtext }} title="Best / latest exam score">
+                                Best {examSummary.best}% · Last {examSummary.latest}%
+                             </span>
+                          )}
+                       </div>
+                       <button 
+                         onClick={(e) => handleDeleteFile(file.id, e)}
+                         className="absolute top-3 right-2 text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                         title="Delete"
+                       >
+                          ×
+                       </button>
+                    </div>
+                  );
+              })}
            </div>
+
+           <StorageIndicator usage={storageUsage} error={storageError} theme={currentTheme} />
         </aside>
       )}
 
@@ -252,6 +686,25 @@ const App: React.FC = () => {
                     </h2>
                 )}
                 <div className="flex items-center gap-4">
+                    {status.step === 'complete' && activeFile && (
+                        <button
+                            onClick={() => setShowChat(!showChat)}
+                            className={`px-3 py-1.5 rounded-full border text-xs font-bold transition-colors ${showChat ? 'text-white' : 'bg-white/70 hover:bg-white'}`}
+                            style={{ borderColor: currentTheme.colors.border, color: showChat ? undefined : currentTheme.colors.subtext, backgroundColor: showChat ? currentTheme.colors.primary : undefined }}
+                            title="Ask questions about this document"
+                        >
+                            Ask
+                        </button>
+                    )}
+                    <button
+                        onClick={() => setShowSettings(true)}
+                        className="flex items-center gap-2 px-3 py-1.5 rounded-full border bg-white/70 hover:bg-white text-xs font-bold transition-colors"
+                        style={{ borderColor: currentTheme.colors.border, color: currentTheme.colors.subtext }}
+                        title="AI model settings"
+                    >
+                        <SettingsIcon />
+                        <span className="hidden sm:inline">{llmSettings.provider === 'mock' ? 'Offline Mock' : llmSettings.model}</span>
+                    </button>
                     {status.step === 'complete' && (
                         <div className="hidden md:flex items-center space-x-2 bg-black/5 rounded-full p-1 border">
                             {THEMES.map(theme => (
@@ -280,10 +733,19 @@ const App: React.FC = () => {
                         Your Personal <br/><span style={{ color: currentTheme.colors.primary }}>Bilingual Tutor</span>.
                      </h1>
                      <p className="text-xl leading-relaxed max-w-2xl mx-auto" style={{ color: currentTheme.colors.subtext }}>
-                        Upload PDF or PPTX. Get instant side-by-side notes, interactive flashcards, and exams.
+                        Upload PDF, PPTX, Word, Markdown or HTML. Get instant side-by-side notes, interactive flashcards, and exams.
                      </p>
                      <div className="p-4 transform hover:scale-[1.01] transition-transform duration-300">
-                        <FileUpload onFileSelect={handleFileSelect} />
+                        <div className="mb-6 space-y-5">
+                            <LanguagePairPicker value={uploadLanguages} theme={currentTheme} onChange={handleLanguagesChange} disabled={!!activeGeneration} />
+                            <QuestionMixPicker value={uploadQuestionMix} theme={currentTheme} onChange={handleQuestionMixChange} disabled={!!activeGeneration} />
+                        </div>
+                        <FileUpload onFileSelect={handleFileSelect} disabled={!!activeGeneration} />
+                        {activeGeneration && (
+                            <p className="mt-4 text-sm" style={{ color: currentTheme.colors.subtext }}>
+                                Another document is still generating. Upload again once it finishes or is cancelled.
+                            </p>
+                        )}
                      </div>
                 </div>
             )}
@@ -317,7 +779,7 @@ const App: React.FC = () => {
                 <div className="animate-fade-in">
                     <div className="flex flex-col md:flex-row items-center justify-between mb-8 gap-4 border-b pb-6" style={{ borderColor: currentTheme.colors.border }}>
                         <nav className="flex p-1 rounded-xl bg-slate-100/50 border" style={{ borderColor: currentTheme.colors.border }}>
-                             {(['guide', 'flashcards', 'exam'] as ViewMode[]).map((mode) => (
+                             {(['guide', 'flashcards', 'exam', 'glossary', 'mistakes', 'reader'] as ViewMode[]).map((mode) => (
                                  <button
                                     key={mode}
                                     onClick={() => setViewMode(mode)}
@@ -328,6 +790,65 @@ const App: React.FC = () => {
                                  </button>
                              ))}
                         </nav>
+                        {viewMode === 'flashcards' && (
+                            <div className="flex p-1 rounded-xl bg-slate-100/50 border" style={{ borderColor: currentTheme.colors.border }}>
+                                {(['file', 'due', 'glossary'] as FlashcardScope[]).map((scope) => (
+                                    <button
+                                        key={scope}
+                                        onClick={() => setFlashcardScope(scope)}
+                                        className={`px-4 py-2 rounded-lg text-sm font-bold transition-all ${flashcardScope === scope ? 'shadow-sm text-white' : 'text-slate-500 hover:text-slate-800'}`}
+                                        style={{ backgroundColor: flashcardScope === scope ? currentTheme.colors.primary : 'transparent' }}
+                                    >
+                                        {scope === 'file' ? 'This File' : scope === 'due' ? `Due Today (${dueTodayCount})` : 'Glossary'}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        {viewMode === 'flashcards' && (
+                            <div className="flex items-center gap-3">
+                                {(['csv', 'tsv'] as DelimitedFormat[]).map(format => (
+                                    <button key={format} onClick={() => handleExportCards(format)} className="flex items-center px-4 py-2 border rounded-lg bg-white hover:bg-slate-50 shadow-sm text-sm font-medium uppercase" style={{ borderColor: currentTheme.colors.border }}>
+                                        {format}
+                                    </button>
+                                ))}
+                                <button onClick={handleExportAnki} disabled={isExporting} className="flex items-center px-4 py-2 border rounded-lg text-white shadow-sm text-sm font-medium" style={{ backgroundColor: currentTheme.colors.primary, borderColor: currentTheme.colors.primary }} title="Download an Anki package with review progress">
+                                    {isExporting ? '...' : 'Anki (.apkg)'}
+                                </button>
+                            </div>
+                        )}
+                        {(viewMode === 'glossary' || (viewMode === 'flashcards' && flashcardScope === 'glossary')) && (
+                            <div className="flex p-1 rounded-xl bg-slate-100/50 border" style={{ borderColor: currentTheme.colors.border }}>
+                                {(['file', 'library'] as GlossaryScope[]).map((scope) => (
+                                    <button
+                                        key={scope}
+                                        onClick={() => setGlossaryScope(scope)}
+                                        className={`px-4 py-2 rounded-lg text-sm font-bold transition-all ${glossaryScope === scope ? 'shadow-sm text-white' : 'text-slate-500 hover:text-slate-800'}`}
+                                        style={{ backgroundColor: glossaryScope === scope ? currentTheme.colors.primary : 'transparent' }}
+                                    >
+                                        {scope === 'file' ? 'Terms in This File' : 'All Terms'}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        {viewMode === 'mistakes' && (
+                            <div className="flex p-1 rounded-xl bg-slate-100/50 border" style={{ borderColor: currentTheme.colors.border }}>
+                                {(['file', 'library'] as MistakeScope[]).map((scope) => (
+                                    <button
+                                        key={scope}
+                                        onClick={() => setMistakeScope(scope)}
+                                        className={`px-4 py-2 rounded-lg text-sm font-bold transition-all ${mistakeScope === scope ? 'shadow-sm text-white' : 'text-slate-500 hover:text-slate-800'}`}
+                                        style={{ backgroundColor: mistakeScope === scope ? currentTheme.colors.primary : 'transparent' }}
+                                    >
+                                        {scope === 'file' ? 'This File' : `All Files (${libraryMistakeCount})`}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        {viewMode === 'exam' && (
+                            <button onClick={() => setShowExamPaper(true)} className="flex items-center px-4 py-2 border rounded-lg bg-white hover:bg-slate-50 shadow-sm text-sm font-medium" style={{ borderColor: currentTheme.colors.border }}>
+                                <PdfIcon /> <span className="ml-2">Print Exam</span>
+                            </button>
+                        )}
                         {viewMode === 'guide' && (
                             <div className="flex items-center gap-3">
                                 {/* Theme Selector for Export */}
@@ -359,6 +880,38 @@ const App: React.FC = () => {
                                     )}
                                 </div>
                                 
+                                {activeFile.annotations && (
+                                    <label className="flex items-center text-sm cursor-pointer" style={{ color: currentTheme.colors.subtext }} title="Include stars, highlights and notes in Markdown, PPTX and PDF exports">
+                                        <input type="checkbox" className="mr-2" checked={exportAnnotations} onChange={(e) => setExportAnnotations(e.target.checked)} />
+                                        My notes
+                                    </label>
+                                )}
+
+                                <div className="relative">
+                                    <button
+                                        onClick={() => setShowExportMenu(!showExportMenu)}
+                                        disabled={isExporting}
+                                        className="flex items-center px-4 py-2 border rounded-lg bg-white hover:bg-slate-50 shadow-sm text-sm font-medium"
+                                        style={{ borderColor: currentTheme.colors.border }}
+                                    >
+                                        Text Formats ▾
+                                    </button>
+                                    {showExportMenu && (
+                                        <div className="absolute right-0 top-full mt-2 w-56 bg-white rounded-xl shadow-xl border p-2 z-50 grid grid-cols-1 gap-1" style={{ borderColor: currentTheme.colors.border }}>
+                                            {(Object.keys(DOCUMENT_EXPORTS) as DocumentExportFormat[]).map(format => (
+                                                <button
+                                                    key={format}
+                                                    onClick={() => handleExportDocument(format)}
+                                                    className="w-full px-3 py-2 rounded-lg text-sm text-left hover:bg-slate-50"
+                                                    style={{ color: currentTheme.colors.text }}
+                                                >
+                                                    {DOCUMENT_EXPORTS[format]}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+
                                 <button onClick={handleExportPptx} disabled={isExporting} className="flex items-center px-4 py-2 border rounded-lg bg-white hover:bg-slate-50 shadow-sm text-sm font-medium" style={{ borderColor: currentTheme.colors.border }}>
                                      {isExporting ? '...' : <PptxIcon />} <span className="ml-2">PPTX</span>
                                 </button>
@@ -369,20 +922,127 @@ const App: React.FC = () => {
                         )}
                     </div>
 
+                    {activeFile.generation && (
+                        <GenerationBanner
+                            job={activeFile.generation}
+                            isRunning={activeGeneration?.fileId === activeFile.id}
+                            currentChunk={activeGeneration?.chunk ?? 0}
+                            sectionCount={activeFile.sections.length}
+                            canResume={!activeGeneration}
+                            theme={currentTheme}
+                            onCancel={() => generationControllerRef.current?.abort()}
+                            onResume={() => runGeneration(activeFile.id, activeFile.generation!, activeFile.languages, activeFile.questionMix ?? DEFAULT_QUESTION_MIX)}
+                        />
+                    )}
+
                     {viewMode === 'guide' && (
                         <StudyGuideView 
                             sections={activeFile.sections} 
+                            languages={activeFile.languages}
                             theme={currentTheme} 
                             onUpdateContent={handleUpdateContent}
+                            failedChunks={activeFile.failedChunks}
+                            retryingChunks={retryingChunks.filter(k => k.startsWith(`${activeFile.id}:`)).map(k => parseInt(k.split(':')[1]))}
+                            onRetryChunk={(chunk) => handleRetryChunk(activeFile, chunk)}
+                            regeneratingSections={regeneratingSections.filter(k => k.startsWith(`${activeFile.id}:`)).map(k => parseInt(k.split(':')[1]))}
+                            canRegenerateSection={(idx) => !!getSectionSource(activeFile, idx)}
+                            onRegenerateSection={(idx) => handleRegenerateSection(activeFile, idx)}
+                            focus={searchFocus?.fileId === activeFile.id ? searchFocus : null}
+                            pageText={activeFile.pageText}
+                            annotations={activeFile.annotations}
+                            onAnnotate={handleAnnotate}
+                            unattachedAnnotations={activeFile.unattachedAnnotations}
+                            onDismissUnattached={handleDismissUnattached}
+                        />
+                    )}
+                    {viewMode === 'reader' && (
+                        <ReaderView
+                            key={activeFile.id}
+                            file={activeFile}
+                            theme={currentTheme}
+                            onOpenNotes={(sectionIndex) => jumpToPoint(activeFile.id, sectionIndex, null, [])}
+                        />
+                    )}
+                    {viewMode === 'flashcards' && (
+                        <FlashcardView 
+                            key={flashcardScope === 'due' ? 'due' : `${flashcardScope}:${flashcardScope === 'glossary' && glossaryScope === 'library' ? 'library' : activeFile.id}`}
+                            files={flashcardScope === 'file' ? [activeFile] : flashcardScope === 'glossary' ? getGlossaryFiles() : files}
+                            scope={flashcardScope}
+                            onProgressChange={(fileId, flashcardProgress) => updateFile(fileId, { flashcardProgress })}
+                            onGlossaryReview={handleGlossaryReview}
+                        />
+                    )}
+                    {viewMode === 'exam' && (
+                        <ExamView 
+                            key={`${activeFile.id}:${drillCount}`}
+                            sections={activeFile.sections} 
+                            languages={activeFile.languages}
+                            theme={currentTheme} 
+                            history={getExamAttempts(activeFile)}
+                            mistakes={activeFile.mistakes}
+                            autoDrill={drillFileId === activeFile.id}
+                            onComplete={(attempt, questions) => handleExamComplete(activeFile.id, attempt, questions)}
+                            onGradeAnswer={(question, section, answer) => handleGradeAnswer(activeFile, question, section, answer)}
+                        />
+                    )}
+                    {viewMode === 'glossary' && (
+                        <GlossaryView
+                            files={getGlossaryFiles()}
+                            scope={glossaryScope}
+                            theme={currentTheme}
+                            onJump={handleGlossaryJump}
+                            onStudy={() => { setFlashcardScope('glossary'); setViewMode('flashcards'); }}
+                            onExport={handleExportGlossary}
+                        />
+                    )}
+                    {viewMode === 'mistakes' && (
+                        <MistakeNotebook
+                            files={mistakeScope === 'file' ? [activeFile] : files}
+                            scope={mistakeScope}
+                            theme={currentTheme}
+                            onJump={(fileId, sectionIndex, pointIndex) => jumpToPoint(fileId, sectionIndex, pointIndex, [])}
+                            onDrill={handleDrillMistakes}
+                            onDismiss={handleDismissMistake}
                         />
                     )}
-                    {viewMode === 'flashcards' && <FlashcardView sections={activeFile.sections} />}
-                    {viewMode === 'exam' && <ExamView sections={activeFile.sections} theme={currentTheme} />}
                 </div>
             )}
         </main>
       </div>
 
+      {showChat && status.step === 'complete' && activeFile && (
+        <ChatPanel
+          key={activeFile.id}
+          file={activeFile}
+          theme={currentTheme}
+          answerLanguage={chatLanguage}
+          onAnswerLanguageChange={handleChatLanguageChange}
+          onAsk={(question) => handleAskDocument(activeFile, question)}
+          onJump={(citation) => jumpToPoint(activeFile.id, citation.sectionIndex, citation.pointIndex, [])}
+          onClearHistory={() => updateFile(activeFile.id, { chat: undefined })}
+          onClose={() => setShowChat(false)}
+        />
+      )}
+
+      {showSettings && (
+        <SettingsPanel 
+          settings={llmSettings} 
+          theme={currentTheme} 
+          onSave={handleSaveSettings} 
+          onClose={() => setShowSettings(false)} 
+        />
+      )}
+
+      {showExamPaper && activeFile && (
+        <ExamPaperDialog
+          file={activeFile}
+          theme={currentTheme}
+          isExporting={isExporting}
+          onExport={handleExportExamPaper}
+          onClose={() => setShowExamPaper(false)}
+        />
+      )}
+
       <style>{`
         @keyframes progress { 0% { width: 0%; } 50% { width: 70%; } 100% { width: 90%; } }
         .animate-progress { animation: progress 30s ease-out forwards; }
@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AppTheme, ChatAnswerLanguage, ChatCitation, LANGUAGES, StudyFile } from '../types';
+
+interface ChatPanelProps {
+  file: StudyFile;
+  theme: AppTheme;
+  answerLanguage: ChatAnswerLanguage;
+  onAnswerLanguageChange: (language: ChatAnswerLanguage) => void;
+  onAsk: (question: string) => Promise<void>; // Saves the question and its answer once answered
+  onJump: (citation: ChatCitation) => void;
+  onClearHistory: () => void;
+  onClose: () => void;
+}
+
+// "Slide 7", "Page 3", ... after the kind of page the section's topic names
+const formatCitation = (file: StudyFile, citation: ChatCitation) => {
+  const topic = file.sections[citation.sectionIndex]?.topic ?? `Section ${citation.sectionIndex + 1}`;
+  if (citation.page === null) return topic;
+  const kind = topic.match(/^(Slide|Page|Section)/i)?.[1] ?? 'Page';
+  return `${kind} ${citation.page} · ${topic.replace(/^(?:Slide|Page|Section)s?\s?[\d\s\-–]+:\s*/i, '')}`;
+};
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ file, theme, answerLanguage, onAnswerLanguageChange, onAsk, onJump, onClearHistory, onClose }) => {
+  const [input, setInput] = useState('');
+  const [pending, setPending] = useState<string | null>(null); // Question waiting for its answer
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const messages = file.chat ?? [];
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length, pending]);
+
+  const handleSend = async () => {
+    const question = input.trim();
+    if (!question || pending) return;
+    setInput('');
+    setError(null);
+    setPending(question);
+    try {
+      await onAsk(question);
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || 'Something went wrong.');
+      setInput(question);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const languageOptions: { id: ChatAnswerLanguage; label: string }[] = [
+    { id: 'primary', label: LANGUAGES[file.languages.primary].nativeName },
+    { id: 'secondary', label: LANGUAGES[file.languages.secondary].nativeName },
+    { id: 'both', label: 'Both' },
+  ];
+  const primaryFont = { fontFamily: LANGUAGES[file.languages.primary].fontFamily };
+  const secondaryFont = { fontFamily: LANGUAGES[file.languages.secondary].fontFamily };
+
+  return (
+    <aside className="fixed top-0 right-0 z-50 h-screen w-full sm:w-[420px] flex flex-col bg-white border-l shadow-2xl" style={{ borderColor: theme.colors.border }}>
+      <div className="p-4 border-b space-y-3" style={{ borderColor: theme.colors.border, backgroundColor: theme.colors.secondary }}>
+        <div className="flex items-center justify-between">
+          <h3 className="font-bold" style={{ color: theme.colors.text }}>Ask This Document</h3>
+          <div className="flex items-center gap-3">
+            {messages.length > 0 && (
+              <button
+                onClick={() => { if (window.confirm("Clear this conversation?")) onClearHistory(); }}
+                className="text-xs font-bold hover:underline"
+                style={{ color: theme.colors.subtext }}
+              >
+                Clear
+              </button>
+            )}
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-xl leading-none" title="Close">×</button>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-bold uppercase tracking-wider" style={{ color: theme.colors.subtext }}>Answer in</span>
+          <div className="flex p-1 rounded-lg bg-white/70 border" style={{ borderColor: theme.colors.border }}>
+            {languageOptions.map(option => (
+              <button
+                key={option.id}
+                onClick={() => onAnswerLanguageChange(option.id)}
+                className={`px-3 py-1 rounded-md text-xs font-bold transition-all ${answerLanguage === option.id ? 'shadow-sm text-white' : 'text-slate-500 hover:text-slate-800'}`}
+                style={{ backgroundColor: answerLanguage === option.id ? theme.colors.primary : 'transparent' }}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {messages.length === 0 && !pending && (
+          <p className="text-sm text-center py-10" style={{ color: theme.colors.subtext }}>
+            Ask anything about this guide, e.g. "Explain slide 7 again with a simpler example".
+          </p>
+        )}
+        {messages.map((message, idx) => message.role === 'user' ? (
+          <div key={idx} className="flex justify-end">
+            <div className="max-w-[85%] px-4 py-2 rounded-2xl rounded-br-sm text-sm text-white whitespace-pre-wrap" style={{ backgroundColor: theme.colors.primary }}>
+              {message.text}
+            </div>
+          </div>
+        ) : (
+          <div key={idx} className="max-w-[90%] space-y-2">
+            <div className="px-4 py-3 rounded-2xl rounded-bl-sm border text-sm space-y-2" style={{ borderColor: theme.colors.border, backgroundColor: theme.colors.card, color: theme.colors.text }}>
+              <p className="whitespace-pre-wrap" style={message.translation ? primaryFont : undefined}>{message.text}</p>
+              {message.translation && (
+                <p className="whitespace-pre-wrap pt-2 border-t" style={{ ...secondaryFont, borderColor: theme.colors.border, color: theme.colors.subtext }}>{message.translation}</p>
+              )}
+            </div>
+            {message.citations && message.citations.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {message.citations.map((citation, cIdx) => (
+                  <button
+                    key={cIdx}
+                    onClick={() => onJump(citation)}
+                    className="text-xs px-2.5 py-1 rounded-full border bg-white hover:bg-slate-50 max-w-full truncate"
+                    style={{ borderColor: theme.colors.border, color: theme.colors.primary }}
+                    title="Show in the notes"
+                  >
+                    {formatCitation(file, citation)}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+        {pending && (
+          <>
+            <div className="flex justify-end">
+              <div className="max-w-[85%] px-4 py-2 rounded-2xl rounded-br-sm text-sm text-white whitespace-pre-wrap opacity-70" style={{ backgroundColor: theme.colors.primary }}>
+                {pending}
+              </div>
+            </div>
+            <p className="text-sm animate-pulse" style={{ color: theme.colors.subtext }}>Reading the guide...</p>
+          </>
+        )}
+        {error && <p className="text-sm text-red-600">Could not answer: {error}</p>}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="p-4 border-t flex items-end gap-2" style={{ borderColor: theme.colors.border }}>
+        <textarea
+          rows={2}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          placeholder="Ask a question..."
+          className="flex-1 px-3 py-2 rounded-lg border text-sm resize-none focus:outline-none focus:ring-2"
+          style={{ borderColor: theme.colors.border, '--tw-ring-color': theme.colors.primary } as React.CSSProperties}
+        />
+        <button
+          onClick={handleSend}
+          disabled={!input.trim() || !!pending}
+          className="px-4 py-2 rounded-lg text-sm font-bold text-white hover:brightness-90 disabled:opacity-50"
+          style={{ backgroundColor: theme.colors.primary }}
+        >
+          Send
+        </button>
+      </div>
+    </aside>
+  );
+};
+
+export default ChatPanel;
@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import { AppTheme, StudyFile, LANGUAGES } from '../types';
+import { ExamPaperOptions, generateSeed } from '../services/examPaperService';
+
+export type ExamPaperFormat = 'pdf' | 'docx';
+
+interface ExamPaperDialogProps {
+  file: StudyFile;
+  theme: AppTheme;
+  isExporting: boolean;
+  onExport: (options: ExamPaperOptions, format: ExamPaperFormat) => void;
+  onClose: () => void;
+}
+
+const ExamPaperDialog: React.FC<ExamPaperDialogProps> = ({ file, theme, isExporting, onExport, onClose }) => {
+  // Only sections with questions can go on a paper
+  const candidates = useMemo(
+    () => file.sections
+      .map((section, index) => ({ index, topic: section.topic, count: section.questions?.length || 0 }))
+      .filter(section => section.count > 0),
+    [file.sections]
+  );
+
+  const [selected, setSelected] = useState<Set<number>>(() => new Set(candidates.map(section => section.index)));
+  const [seed, setSeed] = useState(generateSeed);
+  const [bilingual, setBilingual] = useState(false);
+
+  const questionCount = candidates.filter(section => selected.has(section.index)).reduce((sum, section) => sum + section.count, 0);
+  const canExport = questionCount > 0 && seed.trim().length > 0 && !isExporting;
+
+  const toggleSection = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const handleExport = (format: ExamPaperFormat) => {
+    onExport({ sectionIndexes: Array.from(selected).sort((a, b) => a - b), seed: seed.trim(), bilingual }, format);
+  };
+
+  const inputStyle = { borderColor: theme.colors.border, '--tw-ring-color': theme.colors.primary } as React.CSSProperties;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-white rounded-2xl shadow-2xl border p-8 space-y-6"
+        style={{ borderColor: theme.colors.border }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold" style={{ color: theme.colors.text }}>Print Exam Paper</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-2xl leading-none">×</button>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-xs font-bold uppercase tracking-wider" style={{ color: theme.colors.subtext }}>Sections</label>
+            <button
+              onClick={() => setSelected(selected.size === candidates.length ? new Set() : new Set(candidates.map(section => section.index)))}
+              className="text-xs font-bold hover:underline"
+              style={{ color: theme.colors.primary }}
+            >
+              {selected.size === candidates.length ? 'Select none' : 'Select all'}
+            </button>
+          </div>
+          <div className="max-h-56 overflow-y-auto border rounded-xl divide-y" style={{ borderColor: theme.colors.border }}>
+            {candidates.map(section => (
+              <label key={section.index} className="flex items-center px-3 py-2 text-sm cursor-pointer hover:bg-slate-50">
+                <input type="checkbox" className="mr-3" checked={selected.has(section.index)} onChange={() => toggleSection(section.index)} />
+                <span className="flex-1 truncate" style={{ color: theme.colors.text }}>{section.topic}</span>
+                <span className="text-xs ml-2" style={{ color: theme.colors.subtext }}>{section.count}</span>
+              </label>
+            ))}
+          </div>
+          <p className="text-xs mt-2" style={{ color: theme.colors.subtext }}>{questionCount} questions selected</p>
+        </div>
+
+        <div>
+          <label className="block text-xs font-bold uppercase tracking-wider mb-1" style={{ color: theme.colors.subtext }}>Version seed</label>
+          <div className="flex gap-2">
+            <input
+              className="flex-1 px-3 py-2 rounded-lg border text-sm font-mono focus:outline-none focus:ring-2"
+              style={inputStyle}
+              value={seed}
+              onChange={(e) => setSeed(e.target.value)}
+            />
+            <button
+              onClick={() => setSeed(generateSeed())}
+              className="px-3 py-2 border rounded-lg bg-white hover:bg-slate-50 text-sm font-medium"
+              style={{ borderColor: theme.colors.border, color: theme.colors.text }}
+            >
+              New
+            </button>
+          </div>
+          <p className="text-xs mt-1" style={{ color: theme.colors.subtext }}>
+            The same seed and sections always produce the same question and option order.
+          </p>
+        </div>
+
+        <label className="flex items-start text-sm cursor-pointer" style={{ color: theme.colors.text }}>
+          <input type="checkbox" className="mt-1 mr-3" checked={bilingual} onChange={(e) => setBilingual(e.target.checked)} />
+          <span>
+            Bilingual question stems
+            <span className="block text-xs" style={{ color: theme.colors.subtext }}>
+              Adds a {LANGUAGES[file.languages.secondary].name} translation under each question (uses the AI model).
+            </span>
+          </span>
+        </label>
+
+        <div className="flex justify-end gap-3">
+          {(['pdf', 'docx'] as ExamPaperFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={!canExport}
+              className="px-5 py-2 rounded-lg text-sm font-bold text-white shadow-sm hover:brightness-90 disabled:opacity-50 uppercase"
+              style={{ backgroundColor: theme.colors.primary }}
+            >
+              {isExporting ? '...' : format}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExamPaperDialog;
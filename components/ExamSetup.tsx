@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from 'react';
+import { AppTheme, StudySection } from '../types';
+import { ExamSessionOptions } from '../services/examService';
+
+interface ExamSetupProps {
+  sections: StudySection[];
+  theme: AppTheme;
+  initialOptions?: ExamSessionOptions; // Settings of the previous exam
+  mistakeCount: number;
+  onStart: (options: ExamSessionOptions) => void;
+  onDrillMistakes: () => void;
+}
+
+const TIME_LIMITS = [0, 5, 10, 15, 20, 30, 45, 60, 90];
+
+const ExamSetup: React.FC<ExamSetupProps> = ({ sections, theme, initialOptions, mistakeCount, onStart, onDrillMistakes }) => {
+  // Only sections with questions can be picked
+  const candidates = useMemo(
+    () => sections
+      .map((section, index) => ({ index, topic: section.topic, count: section.questions?.length || 0 }))
+      .filter(section => section.count > 0),
+    [sections]
+  );
+
+  const [selected, setSelected] = useState<Set<number>>(() => new Set(initialOptions?.sectionIndexes ?? candidates.map(section => section.index)));
+  const [questionCount, setQuestionCount] = useState<number | null>(initialOptions?.questionCount ?? null); // null: every question
+  const [shuffleQuestions, setShuffleQuestions] = useState(initialOptions?.shuffleQuestions ?? true);
+  const [shuffleOptions, setShuffleOptions] = useState(initialOptions?.shuffleOptions ?? true);
+  const [timeLimitMinutes, setTimeLimitMinutes] = useState(initialOptions?.timeLimitMinutes ?? 0);
+
+  const available = candidates.filter(section => selected.has(section.index)).reduce((sum, section) => sum + section.count, 0);
+  const count = Math.min(questionCount ?? available, available);
+
+  const toggleSection = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const handleStart = () => {
+    onStart({
+      sectionIndexes: Array.from(selected).sort((a, b) => a - b),
+      questionCount: count,
+      shuffleQuestions,
+      shuffleOptions,
+      timeLimitMinutes,
+    });
+  };
+
+  const labelClass = "block text-xs font-bold uppercase tracking-wider mb-2";
+  const inputStyle = { borderColor: theme.colors.border, color: theme.colors.text, '--tw-ring-color': theme.colors.primary } as React.CSSProperties;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border p-8 mb-8 space-y-6" style={{ borderColor: theme.colors.border }}>
+      <h2 className="text-2xl font-bold" style={{ color: theme.colors.text }}>Mock Exam</h2>
+
+      {mistakeCount > 0 && (
+        <div className="flex items-center justify-between gap-4 p-4 rounded-xl border" style={{ borderColor: theme.colors.border, backgroundColor: theme.colors.secondary }}>
+          <span className="text-sm" style={{ color: theme.colors.text }}>
+            {mistakeCount} missed question{mistakeCount === 1 ? '' : 's'} in your mistake notebook.
+          </span>
+          <button
+            onClick={onDrillMistakes}
+            className="flex-shrink-0 px-4 py-2 rounded-lg text-sm font-bold text-white hover:brightness-90"
+            style={{ backgroundColor: theme.colors.primary }}
+          >
+            Drill Mistakes
+          </button>
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs font-bold uppercase tracking-wider" style={{ color: theme.colors.subtext }}>Topics</span>
+          <button
+            onClick={() => setSelected(selected.size === candidates.length ? new Set() : new Set(candidates.map(section => section.index)))}
+            className="text-xs font-bold hover:underline"
+            style={{ color: theme.colors.primary }}
+          >
+            {selected.size === candidates.length ? 'Select none' : 'Select all'}
+          </button>
+        </div>
+        <div className="max-h-64 overflow-y-auto border rounded-xl divide-y" style={{ borderColor: theme.colors.border }}>
+          {candidates.map(section => (
+            <label key={section.index} className="flex items-center px-3 py-2 text-sm cursor-pointer hover:bg-slate-50">
+              <input type="checkbox" className="mr-3" checked={selected.has(section.index)} onChange={() => toggleSection(section.index)} />
+              <span className="flex-1 truncate" style={{ color: theme.colors.text }}>{section.topic}</span>
+              <span className="text-xs ml-2" style={{ color: theme.colors.subtext }}>{section.count}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-6">
+        <label className="block">
+          <span className={labelClass} style={{ color: theme.colors.subtext }}>Questions (of {available})</span>
+          <input
+            type="number"
+            min={1}
+            max={available}
+            className="w-full px-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-2"
+            style={inputStyle}
+            value={count}
+            disabled={available === 0}
+            onChange={(e) => setQuestionCount(Math.max(1, Math.min(available, Number(e.target.value) || 1)))}
+          />
+        </label>
+        <label className="block">
+          <span className={labelClass} style={{ color: theme.colors.subtext }}>Time limit</span>
+          <select
+            className="w-full px-3 py-2 rounded-lg border bg-white text-sm focus:outline-none focus:ring-2"
+            style={inputStyle}
+            value={timeLimitMinutes}
+            onChange={(e) => setTimeLimitMinutes(Number(e.target.value))}
+          >
+            {TIME_LIMITS.map(minutes => (
+              <option key={minutes} value={minutes}>{minutes === 0 ? 'Untimed' : `${minutes} minutes`}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-6 text-sm" style={{ color: theme.colors.text }}>
+        <label className="flex items-center cursor-pointer">
+          <input type="checkbox" className="mr-2" checked={shuffleQuestions} onChange={(e) => setShuffleQuestions(e.target.checked)} />
+          Shuffle question order
+        </label>
+        <label className="flex items-center cursor-pointer">
+          <input type="checkbox" className="mr-2" checked={shuffleOptions} onChange={(e) => setShuffleOptions(e.target.checked)} />
+          Shuffle answer options
+        </label>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleStart}
+          disabled={count === 0}
+          className="px-8 py-3 rounded-xl font-bold text-white shadow-lg shadow-brand-500/30 hover:shadow-xl hover:translate-y-[-1px] transition-all disabled:opacity-50"
+          style={{ backgroundColor: theme.colors.primary }}
+        >
+          Start Exam
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExamSetup;
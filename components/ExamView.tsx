@@ -1,31 +1,316 @@
 
-import React, { useState, useMemo } from 'react';
-import { StudySection, ExamQuestion, AppTheme } from '../types';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { StudySection, ExamQuestion, AppTheme, ExamAttempt, ExamResponse, AnswerGrade, ShortAnswerQuestion, LanguagePair, LANGUAGES, MistakeEntry } from '../types';
+import {
+  BLANK_REGEX,
+  optionLetter,
+  getDefinitionOrder,
+  getQuestionHint,
+  isAnswered,
+  scoreQuestion,
+  formatCorrectAnswer,
+  formatResponse,
+  buildExamSession,
+  ExamSessionOptions,
+  SessionQuestion,
+} from '../services/examService';
+import { buildMistakeSession } from '../services/mistakeService';
+import ExamSetup from './ExamSetup';
 
 interface ExamViewProps {
   sections: StudySection[];
+  languages: LanguagePair;
   theme: AppTheme;
+  history?: ExamAttempt[];
+  mistakes?: MistakeEntry[];
+  autoDrill?: boolean; // Start drilling the mistakes right away
+  // `questions` are the questions as asked, aligned with `attempt.answers`
+  onComplete?: (attempt: ExamAttempt, questions: SessionQuestion[]) => void;
+  // AI grading of short answers; without it they are scored by keywords
+  onGradeAnswer?: (question: ShortAnswerQuestion, section: StudySection, answer: string) => Promise<AnswerGrade>;
 }
 
-const ExamView: React.FC<ExamViewProps> = ({ sections, theme }) => {
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// Partial credit makes scores fractional
+const formatScore = (score: number) => Number.isInteger(score) ? String(score) : score.toFixed(1);
+
+const toPercent = (attempt: { score: number; total: number }) =>
+  attempt.total > 0 ? Math.round((attempt.score / attempt.total) * 100) : 0;
+
+// Score trend across retakes (most recent attempts, oldest on the left)
+const ExamHistoryPanel: React.FC<{ history: ExamAttempt[]; theme: AppTheme }> = ({ history, theme }) => {
+  const recent = history.slice(-12);
+  const best = Math.max(...history.map(toPercent));
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border p-8 mb-8" style={{ borderColor: theme.colors.border }}>
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-bold" style={{ color: theme.colors.text }}>Attempt History</h3>
+        <span className="text-sm text-slate-500">
+          {history.length} attempt{history.length === 1 ? '' : 's'} · Best {best}%
+        </span>
+      </div>
+      <div className="flex items-end gap-2 h-32 border-b" style={{ borderColor: theme.colors.border }}>
+        {recent.map((attempt, idx) => {
+          const percent = toPercent(attempt);
+          return (
+            <div key={attempt.date} className="flex-1 flex flex-col items-center justify-end h-full group" title={new Date(attempt.date).toLocaleString()}>
+              <span className="text-xs font-bold mb-1" style={{ color: theme.colors.subtext }}>{percent}%</span>
+              <div 
+                className="w-full rounded-t-md transition-all"
+                style={{ 
+                  height: `${Math.max(percent, 2)}%`, 
+                  backgroundColor: theme.colors.primary,
+                  opacity: idx === recent.length - 1 ? 1 : 0.45
+                }}
+              ></div>
+            </div>
+          );
+        })}
+      </div>
+      <div className="mt-4 space-y-1 text-sm">
+        {[...recent].reverse().slice(0, 5).map(attempt => (
+          <div key={attempt.date} className="flex justify-between text-slate-500">
+            <span>{new Date(attempt.date).toLocaleString()}</span>
+            <span>{formatScore(attempt.score)} / {attempt.total} · {formatDuration(attempt.durationMs)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Rubric, feedback and corrected answer of an AI-graded short answer
+const GradePanel: React.FC<{ grade: AnswerGrade; languages: LanguagePair; theme: AppTheme }> = ({ grade, languages, theme }) => {
+  const primaryFont = { fontFamily: LANGUAGES[languages.primary].fontFamily };
+  const secondaryFont = { fontFamily: LANGUAGES[languages.secondary].fontFamily };
+
+  return (
+    <div className="p-4 rounded-lg border text-sm space-y-3" style={{ borderColor: theme.colors.border, backgroundColor: theme.colors.secondary, color: theme.colors.text }}>
+      <span className="font-bold block">AI Grading · {Math.round(grade.score * 100)}%</span>
+      <ul className="space-y-2">
+        {grade.rubric.map((item, idx) => (
+          <li key={idx}>
+            <div className="flex justify-between font-medium">
+              <span>{item.criterion}</span>
+              <span style={{ color: theme.colors.primary }}>{item.points} / {item.maxPoints}</span>
+            </div>
+            <p className="text-xs" style={{ color: theme.colors.subtext }}>{item.comment}</p>
+          </li>
+        ))}
+      </ul>
+      <div className="border-t pt-3 space-y-1" style={{ borderColor: theme.colors.border }}>
+        <p style={primaryFont}>{grade.feedback.primary}</p>
+        <p style={{ ...secondaryFont, color: theme.colors.subtext }}>{grade.feedback.secondary}</p>
+      </div>
+      <div className="border-t pt-3 space-y-1" style={{ borderColor: theme.colors.border }}>
+        <span className="font-bold block">Model answer:</span>
+        <p style={primaryFont}>{grade.modelAnswer.primary}</p>
+        <p style={{ ...secondaryFont, color: theme.colors.subtext }}>{grade.modelAnswer.secondary}</p>
+      </div>
+    </div>
+  );
+};
+
+interface ChoiceButtonProps {
+  label: string;
+  selected: boolean;
+  multiple?: boolean; // Square check box instead of a radio dot
+  theme: AppTheme;
+  onClick: () => void;
+}
+
+const ChoiceButton: React.FC<ChoiceButtonProps> = ({ label, selected, multiple, theme, onClick }) => (
+  <button
+    onClick={onClick}
+    className={`w-full text-left p-4 rounded-xl border-2 transition-all flex items-center group
+      ${selected 
+         ? 'border-brand-500 bg-brand-50' 
+         : 'border-slate-100 hover:border-slate-300 hover:bg-slate-50'
+      }
+    `}
+    style={{ 
+      borderColor: selected ? theme.colors.primary : undefined,
+      backgroundColor: selected ? `${theme.colors.primary}10` : undefined
+    }}
+  >
+    <div 
+      className={`w-6 h-6 border-2 mr-4 flex items-center justify-center flex-shrink-0 transition-colors
+        ${multiple ? 'rounded-md' : 'rounded-full'}
+        ${selected ? 'border-brand-500 bg-brand-500 text-white' : 'border-slate-300 group-hover:border-slate-400'}
+      `}
+      style={{
+          borderColor: selected ? theme.colors.primary : undefined,
+          backgroundColor: selected ? theme.colors.primary : 'transparent'
+      }}
+    >
+      {selected && (multiple ? <span className="text-xs font-bold">✓</span> : <div className="w-2 h-2 bg-white rounded-full" />)}
+    </div>
+    <span className={`text-base ${selected ? 'font-medium' : ''}`} style={{ color: theme.colors.text }}>
+      {label}
+    </span>
+  </button>
+);
+
+interface QuestionInputProps {
+  question: ExamQuestion;
+  response: ExamResponse | undefined;
+  theme: AppTheme;
+  onChange: (response: ExamResponse) => void;
+}
+
+// Answer controls for each question type. Fill-in-the-blank stems are drawn
+// here too, with an input in place of each "___".
+const QuestionInput: React.FC<QuestionInputProps> = ({ question, response, theme, onChange }) => {
+  const inputStyle = { borderColor: theme.colors.border, color: theme.colors.text, '--tw-ring-color': theme.colors.primary } as React.CSSProperties;
+
+  switch (question.type) {
+    case 'mcq':
+      return (
+        <div className="space-y-3">
+          {question.options.map((option, idx) => (
+            <ChoiceButton key={idx} label={option} selected={response === idx} theme={theme} onClick={() => onChange(idx)} />
+          ))}
+        </div>
+      );
+    case 'trueFalse':
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          {[true, false].map(value => (
+            <ChoiceButton key={String(value)} label={value ? 'True' : 'False'} selected={response === value} theme={theme} onClick={() => onChange(value)} />
+          ))}
+        </div>
+      );
+    case 'multiSelect': {
+      const selected = (response as number[] | undefined) || [];
+      const toggle = (idx: number) => onChange(selected.includes(idx) ? selected.filter(i => i !== idx) : [...selected, idx]);
+      return (
+        <div className="space-y-3">
+          {question.options.map((option, idx) => (
+            <ChoiceButton key={idx} label={option} selected={selected.includes(idx)} multiple theme={theme} onClick={() => toggle(idx)} />
+          ))}
+        </div>
+      );
+    }
+    case 'fillBlank': {
+      const values = (response as string[] | undefined) || question.blanks.map(() => '');
+      const parts = question.question.split(BLANK_REGEX);
+      return (
+        <p className="text-lg leading-loose" style={{ color: theme.colors.text }}>
+          {parts.map((part, idx) => (
+            <React.Fragment key={idx}>
+              {part}
+              {idx < question.blanks.length && (
+                <input
+                  className="inline-block w-36 mx-1 px-2 py-1 border-b-2 bg-transparent text-base focus:outline-none focus:ring-2 rounded-t"
+                  style={inputStyle}
+                  value={values[idx] || ''}
+                  aria-label={`Blank ${idx + 1}`}
+                  onChange={(e) => onChange(values.map((value, i) => i === idx ? e.target.value : value))}
+                />
+              )}
+            </React.Fragment>
+          ))}
+        </p>
+      );
+    }
+    case 'shortAnswer':
+      return (
+        <textarea
+          className="w-full h-36 p-4 rounded-xl border-2 text-base focus:outline-none focus:ring-2 resize-y"
+          style={inputStyle}
+          placeholder="Type your answer..."
+          value={(response as string | undefined) || ''}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+    case 'matching': {
+      const order = getDefinitionOrder(question);
+      const choices = (response as number[] | undefined) || question.pairs.map(() => -1);
+      return (
+        <div className="space-y-6">
+          <ol className="space-y-2 text-sm" style={{ color: theme.colors.text }}>
+            {order.map((pairIndex, idx) => (
+              <li key={pairIndex} className="flex">
+                <span className="font-bold w-6 flex-shrink-0" style={{ color: theme.colors.primary }}>{optionLetter(idx)}.</span>
+                {question.pairs[pairIndex].definition}
+              </li>
+            ))}
+          </ol>
+          <div className="space-y-3">
+            {question.pairs.map((pair, idx) => (
+              <label key={idx} className="flex items-center gap-4">
+                <span className="flex-1 font-medium" style={{ color: theme.colors.text }}>{pair.term}</span>
+                <select
+                  className="w-24 px-3 py-2 rounded-lg border-2 bg-white text-sm focus:outline-none focus:ring-2"
+                  style={inputStyle}
+                  value={choices[idx]}
+                  onChange={(e) => onChange(choices.map((choice, i) => i === idx ? Number(e.target.value) : choice))}
+                >
+                  <option value={-1}>–</option>
+                  {order.map((pairIndex, letterIdx) => (
+                    <option key={pairIndex} value={pairIndex}>{optionLetter(letterIdx)}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+      );
+    }
+  }
+};
+
+const ExamView: React.FC<ExamViewProps> = ({ sections, languages, theme, history = [], mistakes = [], autoDrill, onComplete, onGradeAnswer }) => {
+  const [sessionOptions, setSessionOptions] = useState<ExamSessionOptions | null>(null);
+  const [isDrill, setIsDrill] = useState(false);
+  const [questions, setQuestions] = useState<SessionQuestion[]>([]);
+  const [phase, setPhase] = useState<'setup' | 'running' | 'results'>('setup');
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [selectedAnswers, setSelectedAnswers] = useState<Record<number, number>>({});
-  const [showResults, setShowResults] = useState(false);
-
-  // Flatten all questions
-  const questions = useMemo(() => {
-    const allQuestions: { q: ExamQuestion; sourceTopic: string }[] = [];
-    sections.forEach(section => {
-      if (section.questions) {
-        section.questions.forEach(q => {
-          allQuestions.push({ q, sourceTopic: section.topic });
-        });
+  const [responses, setResponses] = useState<Record<number, ExamResponse>>({});
+  const [flagged, setFlagged] = useState<Set<number>>(new Set());
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+  const [timedOut, setTimedOut] = useState(false);
+  const [grades, setGrades] = useState<Record<number, AnswerGrade>>({});
+  const [pendingGrades, setPendingGrades] = useState<number[]>([]);
+  const [gradeErrors, setGradeErrors] = useState<Record<number, string>>({});
+  const startedAtRef = useRef(Date.now());
+  // Bumped on every submit and new exam so a late grade is not shown on a newer attempt
+  const attemptRef = useRef(0);
+  // Latest submit handler, for the countdown's auto-submit
+  const submitRef = useRef<() => void>(() => undefined);
+
+  const hasQuestions = useMemo(() => sections.some(section => (section.questions?.length || 0) > 0), [sections]);
+
+  // Countdown; submits the exam when it runs out
+  useEffect(() => {
+    if (phase !== 'running' || deadline === null) return;
+    const tick = () => {
+      const left = Math.max(0, deadline - Date.now());
+      setRemainingMs(left);
+      if (left === 0) {
+        setTimedOut(true);
+        submitRef.current();
       }
-    });
-    return allQuestions;
-  }, [sections]);
+    };
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [phase, deadline]);
+
+  // Only on mount: the drill was requested from the mistake notebook
+  useEffect(() => {
+    if (autoDrill && hasQuestions && mistakes.length > 0) startDrill();
+  }, []);
 
-  if (questions.length === 0) {
+  if (!hasQuestions) {
     return (
       <div className="text-center py-20 text-slate-500">
         <p className="text-xl">No exam questions generated.</p>
@@ -33,83 +318,270 @@ const ExamView: React.FC<ExamViewProps> = ({ sections, theme }) => {
     );
   }
 
-  const handleOptionSelect = (optionIndex: number) => {
-    if (showResults) return;
-    setSelectedAnswers(prev => ({ ...prev, [currentQuestionIndex]: optionIndex }));
+  const beginSession = (sessionQuestions: SessionQuestion[], timeLimitMinutes: number) => {
+    attemptRef.current++;
+    setQuestions(sessionQuestions);
+    setCurrentQuestionIndex(0);
+    setResponses({});
+    setFlagged(new Set());
+    setGrades({});
+    setPendingGrades([]);
+    setGradeErrors({});
+    setTimedOut(false);
+    startedAtRef.current = Date.now();
+    setDeadline(timeLimitMinutes > 0 ? startedAtRef.current + timeLimitMinutes * 60000 : null);
+    setRemainingMs(null);
+    setPhase('running');
   };
 
-  const calculateScore = () => {
-    let correct = 0;
-    questions.forEach((item, idx) => {
-      if (selectedAnswers[idx] === item.q.correctIndex) correct++;
+  const startExam = (options: ExamSessionOptions) => {
+    setSessionOptions(options);
+    setIsDrill(false);
+    beginSession(buildExamSession(sections, options), options.timeLimitMinutes);
+  };
+
+  // Untimed, in the order the questions were missed
+  const startDrill = () => {
+    setIsDrill(true);
+    beginSession(buildMistakeSession(mistakes, sections), 0);
+  };
+
+  const handleResponse = (response: ExamResponse) => {
+    if (phase !== 'running') return;
+    setResponses(prev => ({ ...prev, [currentQuestionIndex]: response }));
+  };
+
+  const toggleFlag = (index: number) => {
+    setFlagged(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
     });
-    return correct;
   };
 
-  const currentQ = questions[currentQuestionIndex];
-  const isAnswered = selectedAnswers[currentQuestionIndex] !== undefined;
+  // A model grade replaces the keyword score of a short answer
+  const getCredits = (graded: Record<number, AnswerGrade>) =>
+    questions.map((item, idx) => graded[idx]?.score ?? scoreQuestion(item.q, responses[idx]));
+
+  const credits = getCredits(grades);
+
+  // Short answers are graded one at a time; the attempt is recorded once every grade is in
+  const handleSubmit = async () => {
+    const now = Date.now();
+    const attemptId = ++attemptRef.current;
+    setPhase('results');
+    window.scrollTo(0, 0);
+
+    const toGrade = onGradeAnswer
+      ? questions.map((item, idx) => ({ item, idx })).filter(({ item, idx }) => item.q.type === 'shortAnswer' && isAnswered(item.q, responses[idx]))
+      : [];
+    setPendingGrades(toGrade.map(({ idx }) => idx));
+
+    const graded: Record<number, AnswerGrade> = {};
+    const isCurrent = () => attemptRef.current === attemptId;
+    for (const { item, idx } of toGrade) {
+      try {
+        graded[idx] = await onGradeAnswer!(item.q as ShortAnswerQuestion, item.section, responses[idx] as string);
+        if (isCurrent()) setGrades(prev => ({ ...prev, [idx]: graded[idx] }));
+      } catch (error: any) {
+        console.error(error);
+        if (isCurrent()) setGradeErrors(prev => ({ ...prev, [idx]: error.message || 'Grading failed' }));
+      }
+      if (isCurrent()) setPendingGrades(prev => prev.filter(i => i !== idx));
+    }
+
+    const finalCredits = getCredits(graded);
+    const attempt: ExamAttempt = {
+      date: now,
+      score: finalCredits.reduce((sum, credit) => sum + credit, 0),
+      total: questions.length,
+      durationMs: now - startedAtRef.current,
+      kind: isDrill ? 'drill' : 'exam',
+      answers: questions.map((item, idx) => {
+        const response = responses[idx] ?? null;
+        return {
+          question: item.q.question,
+          topic: item.section.topic,
+          selectedIndex: item.q.type === 'mcq' && typeof response === 'number' ? response : null,
+          response,
+          credit: finalCredits[idx],
+          correct: finalCredits[idx] === 1,
+          grade: graded[idx],
+        };
+      }),
+    };
+    onComplete?.(attempt, questions);
+  };
+  submitRef.current = handleSubmit;
+
+  const unansweredCount = questions.filter((item, idx) => !isAnswered(item.q, responses[idx])).length;
+
+  const handleSubmitClick = () => {
+    const warnings = [
+      unansweredCount > 0 ? `${unansweredCount} unanswered` : '',
+      flagged.size > 0 ? `${flagged.size} flagged for review` : '',
+    ].filter(Boolean);
+    if (warnings.length > 0 && !window.confirm(`${warnings.join(' and ')} question(s). Submit anyway?`)) return;
+    handleSubmit();
+  };
+
+  // Setup View
+  if (phase === 'setup') {
+    return (
+      <div className="max-w-3xl mx-auto pb-20">
+        <ExamSetup
+          sections={sections}
+          theme={theme}
+          initialOptions={sessionOptions ?? undefined}
+          mistakeCount={mistakes.length}
+          onStart={startExam}
+          onDrillMistakes={startDrill}
+        />
+        {history.length > 0 && <ExamHistoryPanel history={history} theme={theme} />}
+      </div>
+    );
+  }
 
   // Results View
-  if (showResults) {
-    const score = calculateScore();
+  if (phase === 'results') {
+    const score = credits.reduce((sum, credit) => sum + credit, 0);
     const percentage = Math.round((score / questions.length) * 100);
+
+    // Accuracy per source topic, in document order
+    const topics = new Map<number, { topic: string; score: number; total: number }>();
+    questions.forEach((item, idx) => {
+      const entry = topics.get(item.sectionIndex) ?? { topic: item.section.topic, score: 0, total: 0 };
+      entry.score += credits[idx];
+      entry.total++;
+      topics.set(item.sectionIndex, entry);
+    });
+    const breakdown = Array.from(topics.entries()).sort(([a], [b]) => a - b).map(([sectionIndex, entry]) => ({ sectionIndex, ...entry }));
     
     return (
       <div className="max-w-4xl mx-auto pb-20">
         <div className="bg-white rounded-2xl shadow-sm border p-8 mb-8 text-center" style={{ borderColor: theme.colors.border }}>
-          <h2 className="text-3xl font-bold mb-2" style={{ color: theme.colors.text }}>Exam Results</h2>
+          <h2 className="text-3xl font-bold mb-2" style={{ color: theme.colors.text }}>{isDrill ? 'Mistake Drill Results' : 'Exam Results'}</h2>
           <div className="text-6xl font-extrabold my-6" style={{ color: theme.colors.primary }}>
             {percentage}%
           </div>
           <p className="text-lg text-slate-600">
-            {score} / {questions.length} Correct
+            {formatScore(score)} / {questions.length} Points
           </p>
-          <button 
-            onClick={() => { setShowResults(false); setCurrentQuestionIndex(0); setSelectedAnswers({}); }}
-            className="mt-6 px-6 py-2 rounded-lg text-white font-medium transition-colors hover:brightness-90"
-            style={{ backgroundColor: theme.colors.primary }}
-          >
-            Retake Exam
-          </button>
+          {timedOut && <p className="text-sm mt-2 text-red-500">Time ran out, so the exam was submitted automatically.</p>}
+          {pendingGrades.length > 0 && (
+            <p className="text-sm mt-2 animate-pulse" style={{ color: theme.colors.subtext }}>
+              Grading {pendingGrades.length} written answer{pendingGrades.length === 1 ? '' : 's'}...
+            </p>
+          )}
+          <div className="mt-6 flex justify-center gap-3">
+            <button 
+              onClick={() => isDrill ? startDrill() : sessionOptions && startExam(sessionOptions)}
+              disabled={isDrill && mistakes.length === 0}
+              className="px-6 py-2 rounded-lg text-white font-medium transition-colors hover:brightness-90 disabled:opacity-50"
+              style={{ backgroundColor: theme.colors.primary }}
+            >
+              {isDrill ? `Drill Again (${mistakes.length})` : 'Retake Exam'}
+            </button>
+            <button 
+              onClick={() => { attemptRef.current++; setPhase('setup'); }}
+              className="px-6 py-2 rounded-lg border font-medium hover:bg-slate-50"
+              style={{ borderColor: theme.colors.border, color: theme.colors.text }}
+            >
+              New Exam
+            </button>
+          </div>
         </div>
 
+        <div className="bg-white rounded-2xl shadow-sm border p-8 mb-8" style={{ borderColor: theme.colors.border }}>
+          <h3 className="text-lg font-bold mb-4" style={{ color: theme.colors.text }}>Accuracy by Topic</h3>
+          <div className="space-y-3">
+            {breakdown.map(entry => {
+              const topicPercent = Math.round((entry.score / entry.total) * 100);
+              return (
+                <div key={entry.sectionIndex} className="text-sm">
+                  <div className="flex justify-between mb-1">
+                    <span className="truncate mr-4" style={{ color: theme.colors.text }}>{entry.topic}</span>
+                    <span className="flex-shrink-0" style={{ color: theme.colors.subtext }}>
+                      {formatScore(entry.score)} / {entry.total} · {topicPercent}%
+                    </span>
+                  </div>
+                  <div className="w-full h-2 bg-slate-100 rounded-full overflow-hidden">
+                    <div className="h-full rounded-full" style={{ width: `${topicPercent}%`, backgroundColor: theme.colors.primary }}></div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {history.length > 0 && <ExamHistoryPanel history={history} theme={theme} />}
+
         <div className="space-y-6">
           {questions.map((item, idx) => {
-            const userAns = selectedAnswers[idx];
-            const isCorrect = userAns === item.q.correctIndex;
+            const response = responses[idx];
+            const credit = credits[idx];
+            const isGrading = pendingGrades.includes(idx);
+            const options = item.q.type === 'mcq' || item.q.type === 'multiSelect' ? item.q.options : null;
+            const isChosen = (optIdx: number) => Array.isArray(response) ? (response as number[]).includes(optIdx) : response === optIdx;
+            const isKey = (optIdx: number) => item.q.type === 'mcq' ? optIdx === item.q.correctIndex
+              : item.q.type === 'multiSelect' && item.q.correctIndexes.includes(optIdx);
             return (
-              <div key={idx} className={`rounded-xl border p-6 bg-white ${isCorrect ? 'border-green-200' : 'border-red-200'}`}>
+              <div key={idx} className={`rounded-xl border p-6 bg-white ${credit === 1 ? 'border-green-200' : credit > 0 ? 'border-amber-200' : 'border-red-200'}`}>
                 <div className="flex justify-between items-start mb-4">
-                  <div className="text-sm font-medium px-2 py-1 rounded bg-slate-100 text-slate-500">
-                    Q{idx + 1}
+                  <div className="text-sm font-medium px-2 py-1 rounded bg-slate-100 text-slate-500 truncate mr-4">
+                    Q{idx + 1} · {item.section.topic}
                   </div>
-                  {isCorrect ? (
+                  {isGrading ? (
+                    <span className="font-bold flex items-center animate-pulse" style={{ color: theme.colors.subtext }}>Grading...</span>
+                  ) : credit === 1 ? (
                     <span className="text-green-600 font-bold flex items-center">Correct</span>
+                  ) : credit > 0 ? (
+                    <span className="text-amber-600 font-bold flex items-center">Partial · {Math.round(credit * 100)}%</span>
                   ) : (
                     <span className="text-red-500 font-bold flex items-center">Incorrect</span>
                   )}
                 </div>
                 <h3 className="text-lg font-bold mb-4 text-slate-800">{item.q.question}</h3>
-                <div className="space-y-2 mb-4">
-                  {item.q.options.map((opt, optIdx) => (
-                    <div 
-                      key={optIdx} 
-                      className={`p-3 rounded-lg border text-sm flex items-center
-                        ${optIdx === item.q.correctIndex ? 'bg-green-50 border-green-300 text-green-900' : ''}
-                        ${optIdx === userAns && optIdx !== item.q.correctIndex ? 'bg-red-50 border-red-300 text-red-900' : ''}
-                        ${optIdx !== item.q.correctIndex && optIdx !== userAns ? 'bg-slate-50 border-transparent opacity-60' : ''}
-                      `}
-                    >
-                      {optIdx === item.q.correctIndex && <span className="mr-2">✅</span>}
-                      {optIdx === userAns && optIdx !== item.q.correctIndex && <span className="mr-2">❌</span>}
-                      {opt}
+                {options ? (
+                  <div className="space-y-2 mb-4">
+                    {options.map((opt, optIdx) => (
+                      <div 
+                        key={optIdx} 
+                        className={`p-3 rounded-lg border text-sm flex items-center
+                          ${isKey(optIdx) ? 'bg-green-50 border-green-300 text-green-900' : ''}
+                          ${isChosen(optIdx) && !isKey(optIdx) ? 'bg-red-50 border-red-300 text-red-900' : ''}
+                          ${!isKey(optIdx) && !isChosen(optIdx) ? 'bg-slate-50 border-transparent opacity-60' : ''}
+                        `}
+                      >
+                        {isKey(optIdx) && <span className="mr-2">✅</span>}
+                        {isChosen(optIdx) && !isKey(optIdx) && <span className="mr-2">❌</span>}
+                        {opt}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="space-y-2 mb-4 text-sm">
+                    <div className={`p-3 rounded-lg border ${credit === 1 ? 'bg-green-50 border-green-300 text-green-900' : 'bg-red-50 border-red-300 text-red-900'}`}>
+                      <span className="font-bold mr-2">Your answer:</span>{formatResponse(item.q, response)}
                     </div>
-                  ))}
-                </div>
-                <div className="bg-blue-50 p-4 rounded-lg text-sm text-blue-800">
-                  <span className="font-bold block mb-1">Explanation:</span>
-                  {item.q.explanation}
+                    {credit < 1 && (
+                      <div className="p-3 rounded-lg border bg-green-50 border-green-300 text-green-900">
+                        <span className="font-bold mr-2">Correct answer:</span>{formatCorrectAnswer(item.q)}
+                      </div>
+                    )}
+                  </div>
+                )}
+                <div className={`grid gap-4 ${grades[idx] ? 'md:grid-cols-2' : ''}`}>
+                  <div className="bg-blue-50 p-4 rounded-lg text-sm text-blue-800">
+                    <span className="font-bold block mb-1">Explanation:</span>
+                    {item.q.explanation}
+                  </div>
+                  {grades[idx] && <GradePanel grade={grades[idx]} languages={languages} theme={theme} />}
                 </div>
+                {gradeErrors[idx] && (
+                  <p className="text-xs mt-3 text-red-500">AI grading failed ({gradeErrors[idx]}), so this answer was scored by its keywords.</p>
+                )}
               </div>
             );
           })}
@@ -118,60 +590,81 @@ const ExamView: React.FC<ExamViewProps> = ({ sections, theme }) => {
     );
   }
 
+  const currentQ = questions[currentQuestionIndex];
+  const hint = getQuestionHint(currentQ.q);
+  const isFlagged = flagged.has(currentQuestionIndex);
+
   // Question View
   return (
     <div className="max-w-2xl mx-auto pb-20">
       <div className="mb-6 flex items-center justify-between">
          <span className="text-sm font-bold text-slate-400 uppercase tracking-wider">Exam Mode</span>
-         <span className="text-sm font-medium px-3 py-1 bg-white rounded-full border shadow-sm" style={{ color: theme.colors.subtext }}>
-            Question {currentQuestionIndex + 1} / {questions.length}
-         </span>
-      </div>
-
-      <div className="w-full h-2 bg-slate-200 rounded-full mb-8 overflow-hidden">
-        <div 
-          className="h-full transition-all duration-300"
-          style={{ width: `${((currentQuestionIndex + 1) / questions.length) * 100}%`, backgroundColor: theme.colors.primary }}
-        ></div>
+         <div className="flex items-center gap-2">
+           {remainingMs !== null && (
+             <span
+               className={`text-sm font-bold font-mono px-3 py-1 bg-white rounded-full border shadow-sm ${remainingMs < 60000 ? 'text-red-500 animate-pulse' : ''}`}
+               style={{ color: remainingMs < 60000 ? undefined : theme.colors.text }}
+               title="Time remaining"
+             >
+               ⏱ {formatDuration(remainingMs)}
+             </span>
+           )}
+           <span className="text-sm font-medium px-3 py-1 bg-white rounded-full border shadow-sm" style={{ color: theme.colors.subtext }}>
+              Question {currentQuestionIndex + 1} / {questions.length}
+           </span>
+         </div>
       </div>
 
-      <div className="bg-white rounded-2xl shadow-xl border p-8 relative overflow-hidden" style={{ borderColor: theme.colors.border }}>
-        <h2 className="text-xl sm:text-2xl font-bold mb-8 mt-4 leading-relaxed" style={{ color: theme.colors.text }}>
-          {currentQ.q.question}
-        </h2>
-
-        <div className="space-y-3">
-          {currentQ.q.options.map((option, idx) => (
+      {/* Question navigator: answered questions are filled, flagged ones marked */}
+      <div className="flex flex-wrap gap-2 mb-8">
+        {questions.map((item, idx) => {
+          const answered = isAnswered(item.q, responses[idx]);
+          const current = idx === currentQuestionIndex;
+          return (
             <button
               key={idx}
-              onClick={() => handleOptionSelect(idx)}
-              className={`w-full text-left p-4 rounded-xl border-2 transition-all flex items-center group
-                ${selectedAnswers[currentQuestionIndex] === idx 
-                   ? 'border-brand-500 bg-brand-50' 
-                   : 'border-slate-100 hover:border-slate-300 hover:bg-slate-50'
-                }
-              `}
-              style={{ 
-                borderColor: selectedAnswers[currentQuestionIndex] === idx ? theme.colors.primary : undefined,
-                backgroundColor: selectedAnswers[currentQuestionIndex] === idx ? `${theme.colors.primary}10` : undefined
+              onClick={() => setCurrentQuestionIndex(idx)}
+              className="relative w-9 h-9 rounded-lg border-2 text-xs font-bold transition-colors"
+              style={{
+                borderColor: current ? theme.colors.primary : theme.colors.border,
+                backgroundColor: answered ? theme.colors.secondary : 'white',
+                color: answered || current ? theme.colors.primary : theme.colors.subtext,
               }}
+              title={`Question ${idx + 1}${answered ? '' : ' (unanswered)'}${flagged.has(idx) ? ' (flagged)' : ''}`}
             >
-              <div 
-                className={`w-6 h-6 rounded-full border-2 mr-4 flex items-center justify-center flex-shrink-0 transition-colors
-                  ${selectedAnswers[currentQuestionIndex] === idx ? 'border-brand-500 bg-brand-500 text-white' : 'border-slate-300 group-hover:border-slate-400'}
-                `}
-                style={{
-                    borderColor: selectedAnswers[currentQuestionIndex] === idx ? theme.colors.primary : undefined,
-                    backgroundColor: selectedAnswers[currentQuestionIndex] === idx ? theme.colors.primary : 'transparent'
-                }}
-              >
-                {selectedAnswers[currentQuestionIndex] === idx && <div className="w-2 h-2 bg-white rounded-full" />}
-              </div>
-              <span className={`text-base ${selectedAnswers[currentQuestionIndex] === idx ? 'font-medium' : ''}`} style={{ color: theme.colors.text }}>
-                {option}
-              </span>
+              {idx + 1}
+              {flagged.has(idx) && <span className="absolute -top-1.5 -right-1.5 w-3 h-3 rounded-full bg-amber-400 border-2 border-white"></span>}
             </button>
-          ))}
+          );
+        })}
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-xl border p-8 relative overflow-hidden" style={{ borderColor: theme.colors.border }}>
+        <div className="flex items-center justify-between text-xs">
+          <span className="truncate mr-4" style={{ color: theme.colors.subtext }}>{currentQ.section.topic}</span>
+          <button
+            onClick={() => toggleFlag(currentQuestionIndex)}
+            className={`flex-shrink-0 px-3 py-1 rounded-full border font-bold transition-colors ${isFlagged ? 'bg-amber-50 border-amber-300 text-amber-700' : 'hover:bg-slate-50'}`}
+            style={isFlagged ? undefined : { borderColor: theme.colors.border, color: theme.colors.subtext }}
+          >
+            ⚑ {isFlagged ? 'Flagged' : 'Flag for review'}
+          </button>
+        </div>
+        {currentQ.q.type !== 'fillBlank' && (
+          <h2 className="text-xl sm:text-2xl font-bold mt-4 leading-relaxed" style={{ color: theme.colors.text }}>
+            {currentQ.q.question}
+          </h2>
+        )}
+        {hint && <p className="text-sm mt-2" style={{ color: theme.colors.subtext }}>{hint}</p>}
+
+        <div className="mt-8">
+          <QuestionInput
+            key={currentQuestionIndex}
+            question={currentQ.q}
+            response={responses[currentQuestionIndex]}
+            theme={theme}
+            onChange={handleResponse}
+          />
         </div>
       </div>
 
@@ -184,25 +677,24 @@ const ExamView: React.FC<ExamViewProps> = ({ sections, theme }) => {
           Previous
         </button>
 
-        {currentQuestionIndex === questions.length - 1 ? (
+        <div className="flex gap-3">
+          {currentQuestionIndex < questions.length - 1 && (
+            <button
+              onClick={() => setCurrentQuestionIndex(prev => Math.min(questions.length - 1, prev + 1))}
+              className="px-6 py-3 rounded-xl font-medium border hover:bg-slate-50"
+              style={{ borderColor: theme.colors.border, color: theme.colors.text }}
+            >
+              Next Question
+            </button>
+          )}
           <button
-            onClick={() => setShowResults(true)}
-            disabled={!isAnswered}
-            className="px-8 py-3 rounded-xl font-bold text-white shadow-lg shadow-brand-500/30 hover:shadow-xl hover:translate-y-[-1px] transition-all disabled:opacity-50"
+            onClick={handleSubmitClick}
+            className="px-8 py-3 rounded-xl font-bold text-white shadow-lg shadow-brand-500/30 hover:shadow-xl hover:translate-y-[-1px] transition-all"
             style={{ backgroundColor: theme.colors.primary }}
           >
             Submit Exam
           </button>
-        ) : (
-          <button
-            onClick={() => setCurrentQuestionIndex(prev => Math.min(questions.length - 1, prev + 1))}
-            disabled={!isAnswered}
-             className="px-8 py-3 rounded-xl font-bold text-white shadow-lg shadow-brand-500/30 hover:shadow-xl hover:translate-y-[-1px] transition-all disabled:opacity-50"
-             style={{ backgroundColor: theme.colors.primary }}
-          >
-            Next Question
-          </button>
-        )}
+        </div>
       </div>
     </div>
   );
@@ -1,5 +1,6 @@
 import React, { useRef, useState } from 'react';
 import { UploadIcon } from './Icons';
+import { SUPPORTED_EXTENSIONS } from '../services/fileParser';
 
 interface FileUploadProps {
   onFileSelect: (file: File) => void;
@@ -42,11 +43,16 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, disabled }) => {
     const validTypes = [
       'application/pdf',
       'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'text/markdown',
+      'text/html',
+      'text/plain',
     ];
-    if (validTypes.includes(file.type) || file.name.endsWith('.pdf') || file.name.endsWith('.pptx')) {
+    const fileName = file.name.toLowerCase();
+    if (validTypes.includes(file.type) || SUPPORTED_EXTENSIONS.some(ext => fileName.endsWith(ext))) {
       onFileSelect(file);
     } else {
-      alert("Please upload a valid PDF or PPTX file.");
+      alert("Please upload a PDF, PPTX, DOCX, Markdown, HTML or text file.");
     }
   };
 
@@ -66,7 +72,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, disabled }) => {
         ref={fileInputRef} 
         onChange={handleFileInput} 
         className="hidden" 
-        accept=".pdf,.pptx"
+        accept={SUPPORTED_EXTENSIONS.join(',')}
       />
       
       <div className="flex flex-col items-center space-y-4">
@@ -78,7 +84,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, disabled }) => {
                 Click to upload or drag and drop
             </p>
             <p className="text-sm text-slate-500 mt-1">
-                PDF or PPTX (Presentation) files
+                PDF, PPTX, Word, Markdown, HTML or text files
             </p>
         </div>
       </div>
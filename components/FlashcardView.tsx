@@ -1,105 +1,194 @@
 
-import React, { useState, useEffect } from 'react';
-import { StudySection, StudyPoint } from '../types';
+import React, { useState, useMemo } from 'react';
+import { StudyPoint, StudyFile, FlashcardProgress, CardSchedule, LanguagePair, LANGUAGES } from '../types';
+import {
+  ReviewGrade, applyReview, countCards, deferLearningCards, getCardId, getNextDue, reconcileProgress, scheduleReview,
+} from '../services/srsScheduler';
+import StoredImage from './StoredImage';
+import { buildGlossary, getEntryFileIds, getGlossarySchedule, getTermCardId } from '../services/glossaryService';
+
+// 'glossary' studies one card per key term, with schedules of their own
+export type FlashcardScope = 'file' | 'due' | 'glossary';
 
 interface FlashcardViewProps {
-  sections: StudySection[];
+  files: StudyFile[]; // Only the active file in 'file' scope, the whole library in 'due' scope, either in 'glossary' scope
+  scope: FlashcardScope;
+  onProgressChange: (fileId: string, progress: FlashcardProgress) => void;
+  onGlossaryReview: (fileIds: string[], cardId: string, schedule: CardSchedule) => void;
 }
 
 interface FlashcardItem extends StudyPoint {
-  id: string; 
+  key: string; // Unique across files
+  id: string; // Positional card ID within its file, or the term card ID
+  fileId: string;
+  termFileIds?: string[]; // Files a glossary card's schedule is saved to
+  fileName: string;
+  languages: LanguagePair; // Per card, since the due deck mixes files
   topic: string;
   relatedImages?: string[];
 }
 
-const FlashcardView: React.FC<FlashcardViewProps> = ({ sections }) => {
-  const [cards, setCards] = useState<FlashcardItem[]>([]);
-  const [queue, setQueue] = useState<string[]>([]); 
-  const [mastered, setMastered] = useState<Set<string>>(new Set());
-  const [currentCardId, setCurrentCardId] = useState<string | null>(null);
+const formatInterval = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${Math.max(1, minutes)}m`;
+  const days = Math.round(ms / (24 * 60 * 60 * 1000));
+  return days < 1 ? '<1d' : `${days}d`;
+};
+
+const FlashcardView: React.FC<FlashcardViewProps> = ({ files, scope, onProgressChange, onGlossaryReview }) => {
   const [isFlipped, setIsFlipped] = useState(false);
 
-  useEffect(() => {
-    // Generate Flashcards
-    const allPoints: FlashcardItem[] = [];
-    sections.forEach((section, sIdx) => {
-      section.content.forEach((point, pIdx) => {
-        allPoints.push({
-          ...point,
-          id: `card-${sIdx}-${pIdx}`,
-          topic: section.topic,
-          relatedImages: section.images
+  // Generate Flashcards (IDs are positional, so text edits keep their progress)
+  const sessions = useMemo(() => {
+    const now = Date.now();
+    if (scope === 'glossary') {
+      // Term cards belong to no single file: one session over the merged glossary
+      const entries = buildGlossary(files);
+      const filesById = new Map(files.map(file => [file.id, file]));
+      const cards: FlashcardItem[] = entries.map(entry => {
+        const first = entry.occurrences[0];
+        const id = getTermCardId(entry.key);
+        return {
+          keyTerm: entry.term,
+          primary: entry.primary,
+          secondary: entry.secondary,
+          key: `glossary:${id}`,
+          id,
+          fileId: first.fileId,
+          termFileIds: getEntryFileIds(entry),
+          fileName: first.fileName,
+          languages: entry.languages,
+          topic: first.topic,
+          relatedImages: filesById.get(first.fileId)?.sections[first.sectionIndex]?.images,
+        };
+      });
+      const cardIds = cards.map(c => c.id);
+      const progress = deferLearningCards(reconcileProgress({ mastered: [], queue: [], schedule: getGlossarySchedule(files, entries) }, cardIds, now), now);
+      return [{
+        file: files[0],
+        cards,
+        progress,
+        counts: countCards(progress, cardIds, now),
+        mastered: progress.mastered.length,
+      }];
+    }
+    return files.map(file => {
+      const cards: FlashcardItem[] = [];
+      file.sections.forEach((section, sIdx) => {
+        section.content.forEach((point, pIdx) => {
+          const id = getCardId(sIdx, pIdx);
+          cards.push({
+            ...point,
+            key: `${file.id}:${id}`,
+            id,
+            fileId: file.id,
+            fileName: file.name,
+            languages: file.languages,
+            topic: section.topic,
+            relatedImages: section.images
+          });
         });
       });
+      const cardIds = cards.map(c => c.id);
+      const progress = reconcileProgress(file.flashcardProgress, cardIds, now);
+      return {
+        file,
+        cards,
+        progress,
+        counts: countCards(progress, cardIds, now),
+        mastered: progress.mastered.length,
+      };
     });
-    setCards(allPoints);
-    const initialQueue = allPoints.map(c => c.id);
-    setQueue(initialQueue);
-    setMastered(new Set());
-    if (initialQueue.length > 0) setCurrentCardId(initialQueue[0]);
-    setIsFlipped(false);
-  }, [sections]);
+  }, [files, scope]);
 
-  // SRS Algorithm
-  const handleResult = (difficulty: 'easy' | 'medium' | 'hard') => {
-    if (!currentCardId) return;
+  const cards = useMemo(() => sessions.flatMap(s => s.cards), [sessions]);
+
+  // The file deck follows its saved queue; the "Due today" deck only takes
+  // scheduled cards and interleaves files by due time.
+  const queue = useMemo(() => {
+    if (scope === 'file') {
+      return sessions.flatMap(s => s.progress.queue.map(id => `${s.file.id}:${id}`));
+    }
+    if (scope === 'glossary') {
+      // Scheduled terms by due time first, then new terms in glossary order (see reconcileProgress)
+      return sessions.flatMap(s => s.progress.queue.map(id => `glossary:${id}`));
+    }
+    const due = sessions.flatMap(s => {
+      const schedule = s.progress.schedule ?? {};
+      return s.progress.queue
+        .filter(id => schedule[id])
+        .map(id => ({ key: `${s.file.id}:${id}`, due: schedule[id].due }));
+    });
+    return due.sort((a, b) => a.due - b.due).map(d => d.key);
+  }, [sessions, scope]);
+
+  const currentCard = queue.length > 0 ? cards.find(c => c.key === queue[0]) : undefined;
+  const currentSession = !currentCard ? undefined : scope === 'glossary' ? sessions[0] : sessions.find(s => s.file.id === currentCard.fileId);
+
+  // SRS Algorithm (SM-2, see services/srsScheduler)
+  const handleResult = (grade: ReviewGrade) => {
+    if (!currentCard || !currentSession || !isFlipped) return;
 
     setIsFlipped(false);
+    const nextProgress = applyReview(currentSession.progress, currentCard.id, grade);
     
     setTimeout(() => {
-        setQueue(prevQueue => {
-            const nextQueue = [...prevQueue];
-            nextQueue.shift(); // Remove current
-
-            if (difficulty === 'easy') {
-                // Mastered: removed from queue
-                setMastered(prev => new Set(prev).add(currentCardId));
-            } else if (difficulty === 'medium') {
-                // Review Later: push to end
-                nextQueue.push(currentCardId);
-            } else if (difficulty === 'hard') {
-                // Review Soon: insert shortly after
-                const insertIndex = Math.min(nextQueue.length, 4);
-                nextQueue.splice(insertIndex, 0, currentCardId);
-            }
-
-            setCurrentCardId(nextQueue.length > 0 ? nextQueue[0] : null);
-            return nextQueue;
-        });
+        const termSchedule = nextProgress.schedule?.[currentCard.id];
+        if (currentCard.termFileIds && termSchedule) onGlossaryReview(currentCard.termFileIds, currentCard.id, termSchedule);
+        else onProgressChange(currentCard.fileId, nextProgress);
     }, 300);
   };
 
-  const getCardById = (id: string | null) => cards.find(c => c.id === id);
-  const currentCard = getCardById(currentCardId);
+  const previewInterval = (grade: ReviewGrade) => {
+    if (!currentCard || !currentSession) return '';
+    const now = Date.now();
+    const next = scheduleReview(currentSession.progress.schedule?.[currentCard.id], grade, now);
+    return formatInterval(next.due - now);
+  };
 
-  if (cards.length === 0) return null;
+  if (scope !== 'due' && cards.length === 0) return null;
 
   if (!currentCard) {
+      const nextDue = sessions
+        .map(s => getNextDue(s.progress))
+        .filter((d): d is number => d !== null)
+        .sort((a, b) => a - b)[0];
+
       return (
           <div className="w-full max-w-2xl mx-auto text-center py-20 animate-fade-in">
               <div className="bg-white p-10 rounded-3xl shadow-xl border border-green-100">
                   <div className="text-6xl mb-4">🎉</div>
-                  <h2 className="text-3xl font-bold text-slate-800 mb-4">All Cards Mastered!</h2>
-                  <p className="text-slate-500 mb-8 text-lg">You have reviewed all flashcards in this deck using Spaced Repetition.</p>
-                  <button 
-                    onClick={() => {
-                        const allIds = cards.map(c => c.id);
-                        setQueue(allIds);
-                        setMastered(new Set());
-                        setCurrentCardId(allIds[0]);
-                    }}
-                    className="px-8 py-3 bg-brand-600 text-white font-bold rounded-xl shadow-lg hover:bg-brand-700 transition-all"
-                  >
-                      Restart Session
-                  </button>
+                  <h2 className="text-3xl font-bold text-slate-800 mb-4">
+                    {scope === 'due' ? 'Nothing Due Today!' : 'All Caught Up!'}
+                  </h2>
+                  <p className="text-slate-500 mb-8 text-lg">
+                    {nextDue
+                      ? `Next review: ${new Date(nextDue).toLocaleString()}`
+                      : 'No cards have been scheduled yet.'}
+                  </p>
+                  {scope === 'file' && (
+                    <button 
+                      onClick={() => {
+                          if (window.confirm("Reset all scheduling for this deck?")) {
+                              onProgressChange(sessions[0].file.id, { mastered: [], queue: [], schedule: {} });
+                          }
+                      }}
+                      className="px-8 py-3 bg-brand-600 text-white font-bold rounded-xl shadow-lg hover:bg-brand-700 transition-all"
+                    >
+                        Reset Deck
+                    </button>
+                  )}
               </div>
           </div>
       );
   }
 
-  const masteredCount = mastered.size;
-  const progress = (masteredCount / cards.length) * 100;
-  const remainingCount = queue.length;
+  const counts = sessions.reduce(
+    (acc, s) => ({ due: acc.due + s.counts.due, new: acc.new + s.counts.new, learning: acc.learning + s.counts.learning }),
+    { due: 0, new: 0, learning: 0 }
+  );
+  const masteredCount = sessions.reduce((acc, s) => acc + s.mastered, 0);
+  const masteredPercent = (masteredCount / cards.length) * 100;
 
   return (
     <div className="w-full max-w-4xl mx-auto pb-20">
@@ -108,20 +197,30 @@ const FlashcardView: React.FC<FlashcardViewProps> = ({ sections }) => {
       <div className="flex items-center justify-between mb-6 text-slate-600 px-2">
         <div className="flex items-center space-x-6">
             <div className="text-sm font-medium flex flex-col">
-                <span className="text-xs text-slate-400 uppercase tracking-wider">Queue</span>
-                <span className="font-bold text-lg">{remainingCount}</span>
+                <span className="text-xs text-sky-500 uppercase tracking-wider">Due</span>
+                <span className="font-bold text-lg text-sky-600">{counts.due}</span>
             </div>
+            {scope !== 'due' && (
+              <div className="text-sm font-medium flex flex-col">
+                  <span className="text-xs text-slate-400 uppercase tracking-wider">New</span>
+                  <span className="font-bold text-lg">{counts.new}</span>
+              </div>
+            )}
             <div className="text-sm font-medium flex flex-col">
-                <span className="text-xs text-green-500 uppercase tracking-wider">Mastered</span>
-                <span className="font-bold text-lg text-green-600">{masteredCount}</span>
+                <span className="text-xs text-orange-500 uppercase tracking-wider">Learning</span>
+                <span className="font-bold text-lg text-orange-600">{counts.learning}</span>
             </div>
         </div>
+        <div className="text-sm font-medium flex flex-col items-end">
+            <span className="text-xs text-green-500 uppercase tracking-wider">Mastered</span>
+            <span className="font-bold text-lg text-green-600">{masteredCount} / {cards.length}</span>
+        </div>
       </div>
 
       <div className="w-full bg-slate-200 h-2 rounded-full mb-8 overflow-hidden">
         <div 
           className="bg-green-500 h-full rounded-full transition-all duration-500"
-          style={{ width: `${progress}%` }}
+          style={{ width: `${masteredPercent}%` }}
         ></div>
       </div>
 
@@ -135,12 +234,14 @@ const FlashcardView: React.FC<FlashcardViewProps> = ({ sections }) => {
               <div className="absolute top-0 left-0 w-full h-2 bg-brand-500"></div>
               
               <span className="absolute top-8 left-8 text-xs font-bold text-brand-600 uppercase tracking-wider bg-brand-50 px-3 py-1 rounded-full border border-brand-100">Front</span>
-              <span className="absolute top-8 right-8 text-xs font-medium text-slate-400 max-w-[200px] truncate">{currentCard.topic}</span>
+              <span className="absolute top-8 right-8 text-xs font-medium text-slate-400 max-w-[200px] truncate">
+                {scope === 'due' ? `${currentCard.fileName} · ${currentCard.topic}` : currentCard.topic}
+              </span>
 
               <div className="flex-grow flex flex-col items-center justify-center overflow-y-auto w-full custom-scrollbar py-4">
                 {currentCard.relatedImages && currentCard.relatedImages.length > 0 && (
                     <div className="mb-6 max-h-[200px]">
-                        <img 
+                        <StoredImage 
                             src={currentCard.relatedImages[0]} 
                             className="max-h-[200px] w-auto object-contain rounded-lg shadow-md border border-slate-100" 
                             alt="Visual aid"
@@ -148,7 +249,13 @@ const FlashcardView: React.FC<FlashcardViewProps> = ({ sections }) => {
                     </div>
                 )}
                 <div className="prose prose-lg text-slate-800 leading-relaxed max-w-none">
-                  <p className="text-xl sm:text-2xl font-medium">{currentCard.english}</p>
+                  {scope === 'glossary' ? (
+                    <p className="text-3xl sm:text-4xl font-bold" lang={currentCard.languages.primary}>{currentCard.keyTerm}</p>
+                  ) : (
+                    <p className="text-xl sm:text-2xl font-medium" lang={currentCard.languages.primary} style={{ fontFamily: LANGUAGES[currentCard.languages.primary].fontFamily }}>
+                      {currentCard.primary}
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -165,7 +272,12 @@ const FlashcardView: React.FC<FlashcardViewProps> = ({ sections }) => {
               <span className="absolute top-8 left-8 text-xs font-bold text-brand-400 uppercase tracking-wider bg-slate-800 px-3 py-1 rounded-full border border-slate-700">Back</span>
               
               <div className="flex-grow flex flex-col items-center justify-center overflow-y-auto w-full custom-scrollbar py-4">
-                {currentCard.keyTerm && (
+                {scope === 'glossary' && (
+                  <p className="mb-6 text-base sm:text-lg text-slate-300" lang={currentCard.languages.primary} style={{ fontFamily: LANGUAGES[currentCard.languages.primary].fontFamily }}>
+                    {currentCard.primary}
+                  </p>
+                )}
+                {scope !== 'glossary' && currentCard.keyTerm && (
                   <div className="mb-8">
                     <span className="inline-block bg-brand-600 text-white text-lg font-bold px-6 py-2 rounded-xl shadow-lg border border-brand-500">
                       {currentCard.keyTerm}
@@ -173,7 +285,9 @@ const FlashcardView: React.FC<FlashcardViewProps> = ({ sections }) => {
                   </div>
                 )}
                 <div className="prose prose-invert prose-lg leading-relaxed text-slate-100 max-w-none">
-                  <p className="text-xl sm:text-2xl font-serif">{currentCard.chinese}</p>
+                  <p className="text-xl sm:text-2xl" lang={currentCard.languages.secondary} style={{ fontFamily: LANGUAGES[currentCard.languages.secondary].fontFamily }}>
+                    {currentCard.secondary}
+                  </p>
                 </div>
               </div>
 
@@ -183,19 +297,19 @@ const FlashcardView: React.FC<FlashcardViewProps> = ({ sections }) => {
                     onClick={(e) => { e.stopPropagation(); handleResult('hard'); }}
                     className="py-3 rounded-xl bg-red-500/20 border border-red-500/50 text-red-200 hover:bg-red-500 hover:text-white transition-all font-bold text-sm"
                   >
-                    Hard (Show Soon)
+                    Hard ({previewInterval('hard')})
                   </button>
                   <button 
                     onClick={(e) => { e.stopPropagation(); handleResult('medium'); }}
                     className="py-3 rounded-xl bg-yellow-500/20 border border-yellow-500/50 text-yellow-200 hover:bg-yellow-500 hover:text-white transition-all font-bold text-sm"
                   >
-                    Medium (Later)
+                    Medium ({previewInterval('medium')})
                   </button>
                   <button 
                     onClick={(e) => { e.stopPropagation(); handleResult('easy'); }}
                     className="py-3 rounded-xl bg-green-500/20 border border-green-500/50 text-green-200 hover:bg-green-500 hover:text-white transition-all font-bold text-sm"
                   >
-                    Easy (Mastered)
+                    Easy ({previewInterval('easy')})
                   </button>
                </div>
             </div>
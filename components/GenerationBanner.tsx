@@ -0,0 +1,70 @@
+import React from 'react';
+import { AppTheme, GenerationJob } from '../types';
+import { LoadingIcon } from './Icons';
+
+interface GenerationBannerProps {
+  job: GenerationJob;
+  isRunning: boolean; // This file's job is being generated right now
+  currentChunk: number; // 0-based chunk being generated while running
+  sectionCount: number;
+  canResume: boolean; // False while another file is generating
+  theme: AppTheme;
+  onCancel: () => void;
+  onResume: () => void;
+}
+
+const GenerationBanner: React.FC<GenerationBannerProps> = ({ job, isRunning, currentChunk, sectionCount, canResume, theme, onCancel, onResume }) => {
+  const total = job.chunks.length;
+  const done = isRunning ? currentChunk : job.nextChunk;
+  const percent = total > 0 ? (done / total) * 100 : 0;
+
+  return (
+    <div className="mb-8 rounded-2xl border shadow-sm bg-white overflow-hidden" style={{ borderColor: theme.colors.border }}>
+      <div className="h-1.5 bg-slate-100">
+        <div className="h-full transition-all duration-500" style={{ width: `${percent}%`, backgroundColor: theme.colors.primary }}></div>
+      </div>
+      <div className="px-6 py-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center">
+          {isRunning && (
+            <div className="w-9 h-9 rounded-xl flex items-center justify-center mr-4" style={{ backgroundColor: theme.colors.primary }}>
+              <LoadingIcon />
+            </div>
+          )}
+          <div>
+            <p className="font-bold" style={{ color: theme.colors.text }}>
+              {isRunning
+                ? `Generating notes... Part ${currentChunk + 1}/${total}`
+                : `Generation paused at part ${job.nextChunk + 1}/${total}`}
+            </p>
+            <p className="text-sm" style={{ color: job.error && !isRunning ? '#dc2626' : theme.colors.subtext }}>
+              {job.error && !isRunning
+                ? job.error
+                : `${sectionCount} section${sectionCount === 1 ? '' : 's'} ready${isRunning ? ', more appear as each part finishes.' : '.'}`}
+            </p>
+          </div>
+        </div>
+        {isRunning ? (
+          <button
+            onClick={onCancel}
+            className="px-5 py-2 rounded-lg border font-bold text-sm bg-white hover:bg-slate-50"
+            style={{ borderColor: theme.colors.border, color: theme.colors.text }}
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={onResume}
+            disabled={!canResume}
+            title={canResume ? undefined : 'Another document is being generated'}
+            className="px-5 py-2 rounded-lg font-bold text-sm text-white shadow-sm hover:brightness-90 disabled:opacity-50"
+            style={{ backgroundColor: theme.colors.primary }}
+          >
+            Resume
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GenerationBanner;
@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import { AppTheme, StudyFile, LANGUAGES } from '../types';
+import { buildGlossary, normalizeTerm, GlossaryOccurrence } from '../services/glossaryService';
+import { DelimitedFormat } from '../services/exportService';
+
+export type GlossaryScope = 'file' | 'library';
+
+interface GlossaryViewProps {
+  files: StudyFile[]; // The active file or the whole library, depending on scope
+  scope: GlossaryScope;
+  theme: AppTheme;
+  onJump: (occurrence: GlossaryOccurrence, term: string) => void;
+  onStudy: () => void;
+  onExport: (format: DelimitedFormat) => void;
+}
+
+const toPlainText = (text: string) => text.replace(/\*\*(.*?)\*\*/g, '$1').replace(/`(.*?)`/g, '$1');
+
+const GlossaryView: React.FC<GlossaryViewProps> = ({ files, scope, theme, onJump, onStudy, onExport }) => {
+  const [filter, setFilter] = useState('');
+
+  const entries = useMemo(() => buildGlossary(files), [files]);
+
+  const visibleEntries = useMemo(() => {
+    const needle = normalizeTerm(filter);
+    if (!needle) return entries;
+    return entries.filter(entry => entry.key.includes(needle) || normalizeTerm(entry.secondary).includes(needle));
+  }, [entries, filter]);
+
+  if (entries.length === 0) {
+    return (
+      <div className="w-full max-w-2xl mx-auto text-center py-20">
+        <div className="bg-white p-10 rounded-3xl shadow-xl border" style={{ borderColor: theme.colors.border }}>
+          <h2 className="text-2xl font-bold mb-3" style={{ color: theme.colors.text }}>No Key Terms Yet</h2>
+          <p style={{ color: theme.colors.subtext }}>
+            Key terms tagged in the notes of {scope === 'file' ? 'this file' : 'your library'} will be collected here.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-5xl mx-auto pb-20 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <input
+          type="search"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder={`Filter ${entries.length} terms...`}
+          className="w-full sm:w-72 px-3 py-2 rounded-lg border text-sm bg-white focus:outline-none focus:ring-2"
+          style={{ borderColor: theme.colors.border, '--tw-ring-color': theme.colors.primary } as React.CSSProperties}
+        />
+        <div className="flex items-center gap-2">
+          {(['csv', 'tsv'] as DelimitedFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => onExport(format)}
+              className="px-4 py-2 border rounded-lg bg-white hover:bg-slate-50 shadow-sm text-sm font-bold uppercase"
+              style={{ borderColor: theme.colors.border, color: theme.colors.text }}
+            >
+              {format}
+            </button>
+          ))}
+          <button
+            onClick={onStudy}
+            className="px-4 py-2 rounded-lg text-sm font-bold text-white shadow-sm hover:brightness-90"
+            style={{ backgroundColor: theme.colors.primary }}
+          >
+            Study as Flashcards
+          </button>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border shadow-sm overflow-hidden divide-y" style={{ backgroundColor: theme.colors.card, borderColor: theme.colors.border }}>
+        {visibleEntries.map(entry => (
+          <div key={entry.key} className="p-6 grid grid-cols-1 lg:grid-cols-[12rem_1fr_1fr] gap-4" style={{ borderColor: theme.colors.secondary }}>
+            <div>
+              <h3 className="font-bold text-lg" style={{ color: theme.colors.primary }}>{entry.term}</h3>
+              {entry.occurrences.length > 1 && (
+                <span className="text-xs font-bold" style={{ color: theme.colors.subtext }}>
+                  {entry.occurrences.length} mentions
+                </span>
+              )}
+            </div>
+            <p
+              className="text-sm leading-relaxed"
+              lang={entry.languages.primary}
+              style={{ color: theme.colors.text, fontFamily: LANGUAGES[entry.languages.primary].fontFamily }}
+            >
+              {toPlainText(entry.primary)}
+            </p>
+            <p
+              className="text-sm leading-relaxed"
+              lang={entry.languages.secondary}
+              style={{ color: theme.colors.text, fontFamily: LANGUAGES[entry.languages.secondary].fontFamily }}
+            >
+              {toPlainText(entry.secondary)}
+            </p>
+            <div className="lg:col-start-2 lg:col-span-2 flex flex-wrap gap-2">
+              {entry.occurrences.map(occurrence => (
+                <button
+                  key={`${occurrence.fileId}:${occurrence.sectionIndex}-${occurrence.pointIndex}`}
+                  onClick={() => onJump(occurrence, entry.term)}
+                  className="text-xs px-2.5 py-1 rounded-full border bg-white hover:bg-slate-50 max-w-xs truncate"
+                  style={{ borderColor: theme.colors.border, color: theme.colors.subtext }}
+                  title={`${occurrence.fileName} · ${occurrence.topic}`}
+                >
+                  {scope === 'library' ? `${occurrence.fileName} · ` : ''}{occurrence.topic}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+        {visibleEntries.length === 0 && (
+          <p className="p-6 text-sm" style={{ color: theme.colors.subtext }}>No terms match "{filter}".</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryView;
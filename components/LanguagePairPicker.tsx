@@ -0,0 +1,60 @@
+import React from 'react';
+import { AppTheme, LanguageCode, LanguagePair, LANGUAGES } from '../types';
+
+interface LanguagePairPickerProps {
+  value: LanguagePair;
+  theme: AppTheme;
+  disabled?: boolean;
+  onChange: (languages: LanguagePair) => void;
+}
+
+const LANGUAGE_CODES = Object.keys(LANGUAGES) as LanguageCode[];
+
+const LanguagePairPicker: React.FC<LanguagePairPickerProps> = ({ value, theme, disabled, onChange }) => {
+  const selectClass = "px-3 py-2 rounded-lg border bg-white text-sm font-medium focus:outline-none focus:ring-2 disabled:opacity-50";
+  const selectStyle = { borderColor: theme.colors.border, color: theme.colors.text, '--tw-ring-color': theme.colors.primary } as React.CSSProperties;
+
+  // Picking the other side's language swaps the pair instead of producing a monolingual guide
+  const select = (side: keyof LanguagePair, code: LanguageCode) => {
+    const other = side === 'primary' ? 'secondary' : 'primary';
+    onChange(code === value[other]
+      ? { primary: value.secondary, secondary: value.primary }
+      : { ...value, [side]: code });
+  };
+
+  const renderSelect = (side: keyof LanguagePair, label: string) => (
+    <label className="flex flex-col items-start">
+      <span className="text-xs font-bold uppercase tracking-wider mb-1" style={{ color: theme.colors.subtext }}>{label}</span>
+      <select
+        className={selectClass}
+        style={selectStyle}
+        value={value[side]}
+        disabled={disabled}
+        onChange={(e) => select(side, e.target.value as LanguageCode)}
+      >
+        {LANGUAGE_CODES.map(code => (
+          <option key={code} value={code}>{LANGUAGES[code].nativeName} ({LANGUAGES[code].name})</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="flex items-end justify-center gap-3">
+      {renderSelect('primary', 'Notes in')}
+      <button
+        type="button"
+        onClick={() => onChange({ primary: value.secondary, secondary: value.primary })}
+        disabled={disabled}
+        className="mb-0.5 px-3 py-2 rounded-lg border bg-white hover:bg-slate-50 text-sm font-bold disabled:opacity-50"
+        style={{ borderColor: theme.colors.border, color: theme.colors.subtext }}
+        title="Swap languages"
+      >
+        ⇄
+      </button>
+      {renderSelect('secondary', 'Explained in')}
+    </div>
+  );
+};
+
+export default LanguagePairPicker;
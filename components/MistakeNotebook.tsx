@@ -0,0 +1,120 @@
+import React from 'react';
+import { AppTheme, StudyFile } from '../types';
+import { formatCorrectAnswer, formatResponse } from '../services/examService';
+import { MISTAKE_CLEAR_STREAK } from '../services/mistakeService';
+
+export type MistakeScope = 'file' | 'library';
+
+interface MistakeNotebookProps {
+  files: StudyFile[]; // The active file or the whole library, depending on scope
+  scope: MistakeScope;
+  theme: AppTheme;
+  onJump: (fileId: string, sectionIndex: number, pointIndex: number | null) => void;
+  onDrill: (fileId: string) => void;
+  onDismiss: (fileId: string, mistakeId: string) => void;
+}
+
+const toPlainText = (text: string) => text.replace(/\*\*(.*?)\*\*/g, '$1').replace(/`(.*?)`/g, '$1');
+
+const MistakeNotebook: React.FC<MistakeNotebookProps> = ({ files, scope, theme, onJump, onDrill, onDismiss }) => {
+  const filesWithMistakes = files.filter(file => (file.mistakes?.length ?? 0) > 0);
+
+  if (filesWithMistakes.length === 0) {
+    return (
+      <div className="w-full max-w-2xl mx-auto text-center py-20">
+        <div className="bg-white p-10 rounded-3xl shadow-xl border" style={{ borderColor: theme.colors.border }}>
+          <h2 className="text-2xl font-bold mb-3" style={{ color: theme.colors.text }}>No Mistakes Logged</h2>
+          <p style={{ color: theme.colors.subtext }}>
+            Questions you miss in the exams of {scope === 'file' ? 'this file' : 'your library'} will be collected here
+            until you answer them correctly {MISTAKE_CLEAR_STREAK} times in a row.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-5xl mx-auto pb-20 space-y-8">
+      {filesWithMistakes.map(file => {
+        const mistakes = [...file.mistakes!].sort((a, b) => b.lastMissed - a.lastMissed);
+        return (
+          <div key={file.id} className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <h2 className="text-lg font-bold truncate" style={{ color: theme.colors.text }}>
+                {scope === 'library' ? file.name : 'Missed Questions'}
+                <span className="ml-2 text-sm font-medium" style={{ color: theme.colors.subtext }}>{mistakes.length}</span>
+              </h2>
+              <button
+                onClick={() => onDrill(file.id)}
+                className="flex-shrink-0 px-4 py-2 rounded-lg text-sm font-bold text-white shadow-sm hover:brightness-90"
+                style={{ backgroundColor: theme.colors.primary }}
+              >
+                Drill Missed Questions
+              </button>
+            </div>
+
+            <div className="rounded-2xl border shadow-sm overflow-hidden divide-y" style={{ backgroundColor: theme.colors.card, borderColor: theme.colors.border }}>
+              {mistakes.map(entry => {
+                const section = file.sections[entry.sectionIndex];
+                return (
+                  <div key={entry.id} className="p-6 space-y-3" style={{ borderColor: theme.colors.secondary }}>
+                    <div className="flex items-start justify-between gap-4">
+                      <button
+                        onClick={() => onJump(file.id, entry.sectionIndex, null)}
+                        className="text-xs font-bold hover:underline truncate text-left"
+                        style={{ color: theme.colors.primary }}
+                      >
+                        {entry.topic}
+                      </button>
+                      <div className="flex items-center gap-3 flex-shrink-0">
+                        <span className="text-xs" style={{ color: theme.colors.subtext }} title={`Correct ${entry.streak} of ${MISTAKE_CLEAR_STREAK} times in a row`}>
+                          {Array.from({ length: MISTAKE_CLEAR_STREAK }, (_, i) => (
+                            <span key={i} className="inline-block w-2 h-2 rounded-full ml-1" style={{ backgroundColor: i < entry.streak ? theme.colors.primary : theme.colors.border }}></span>
+                          ))}
+                          <span className="ml-2">Missed {entry.missCount}×</span>
+                        </span>
+                        <button
+                          onClick={() => onDismiss(file.id, entry.id)}
+                          className="text-slate-400 hover:text-slate-700 text-lg leading-none"
+                          title="Remove from the notebook"
+                        >
+                          ×
+                        </button>
+                      </div>
+                    </div>
+                    <h3 className="font-bold" style={{ color: theme.colors.text }}>{entry.question.question}</h3>
+                    <div className="grid sm:grid-cols-2 gap-2 text-sm">
+                      <div className="p-3 rounded-lg border bg-red-50 border-red-300 text-red-900">
+                        <span className="font-bold mr-2">Your answer:</span>{formatResponse(entry.question, entry.response)}
+                      </div>
+                      <div className="p-3 rounded-lg border bg-green-50 border-green-300 text-green-900">
+                        <span className="font-bold mr-2">Correct answer:</span>{formatCorrectAnswer(entry.question)}
+                      </div>
+                    </div>
+                    {section && entry.pointIndexes.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-xs font-bold uppercase tracking-wider" style={{ color: theme.colors.subtext }}>Review</span>
+                        {entry.pointIndexes.filter(pIdx => section.content[pIdx]).map(pIdx => (
+                          <button
+                            key={pIdx}
+                            onClick={() => onJump(file.id, entry.sectionIndex, pIdx)}
+                            className="text-xs px-2.5 py-1 rounded-full border bg-white hover:bg-slate-50 max-w-xs truncate"
+                            style={{ borderColor: theme.colors.border, color: theme.colors.subtext }}
+                          >
+                            {section.content[pIdx].keyTerm || toPlainText(section.content[pIdx].primary).slice(0, 40)}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MistakeNotebook;
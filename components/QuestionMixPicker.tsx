@@ -0,0 +1,55 @@
+import React from 'react';
+import { AppTheme, QuestionMix, QuestionType } from '../types';
+import { QUESTION_TYPES, QUESTION_TYPE_LABELS, getMixTotal } from '../services/examService';
+
+interface QuestionMixPickerProps {
+  value: QuestionMix;
+  theme: AppTheme;
+  disabled?: boolean;
+  onChange: (mix: QuestionMix) => void;
+}
+
+const MAX_PER_TYPE = 5;
+
+const QuestionMixPicker: React.FC<QuestionMixPickerProps> = ({ value, theme, disabled, onChange }) => {
+  const selectStyle = { borderColor: theme.colors.border, color: theme.colors.text, '--tw-ring-color': theme.colors.primary } as React.CSSProperties;
+
+  const setCount = (type: QuestionType, count: number) => {
+    const next = { ...value };
+    if (count > 0) next[type] = count;
+    else delete next[type];
+    onChange(next);
+  };
+
+  return (
+    <div>
+      <span className="block text-xs font-bold uppercase tracking-wider mb-2" style={{ color: theme.colors.subtext }}>
+        Exam questions per section · {getMixTotal(value)}
+      </span>
+      <div className="flex flex-wrap justify-center gap-2">
+        {QUESTION_TYPES.map(type => (
+          <label
+            key={type}
+            className="flex items-center gap-2 pl-3 pr-1 py-1 rounded-lg border bg-white text-sm"
+            style={{ borderColor: theme.colors.border, color: theme.colors.text, opacity: disabled ? 0.5 : 1 }}
+          >
+            {QUESTION_TYPE_LABELS[type]}
+            <select
+              className="px-1 py-1 rounded-md border text-sm font-bold focus:outline-none focus:ring-2"
+              style={selectStyle}
+              value={value[type] || 0}
+              disabled={disabled}
+              onChange={(e) => setCount(type, Number(e.target.value))}
+            >
+              {Array.from({ length: MAX_PER_TYPE + 1 }, (_, count) => (
+                <option key={count} value={count}>{count}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default QuestionMixPicker;
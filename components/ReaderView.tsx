@@ -0,0 +1,238 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AppTheme, LANGUAGES, StudyFile } from '../types';
+import { getSectionPages } from '../services/geminiService';
+import { LazyImage } from './StoredImage';
+import { RichTextRenderer } from './StudyGuideView';
+
+interface ReaderViewProps {
+  file: StudyFile;
+  theme: AppTheme;
+  onOpenNotes: (sectionIndex: number) => void;
+}
+
+type Pane = 'source' | 'notes';
+
+// Block key of sections without a page, shown after the last page in the notes pane only
+const UNLINKED = 'unlinked';
+
+// "Slide" or "Page", from the marker line the parser wrote at the top of the page text
+const getPageLabel = (file: StudyFile, page: number) =>
+  `${file.pageText?.[page]?.match(/^--- (Slide|Page|Section) \d+ ---/)?.[1] ?? 'Page'} ${page}`;
+
+const ReaderView: React.FC<ReaderViewProps> = ({ file, theme, onOpenNotes }) => {
+  const paneRefs = { source: useRef<HTMLDivElement>(null), notes: useRef<HTMLDivElement>(null) };
+  const stripRef = useRef<HTMLDivElement>(null);
+  const syncingRef = useRef<Pane | null>(null); // Pane whose next scroll event was caused by syncing
+  const frameRef = useRef<number | null>(null);
+  const [currentPage, setCurrentPage] = useState<number | null>(null);
+
+  // Every page with an image or text, and the sections that cover each
+  const { pages, sectionsByPage, unlinkedSections } = useMemo(() => {
+    const sectionPages = file.sections.map(section => getSectionPages(section));
+    const pageSet = new Set([
+      ...Object.keys(file.pageImages ?? {}).map(Number),
+      ...Object.keys(file.pageText ?? {}).map(Number),
+      ...sectionPages.flat(),
+    ]);
+    const byPage = new Map<number, number[]>();
+    sectionPages.forEach((covered, sIdx) => covered.forEach(page => byPage.set(page, [...(byPage.get(page) ?? []), sIdx])));
+    return {
+      pages: Array.from(pageSet).sort((a, b) => a - b),
+      sectionsByPage: byPage,
+      unlinkedSections: sectionPages.flatMap((covered, sIdx) => covered.length === 0 ? [sIdx] : []),
+    };
+  }, [file.sections, file.pageImages, file.pageText]);
+
+  const getBlock = (pane: Pane, key: string) =>
+    paneRefs[pane].current?.querySelector<HTMLElement>(`[data-reader-page="${key}"]`) ?? null;
+
+  const scrollPane = (pane: Pane, top: number) => {
+    const element = paneRefs[pane].current;
+    if (!element || Math.abs(element.scrollTop - top) < 1) return;
+    syncingRef.current = pane;
+    element.scrollTop = top;
+  };
+
+  const showThumbnail = (page: number) => {
+    const strip = stripRef.current;
+    const thumb = strip?.querySelector<HTMLElement>(`[data-reader-thumb="${page}"]`);
+    if (strip && thumb) strip.scrollTo({ left: thumb.offsetLeft - strip.clientWidth / 2 + thumb.clientWidth / 2, behavior: 'smooth' });
+  };
+
+  // Keep the other pane at the same page, and the same fraction of the way through it
+  const syncFrom = (pane: Pane) => {
+    const container = paneRefs[pane].current;
+    if (!container) return;
+    const blocks = Array.from(container.querySelectorAll<HTMLElement>('[data-reader-page]'));
+    const block = [...blocks].reverse().find(b => b.offsetTop <= container.scrollTop + 1) ?? blocks[0];
+    if (!block) return;
+
+    const key = block.dataset.readerPage!;
+    const other: Pane = pane === 'source' ? 'notes' : 'source';
+    const target = getBlock(other, key);
+    if (target) {
+      const fraction = Math.min(1, (container.scrollTop - block.offsetTop) / Math.max(1, block.offsetHeight));
+      scrollPane(other, target.offsetTop + fraction * target.offsetHeight);
+    }
+    if (key !== UNLINKED && Number(key) !== currentPage) {
+      setCurrentPage(Number(key));
+      showThumbnail(Number(key));
+    }
+  };
+
+  const handleScroll = (pane: Pane) => {
+    if (syncingRef.current === pane) {
+      syncingRef.current = null;
+      return;
+    }
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      syncFrom(pane);
+    });
+  };
+
+  const jumpToPage = (page: number) => {
+    (['source', 'notes'] as Pane[]).forEach(pane => {
+      const block = getBlock(pane, `${page}`);
+      if (block) scrollPane(pane, block.offsetTop);
+    });
+    setCurrentPage(page);
+  };
+
+  if (pages.length === 0) {
+    return (
+      <div className="text-center py-20 text-slate-500">
+        <p className="text-xl">No source pages are stored for this file.</p>
+      </div>
+    );
+  }
+
+  const primaryFont = { fontFamily: LANGUAGES[file.languages.primary].fontFamily };
+  const secondaryFont = { fontFamily: LANGUAGES[file.languages.secondary].fontFamily };
+  const paneClass = "relative h-[calc(100vh-18rem)] min-h-[400px] overflow-y-auto rounded-2xl border shadow-sm";
+
+  const renderSection = (sIdx: number) => {
+    const section = file.sections[sIdx];
+    return (
+      <div key={sIdx} className="space-y-4">
+        <div className="flex items-start justify-between gap-3">
+          <h3 className="text-lg font-bold" style={{ color: theme.colors.text }}>{section.topic}</h3>
+          <button
+            onClick={() => onOpenNotes(sIdx)}
+            className="flex-shrink-0 text-xs font-bold hover:underline"
+            style={{ color: theme.colors.primary }}
+          >
+            Section {sIdx + 1}
+          </button>
+        </div>
+        {section.content.map((point, pIdx) => (
+          <div key={pIdx} className="space-y-2 pb-4 border-b last:border-b-0" style={{ borderColor: theme.colors.secondary }}>
+            {point.keyTerm && (
+              <span className="inline-block text-xs font-extrabold px-3 py-1 rounded-full uppercase tracking-wide" style={{ backgroundColor: theme.colors.secondary, color: theme.colors.primary }}>
+                {point.keyTerm}
+              </span>
+            )}
+            <div className="leading-relaxed" lang={file.languages.primary} style={{ ...primaryFont, color: theme.colors.text }}>
+              <RichTextRenderer text={point.primary} theme={theme} />
+            </div>
+            <div className="leading-relaxed text-sm" lang={file.languages.secondary} style={{ ...secondaryFont, color: theme.colors.subtext }}>
+              <RichTextRenderer text={point.secondary} theme={theme} />
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-full max-w-7xl mx-auto space-y-4">
+      {/* Thumbnail Strip */}
+      <div ref={stripRef} className="flex gap-2 overflow-x-auto pb-2">
+        {pages.map(page => {
+          const image = file.pageImages?.[page]?.[0];
+          const hasNotes = sectionsByPage.has(page);
+          return (
+            <button
+              key={page}
+              data-reader-thumb={page}
+              onClick={() => jumpToPage(page)}
+              className="relative flex-shrink-0 w-20 h-14 rounded-lg border-2 overflow-hidden bg-white flex items-center justify-center text-xs font-bold"
+              style={{
+                borderColor: currentPage === page ? theme.colors.primary : theme.colors.border,
+                color: theme.colors.subtext,
+                opacity: hasNotes ? 1 : 0.6,
+              }}
+              title={`${getPageLabel(file, page)}${hasNotes ? '' : ' (no notes)'}`}
+            >
+              {image ? <LazyImage src={image} alt={getPageLabel(file, page)} className="w-full h-full object-cover" /> : page}
+              <span className="absolute bottom-0 right-0 px-1 text-[10px] bg-white/90 rounded-tl" style={{ color: hasNotes ? theme.colors.text : '#dc2626' }}>
+                {page}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Source Pages */}
+        <div ref={paneRefs.source} onScroll={() => handleScroll('source')} className={paneClass} style={{ borderColor: theme.colors.border, backgroundColor: `${theme.colors.bg}80` }}>
+          {pages.map(page => (
+            <div key={page} data-reader-page={page} className="p-6 border-b space-y-3" style={{ borderColor: theme.colors.border }}>
+              <p className="text-xs font-bold uppercase tracking-wider" style={{ color: theme.colors.subtext }}>{getPageLabel(file, page)}</p>
+              {file.pageImages?.[page]?.length ? (
+                file.pageImages[page].map((img, imgIdx) => (
+                  <LazyImage
+                    key={imgIdx}
+                    src={img}
+                    alt={getPageLabel(file, page)}
+                    className="w-full h-auto rounded-lg shadow-sm border object-contain bg-white"
+                    style={{ borderColor: theme.colors.border, minHeight: '200px' }}
+                  />
+                ))
+              ) : (
+                <pre className="whitespace-pre-wrap font-mono text-sm leading-relaxed p-4 rounded-lg border bg-white" style={{ borderColor: theme.colors.border, color: theme.colors.subtext }}>
+                  {file.pageText?.[page] ?? 'No text or image was extracted from this page.'}
+                </pre>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Matching Notes */}
+        <div ref={paneRefs.notes} onScroll={() => handleScroll('notes')} className={paneClass} style={{ borderColor: theme.colors.border, backgroundColor: theme.colors.card }}>
+          {pages.map(page => {
+            const covering = sectionsByPage.get(page) ?? [];
+            // A section spanning several pages is shown in full at its first page
+            const starting = covering.filter(sIdx => getSectionPages(file.sections[sIdx])[0] === page);
+            const continued = covering.filter(sIdx => !starting.includes(sIdx));
+            return (
+              <div key={page} data-reader-page={page} className="p-6 border-b space-y-6" style={{ borderColor: theme.colors.border }}>
+                <p className="text-xs font-bold uppercase tracking-wider" style={{ color: theme.colors.subtext }}>{getPageLabel(file, page)}</p>
+                {covering.length === 0 && (
+                  <div className="p-4 rounded-lg border border-dashed border-red-300 bg-red-50 text-sm text-red-700">
+                    No notes were generated for this page.
+                  </div>
+                )}
+                {continued.map(sIdx => (
+                  <p key={sIdx} className="text-sm italic" style={{ color: theme.colors.subtext }}>
+                    Continued: Section {sIdx + 1}, {file.sections[sIdx].topic}
+                  </p>
+                ))}
+                {starting.map(renderSection)}
+              </div>
+            );
+          })}
+          {unlinkedSections.length > 0 && (
+            <div data-reader-page={UNLINKED} className="p-6 space-y-6">
+              <p className="text-xs font-bold uppercase tracking-wider" style={{ color: theme.colors.subtext }}>Not linked to a page</p>
+              {unlinkedSections.map(renderSection)}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReaderView;
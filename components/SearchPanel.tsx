@@ -0,0 +1,99 @@
+import React, { useMemo, useState } from 'react';
+import { AppTheme, StudyFile } from '../types';
+import { createSearchIndex, getQueryTerms, SearchField, SearchResult } from '../services/searchService';
+
+interface SearchPanelProps {
+  files: StudyFile[];
+  theme: AppTheme;
+  onSelect: (result: SearchResult, terms: string[]) => void;
+}
+
+const FIELD_LABELS: Record<SearchField, string> = {
+  topic: 'Topic',
+  keyTerm: 'Key term',
+  primary: 'Notes',
+  secondary: 'Translation',
+  question: 'Exam',
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Snippet with the query terms wrapped in <mark>
+const HighlightedSnippet: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => {
+  if (terms.length === 0) return <>{text}</>;
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  return (
+    <>
+      {text.split(pattern).map((part, i) =>
+        i % 2 === 1 ? <mark key={i} className="bg-yellow-200 rounded-sm">{part}</mark> : <React.Fragment key={i}>{part}</React.Fragment>
+      )}
+    </>
+  );
+};
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ files, theme, onSelect }) => {
+  const [query, setQuery] = useState('');
+
+  // One index per panel; update() only re-indexes files and sections that changed
+  const index = useMemo(() => createSearchIndex(), []);
+
+  const results = useMemo(() => {
+    if (!query.trim()) return [];
+    index.update(files);
+    return index.search(query);
+  }, [index, files, query]);
+
+  const terms = useMemo(() => getQueryTerms(query), [query]);
+
+  return (
+    <div className="p-4 border-b" style={{ borderColor: theme.colors.border }}>
+      <div className="relative">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && results.length > 0) onSelect(results[0], terms);
+            if (e.key === 'Escape') setQuery('');
+          }}
+          placeholder="Search all notes..."
+          className="w-full px-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-2"
+          style={{ borderColor: theme.colors.border, '--tw-ring-color': theme.colors.primary } as React.CSSProperties}
+        />
+      </div>
+
+      {query.trim() && (
+        <div className="mt-3 space-y-1 max-h-80 overflow-y-auto">
+          {results.length === 0 && (
+            <p className="text-xs px-1" style={{ color: theme.colors.subtext }}>No matches.</p>
+          )}
+          {results.map(result => (
+            <button
+              key={result.key}
+              onClick={() => onSelect(result, terms)}
+              className="w-full text-left p-2 rounded-lg hover:bg-slate-50 transition-colors"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-bold truncate" style={{ color: theme.colors.text }}>{result.topic}</span>
+                <span
+                  className="text-[10px] font-bold uppercase tracking-wide px-1.5 py-0.5 rounded flex-shrink-0"
+                  style={{ backgroundColor: theme.colors.secondary, color: theme.colors.primary }}
+                >
+                  {FIELD_LABELS[result.field]}
+                </span>
+              </div>
+              <p className="text-xs mt-1 line-clamp-2" style={{ color: theme.colors.subtext }}>
+                <HighlightedSnippet text={result.snippet} terms={terms} />
+              </p>
+              {files.length > 1 && (
+                <p className="text-[10px] mt-1 truncate opacity-60" style={{ color: theme.colors.subtext }}>{result.fileName}</p>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchPanel;
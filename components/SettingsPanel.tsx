@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { AppTheme, LLMSettings, LLMProviderId } from '../types';
+import { DEFAULT_MODELS, DEFAULT_OPENAI_BASE_URL } from '../services/llmProviders';
+
+interface SettingsPanelProps {
+  settings: LLMSettings;
+  theme: AppTheme;
+  onSave: (settings: LLMSettings) => void;
+  onClose: () => void;
+}
+
+const PROVIDER_OPTIONS: { id: LLMProviderId; name: string; description: string }[] = [
+  { id: 'gemini', name: 'Google Gemini', description: 'Hosted Gemini API. Uses the build-time key unless one is entered below.' },
+  { id: 'openai', name: 'OpenAI-compatible', description: 'Any Chat Completions server, e.g. llama.cpp, Ollama or LM Studio.' },
+  { id: 'mock', name: 'Offline Mock', description: 'Deterministic fixture output. No network, for demos and testing.' },
+];
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, theme, onSave, onClose }) => {
+  const [draft, setDraft] = useState<LLMSettings>(settings);
+
+  const selectProvider = (provider: LLMProviderId) => {
+    setDraft(prev => ({
+      ...prev,
+      provider,
+      // Swap in the new provider's default model unless the user typed one
+      model: prev.model === DEFAULT_MODELS[prev.provider] || !prev.model ? DEFAULT_MODELS[provider] : prev.model,
+    }));
+  };
+
+  const inputClass = "w-full px-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-2";
+  const inputStyle = { borderColor: theme.colors.border, '--tw-ring-color': theme.colors.primary } as React.CSSProperties;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 backdrop-blur-sm p-4" onClick={onClose}>
+      <div 
+        className="w-full max-w-lg bg-white rounded-2xl shadow-2xl border p-8 space-y-6"
+        style={{ borderColor: theme.colors.border }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold" style={{ color: theme.colors.text }}>AI Model Settings</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-2xl leading-none">×</button>
+        </div>
+
+        <div className="space-y-2">
+          {PROVIDER_OPTIONS.map(option => (
+            <label 
+              key={option.id}
+              className="flex items-start p-3 rounded-xl border-2 cursor-pointer transition-all"
+              style={{ 
+                borderColor: draft.provider === option.id ? theme.colors.primary : theme.colors.border,
+                backgroundColor: draft.provider === option.id ? `${theme.colors.primary}10` : 'transparent'
+              }}
+            >
+              <input 
+                type="radio" 
+                name="provider" 
+                className="mt-1 mr-3" 
+                checked={draft.provider === option.id} 
+                onChange={() => selectProvider(option.id)} 
+              />
+              <div>
+                <div className="font-bold text-sm" style={{ color: theme.colors.text }}>{option.name}</div>
+                <div className="text-xs mt-0.5" style={{ color: theme.colors.subtext }}>{option.description}</div>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        {draft.provider !== 'mock' && (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-xs font-bold uppercase tracking-wider mb-1" style={{ color: theme.colors.subtext }}>Model</label>
+              <input 
+                className={inputClass} 
+                style={inputStyle}
+                value={draft.model} 
+                placeholder={DEFAULT_MODELS[draft.provider]}
+                onChange={(e) => setDraft({ ...draft, model: e.target.value })} 
+              />
+            </div>
+            {draft.provider === 'openai' && (
+              <div>
+                <label className="block text-xs font-bold uppercase tracking-wider mb-1" style={{ color: theme.colors.subtext }}>Server URL</label>
+                <input 
+                  className={inputClass} 
+                  style={inputStyle}
+                  value={draft.baseUrl || ''} 
+                  placeholder={DEFAULT_OPENAI_BASE_URL}
+                  onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })} 
+                />
+              </div>
+            )}
+            <div>
+              <label className="block text-xs font-bold uppercase tracking-wider mb-1" style={{ color: theme.colors.subtext }}>API Key (optional)</label>
+              <input 
+                type="password"
+                className={inputClass} 
+                style={inputStyle}
+                value={draft.apiKey || ''} 
+                onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })} 
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-2">
+          <button onClick={onClose} className="px-5 py-2 rounded-lg font-medium text-slate-500 hover:bg-slate-100">Cancel</button>
+          <button 
+            onClick={() => onSave({ ...draft, model: draft.model.trim() || DEFAULT_MODELS[draft.provider] })}
+            className="px-5 py-2 rounded-lg font-bold text-white shadow-sm hover:brightness-90"
+            style={{ backgroundColor: theme.colors.primary }}
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
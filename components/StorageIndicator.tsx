@@ -0,0 +1,37 @@
+import React from 'react';
+import { AppTheme } from '../types';
+import { StorageUsage } from '../services/storageService';
+
+interface StorageIndicatorProps {
+  usage: StorageUsage | null;
+  error?: string | null;
+  theme: AppTheme;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+const StorageIndicator: React.FC<StorageIndicatorProps> = ({ usage, error, theme }) => {
+  if (!usage && !error) return null;
+
+  const percent = usage && usage.quota > 0 ? Math.min(100, (usage.usage / usage.quota) * 100) : 0;
+  const barColor = error || percent > 90 ? '#ef4444' : percent > 70 ? '#f59e0b' : theme.colors.primary;
+
+  return (
+    <div className="p-4 border-t text-xs" style={{ borderColor: theme.colors.border, color: theme.colors.subtext }}>
+      <div className="flex justify-between mb-1.5 font-medium">
+        <span className="uppercase tracking-wider font-bold">Storage</span>
+        {usage && <span>{formatBytes(usage.usage)} / {formatBytes(usage.quota)}</span>}
+      </div>
+      <div className="w-full h-1.5 bg-slate-200 rounded-full overflow-hidden">
+        <div className="h-full rounded-full transition-all duration-500" style={{ width: `${Math.max(percent, 1)}%`, backgroundColor: barColor }}></div>
+      </div>
+      {error && <p className="mt-2 text-red-600 font-medium leading-snug">{error}</p>}
+    </div>
+  );
+};
+
+export default StorageIndicator;
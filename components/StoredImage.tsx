@@ -0,0 +1,63 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { resolveImageUrl } from '../services/storageService';
+
+// Resolves a stored image ref (idb://...) to an object URL. Plain URLs pass through.
+// Pass null to defer loading, e.g. until the image is on screen.
+export const useImageUrl = (src: string | null | undefined): string => {
+  const [url, setUrl] = useState('');
+
+  useEffect(() => {
+    if (!src) return;
+    let cancelled = false;
+    resolveImageUrl(src)
+      .then(resolved => { if (!cancelled) setUrl(resolved); })
+      .catch(e => console.warn("Failed to load stored image", e));
+    return () => { cancelled = true; };
+  }, [src]);
+
+  return src ? url : '';
+};
+
+const StoredImage: React.FC<{ src: string; alt: string; className?: string; style?: React.CSSProperties }> = ({ src, alt, className, style }) => {
+  const url = useImageUrl(src);
+  if (!url) return null;
+  return <img src={url} alt={alt} className={className} style={style} />;
+};
+
+// Lazy Image Component using IntersectionObserver (stored images are only read once visible)
+export const LazyImage: React.FC<{ src: string; alt: string; className?: string; style?: React.CSSProperties }> = ({ src, alt, className, style }) => {
+  const [isVisible, setIsVisible] = useState(false);
+  const imgRef = useRef<HTMLImageElement>(null);
+
+  useEffect(() => {
+    const observer = new IntersectionObserver((entries) => {
+      entries.forEach(entry => {
+        if (entry.isIntersecting) {
+          setIsVisible(true);
+          observer.disconnect();
+        }
+      });
+    });
+
+    if (imgRef.current) {
+      observer.observe(imgRef.current);
+    }
+
+    return () => observer.disconnect();
+  }, []);
+
+  const url = useImageUrl(isVisible ? src : null);
+
+  return (
+    <img
+      ref={imgRef}
+      src={url || undefined}
+      alt={alt}
+      className={`${className} ${url ? 'opacity-100' : 'opacity-0'} transition-opacity duration-500`}
+      style={style}
+      loading="lazy"
+    />
+  );
+};
+
+export default StoredImage;
@@ -1,47 +1,140 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { StudySection, AppTheme } from '../types';
+import { StudySection, AppTheme, FailedChunk, LanguagePair, LANGUAGES, PointAnnotation, TextHighlight, UnattachedAnnotation } from '../types';
+import { LazyImage } from './StoredImage';
+import { getSectionPages } from '../services/geminiService';
+import { AnnotationFilter, getAnnotationLines, getPointKey, matchesFilter } from '../services/annotationService';
 
 interface StudyGuideViewProps {
   sections: StudySection[];
+  languages: LanguagePair;
   theme: AppTheme;
-  onUpdateContent?: (sectionIndex: number, contentIndex: number, field: 'english' | 'chinese', newValue: string) => void;
+  onUpdateContent?: (sectionIndex: number, contentIndex: number, field: 'primary' | 'secondary', newValue: string) => void;
+  failedChunks?: FailedChunk[];
+  retryingChunks?: number[]; // chunkIndex of gaps being retried
+  onRetryChunk?: (chunk: FailedChunk) => void;
+  regeneratingSections?: number[];
+  canRegenerateSection?: (sectionIndex: number) => boolean;
+  onRegenerateSection?: (sectionIndex: number) => void;
+  focus?: GuideFocus | null;
+  pageText?: Record<number, string>; // Raw text of the file's pages, for the source toggle
+  annotations?: Record<string, PointAnnotation>;
+  onAnnotate?: (sectionIndex: number, pointIndex: number, update: Partial<PointAnnotation>) => void;
+  unattachedAnnotations?: UnattachedAnnotation[]; // Left over from regenerated sections
+  onDismissUnattached?: (index: number) => void;
 }
 
-// Lazy Image Component using IntersectionObserver
-const LazyImage: React.FC<{ src: string; alt: string; className?: string; style?: React.CSSProperties }> = ({ src, alt, className, style }) => {
-  const [isVisible, setIsVisible] = useState(false);
-  const imgRef = useRef<HTMLImageElement>(null);
+// A search result to scroll to and highlight
+export interface GuideFocus {
+  sectionIndex: number;
+  pointIndex: number | null; // null focuses the section header
+  terms: string[]; // Lower-case terms to mark inside the target
+}
 
-  useEffect(() => {
-    const observer = new IntersectionObserver((entries) => {
-      entries.forEach(entry => {
-        if (entry.isIntersecting) {
-          setIsVisible(true);
-          observer.disconnect();
-        }
-      });
-    });
+const SEARCH_HIGHLIGHT = 'search-match';
 
-    if (imgRef.current) {
-      observer.observe(imgRef.current);
+// Marks the terms with the CSS Custom Highlight API, which leaves the rendered
+// Markdown untouched. Returns a cleanup that removes the marks again.
+const highlightTerms = (root: HTMLElement, terms: string[]) => {
+  if (terms.length === 0 || typeof CSS === 'undefined' || !CSS.highlights) return () => {};
+
+  const ranges: Range[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const text = (node.textContent || '').toLowerCase();
+    for (const term of terms) {
+      for (let index = text.indexOf(term); index >= 0; index = text.indexOf(term, index + term.length)) {
+        const range = new Range();
+        range.setStart(node, index);
+        range.setEnd(node, index + term.length);
+        ranges.push(range);
+      }
     }
+  }
 
-    return () => observer.disconnect();
-  }, []);
+  CSS.highlights.set(SEARCH_HIGHLIGHT, new Highlight(...ranges));
+  return () => { CSS.highlights.delete(SEARCH_HIGHLIGHT); };
+};
 
-  return (
-    <img
-      ref={imgRef}
-      src={isVisible ? src : ''}
-      alt={alt}
-      className={`${className} ${isVisible ? 'opacity-100' : 'opacity-0'} transition-opacity duration-500`}
-      style={style}
-      loading="lazy"
-    />
-  );
+const USER_HIGHLIGHT = 'user-highlight';
+
+// Range of the n-th match of a quote in an element's text, which may span several text nodes
+const findQuoteRange = (root: HTMLElement, quote: string, occurrence: number): Range | null => {
+  const nodes: { node: Text; start: number }[] = [];
+  let text = '';
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    nodes.push({ node: node as Text, start: text.length });
+    text += node.textContent || '';
+  }
+
+  let index = -1;
+  for (let i = 0; i <= occurrence; i++) {
+    index = text.indexOf(quote, index + 1);
+    if (index < 0) return null;
+  }
+  const locate = (offset: number) => {
+    const entry = [...nodes].reverse().find(n => n.start <= offset)!;
+    return { node: entry.node, offset: offset - entry.start };
+  };
+  const start = locate(index);
+  const end = locate(index + quote.length);
+  const range = new Range();
+  range.setStart(start.node, start.offset);
+  range.setEnd(end.node, end.offset);
+  return range;
+};
+
+// The selected text of a column as a highlight: trimmed, and which match of it was selected
+const readSelection = (column: HTMLElement, range: Range): Omit<TextHighlight, 'field'> | null => {
+  const raw = range.toString();
+  const quote = raw.trim();
+  if (!quote) return null;
+  const before = new Range();
+  before.setStart(column, 0);
+  before.setEnd(range.startContainer, range.startOffset);
+  const offset = before.toString().length + raw.length - raw.trimStart().length;
+
+  const text = column.textContent || '';
+  let occurrence = 0;
+  for (let index = text.indexOf(quote); index >= 0 && index < offset; index = text.indexOf(quote, index + 1)) occurrence++;
+  return { quote, occurrence };
 };
 
+interface PendingHighlight extends TextHighlight {
+  sectionIndex: number;
+  pointIndex: number;
+  x: number;
+  y: number;
+}
+
+// Placeholder for a chunk that failed to generate, so missing pages are not silent
+const GapPlaceholder: React.FC<{ chunk: FailedChunk; theme: AppTheme; isRetrying: boolean; onRetry?: () => void }> = ({ chunk, theme, isRetrying, onRetry }) => (
+  <div 
+    className="rounded-2xl border-2 border-dashed px-8 py-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4"
+    style={{ borderColor: theme.colors.border, backgroundColor: `${theme.colors.bg}80` }}
+  >
+    <div>
+      <p className="font-bold" style={{ color: theme.colors.text }}>
+        Missing notes{chunk.pageRange
+          ? ` for ${chunk.pageRange.start === chunk.pageRange.end ? `page ${chunk.pageRange.start}` : `pages ${chunk.pageRange.start}–${chunk.pageRange.end}`}`
+          : ` for part ${chunk.chunkIndex + 1}`}
+      </p>
+      <p className="text-sm mt-1" style={{ color: theme.colors.subtext }}>This part could not be generated: {chunk.error}</p>
+    </div>
+    {onRetry && (
+      <button
+        onClick={onRetry}
+        disabled={isRetrying}
+        className="px-5 py-2 rounded-lg font-bold text-sm text-white shadow-sm hover:brightness-90 disabled:opacity-50 flex-shrink-0"
+        style={{ backgroundColor: theme.colors.primary }}
+      >
+        {isRetrying ? 'Retrying...' : 'Retry'}
+      </button>
+    )}
+  </div>
+);
+
 // Editable Block Component with Toggle
 const EditableBlock: React.FC<{
   text: string;
@@ -77,7 +170,7 @@ const EditableBlock: React.FC<{
 
   return (
     <div 
-      onClick={() => setIsEditing(true)} 
+      onClick={() => { if (window.getSelection()?.isCollapsed !== false) setIsEditing(true); }} 
       className={`relative group cursor-text rounded transition-colors hover:bg-black/5 p-1 -m-1 ${className}`}
       title="Click to edit text"
     >
@@ -91,7 +184,7 @@ const EditableBlock: React.FC<{
 
 
 // Utility to render rich text with basic Markdown features
-const RichTextRenderer: React.FC<{ text: string, theme: AppTheme }> = ({ text, theme }) => {
+export const RichTextRenderer: React.FC<{ text: string, theme: AppTheme }> = ({ text, theme }) => {
   // Basic Table Detection
   const isTable = text.trim().startsWith('|');
 
@@ -139,20 +232,179 @@ const formatInlineStyles = (text: string) => {
   return formatted;
 };
 
-const StudyGuideView: React.FC<StudyGuideViewProps> = ({ sections, theme, onUpdateContent }) => {
-  if (sections.length === 0) return null;
+const StudyGuideView: React.FC<StudyGuideViewProps> = ({
+  sections, languages, theme, onUpdateContent,
+  failedChunks = [], retryingChunks = [], onRetryChunk,
+  regeneratingSections = [], canRegenerateSection, onRegenerateSection,
+  focus, pageText = {}, annotations = {}, onAnnotate,
+  unattachedAnnotations = [], onDismissUnattached,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [flashTarget, setFlashTarget] = useState<string | null>(null);
+  const [filter, setFilter] = useState<AnnotationFilter>('all');
+  const [editingNote, setEditingNote] = useState<string | null>(null); // Point key
+  const [noteDraft, setNoteDraft] = useState('');
+  const [pendingHighlight, setPendingHighlight] = useState<PendingHighlight | null>(null);
+
+  // A jump from search or chat shows every point again, before the focus effect looks for it
+  const [seenFocus, setSeenFocus] = useState(focus);
+  if (focus !== seenFocus) {
+    setSeenFocus(focus);
+    if (focus) setFilter('all');
+  }
+  const [openSources, setOpenSources] = useState<Set<number>>(new Set()); // Sections showing their source text
+
+  const toggleSource = (sectionIndex: number) => {
+    setOpenSources(prev => {
+      const next = new Set(prev);
+      if (next.has(sectionIndex)) next.delete(sectionIndex);
+      else next.add(sectionIndex);
+      return next;
+    });
+  };
+
+  // Scroll to the focused point (or section) and mark the search terms in it
+  useEffect(() => {
+    if (!focus) return;
+    const target = focus.pointIndex !== null ? `${focus.sectionIndex}-${focus.pointIndex}` : `${focus.sectionIndex}`;
+    const element = containerRef.current?.querySelector<HTMLElement>(`[data-search-target="${target}"]`);
+    if (!element) return;
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setFlashTarget(target);
+    const clearHighlight = highlightTerms(element, focus.terms);
+    const timer = setTimeout(() => setFlashTarget(null), 2500);
+    return () => {
+      clearTimeout(timer);
+      clearHighlight();
+    };
+  }, [focus]);
+
+  // Paint the saved highlights; ranges are rebuilt after every render that may move the text
+  useEffect(() => {
+    if (!containerRef.current || typeof CSS === 'undefined' || !CSS.highlights) return;
+    const ranges: Range[] = [];
+    containerRef.current.querySelectorAll<HTMLElement>('[data-annotation-field]').forEach(column => {
+      const highlights = annotations[column.dataset.pointKey!]?.highlights ?? [];
+      highlights
+        .filter(highlight => highlight.field === column.dataset.annotationField)
+        .forEach(highlight => {
+          const range = findQuoteRange(column, highlight.quote, highlight.occurrence);
+          if (range) ranges.push(range);
+        });
+    });
+    CSS.highlights.set(USER_HIGHLIGHT, new Highlight(...ranges));
+    return () => { CSS.highlights.delete(USER_HIGHLIGHT); };
+  }, [annotations, sections, filter, editingNote]);
+
+  // Offer a highlight button when text is selected inside one language column
+  const handleMouseUp = () => {
+    if (!onAnnotate) return;
+    const selection = window.getSelection();
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0) return;
+    const range = selection.getRangeAt(0);
+    const column = (range.commonAncestorContainer instanceof HTMLElement ? range.commonAncestorContainer : range.commonAncestorContainer.parentElement)
+      ?.closest<HTMLElement>('[data-annotation-field]');
+    if (!column) return;
+    const highlight = readSelection(column, range);
+    if (!highlight) return;
+    const [sectionIndex, pointIndex] = column.dataset.pointKey!.split('-').map(Number);
+    const rect = range.getBoundingClientRect();
+    setPendingHighlight({
+      ...highlight,
+      field: column.dataset.annotationField as TextHighlight['field'],
+      sectionIndex,
+      pointIndex,
+      x: rect.left + rect.width / 2,
+      y: rect.top,
+    });
+  };
+
+  const addHighlight = () => {
+    if (!pendingHighlight || !onAnnotate) return;
+    const { sectionIndex, pointIndex, x, y, ...highlight } = pendingHighlight;
+    const existing = annotations[getPointKey(sectionIndex, pointIndex)]?.highlights ?? [];
+    onAnnotate(sectionIndex, pointIndex, { highlights: [...existing, highlight] });
+    window.getSelection()?.removeAllRanges();
+    setPendingHighlight(null);
+  };
+
+  const startNote = (key: string) => {
+    setEditingNote(key);
+    setNoteDraft(annotations[key]?.note ?? '');
+  };
+
+  const saveNote = (sectionIndex: number, pointIndex: number) => {
+    setEditingNote(null);
+    if (noteDraft.trim() !== (annotations[getPointKey(sectionIndex, pointIndex)]?.note ?? '').trim()) {
+      onAnnotate?.(sectionIndex, pointIndex, { note: noteDraft.trim() || undefined });
+    }
+  };
+
+  const flashStyle = (target: string): React.CSSProperties =>
+    flashTarget === target ? { boxShadow: `inset 0 0 0 3px ${theme.colors.primary}` } : {};
+
+  if (sections.length === 0 && failedChunks.length === 0) return null;
+
+  const renderGaps = (gaps: FailedChunk[]) => gaps
+    .sort((a, b) => a.chunkIndex - b.chunkIndex)
+    .map(chunk => (
+      <GapPlaceholder 
+        key={`gap-${chunk.chunkIndex}`} 
+        chunk={chunk} 
+        theme={theme} 
+        isRetrying={retryingChunks.includes(chunk.chunkIndex)}
+        onRetry={onRetryChunk ? () => onRetryChunk(chunk) : undefined}
+      />
+    ));
+
+  const isFiltered = filter !== 'all';
+  const visiblePoints = (section: StudySection, sectionIndex: number) =>
+    section.content.map((point, pIdx) => ({ point, pIdx })).filter(({ pIdx }) => matchesFilter(annotations[getPointKey(sectionIndex, pIdx)], filter));
+  const hasVisiblePoints = sections.some((section, idx) => visiblePoints(section, idx).length > 0);
 
   return (
     <div 
+      ref={containerRef}
       className="w-full max-w-5xl mx-auto space-y-16 pb-20 transition-colors duration-300" 
       id="study-guide-container"
       style={{ color: theme.colors.text }}
+      onMouseUp={handleMouseUp}
+      onMouseDown={() => setPendingHighlight(null)}
     >
-      {sections.map((section, idx) => (
+      {onAnnotate && (
+        <div className="flex items-center justify-end gap-2 -mb-10">
+          <span className="text-xs font-bold uppercase tracking-wider" style={{ color: theme.colors.subtext }}>Show</span>
+          <div className="flex p-1 rounded-lg bg-slate-100/50 border" style={{ borderColor: theme.colors.border }}>
+            {(['all', 'starred', 'annotated'] as AnnotationFilter[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setFilter(option)}
+                className={`px-3 py-1 rounded-md text-xs font-bold capitalize transition-all ${filter === option ? 'shadow-sm text-white' : 'text-slate-500 hover:text-slate-800'}`}
+                style={{ backgroundColor: filter === option ? theme.colors.primary : 'transparent' }}
+              >
+                {option === 'all' ? 'All points' : option}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      {isFiltered && !hasVisiblePoints && (
+        <p className="text-center py-20" style={{ color: theme.colors.subtext }}>
+          {filter === 'starred' ? 'No starred points yet. Star a point with ☆ next to its number.' : 'No annotated points yet. Select text to highlight it, or add a note with ✎.'}
+        </p>
+      )}
+      {sections.map((section, idx) => {
+        const sourcePages = getSectionPages(section).filter(page => pageText[page]);
+        const points = visiblePoints(section, idx);
+        if (isFiltered && points.length === 0) return null;
+        return (
+        <React.Fragment key={idx}>
+        {!isFiltered && renderGaps(failedChunks.filter(c => c.sectionIndex === idx))}
         <div 
-            key={idx} 
-            className="study-section-export rounded-2xl shadow-sm border overflow-hidden break-inside-avoid transition-all duration-300 hover:shadow-md"
-            style={{ backgroundColor: theme.colors.card, borderColor: theme.colors.border }}
+            data-search-target={idx}
+            className="rounded-2xl shadow-sm border overflow-hidden break-inside-avoid transition-all duration-300 hover:shadow-md"
+            style={{ backgroundColor: theme.colors.card, borderColor: theme.colors.border, ...flashStyle(`${idx}`) }}
         >
           {/* Section Header */}
           <div 
@@ -168,8 +420,42 @@ const StudyGuideView: React.FC<StudyGuideViewProps> = ({ sections, theme, onUpda
                 </span>
                 <h2 className="text-2xl font-bold tracking-tight" style={{ color: theme.colors.text }}>{section.topic}</h2>
             </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+            {sourcePages.length > 0 && (
+              <button
+                onClick={() => toggleSource(idx)}
+                title={`Extracted text of ${sourcePages.length === 1 ? `page ${sourcePages[0]}` : `pages ${sourcePages[0]}–${sourcePages[sourcePages.length - 1]}`}`}
+                className="px-3 py-1.5 rounded-lg border bg-white/70 hover:bg-white text-xs font-bold transition-colors"
+                style={{ borderColor: theme.colors.border, color: theme.colors.subtext }}
+              >
+                {openSources.has(idx) ? 'Hide source text' : 'View source text'}
+              </button>
+            )}
+            {onRegenerateSection && (
+              <button
+                onClick={() => onRegenerateSection(idx)}
+                disabled={regeneratingSections.includes(idx) || (canRegenerateSection ? !canRegenerateSection(idx) : false)}
+                title={canRegenerateSection && !canRegenerateSection(idx) ? 'Source text for this section is not available' : 'Send only this section\'s source pages to the model again'}
+                className="px-3 py-1.5 rounded-lg border bg-white/70 hover:bg-white text-xs font-bold transition-colors disabled:opacity-40"
+                style={{ borderColor: theme.colors.border, color: theme.colors.subtext }}
+              >
+                {regeneratingSections.includes(idx) ? 'Regenerating...' : 'Regenerate this section'}
+              </button>
+            )}
+            </div>
           </div>
 
+          {/* Source Text */}
+          {openSources.has(idx) && (
+            <div className="border-b p-8 space-y-4 max-h-[500px] overflow-y-auto" style={{ backgroundColor: `${theme.colors.bg}80`, borderColor: theme.colors.border }}>
+              {sourcePages.map(page => (
+                <pre key={page} className="whitespace-pre-wrap font-mono text-sm leading-relaxed p-4 rounded-lg border bg-white" style={{ borderColor: theme.colors.border, color: theme.colors.subtext }}>
+                  {pageText[page]}
+                </pre>
+              ))}
+            </div>
+          )}
+
           {/* Visual Context / Source Page */}
           {section.images && section.images.length > 0 && (
             <div 
@@ -207,19 +493,49 @@ const StudyGuideView: React.FC<StudyGuideViewProps> = ({ sections, theme, onUpda
 
           {/* Content Table */}
           <div className="divide-y" style={{ borderColor: theme.colors.secondary }}>
-            {section.content.map((point, pIdx) => (
-              <div key={pIdx} className="grid grid-cols-1 lg:grid-cols-2 group">
+            {points.map(({ point, pIdx }) => {
+              const key = getPointKey(idx, pIdx);
+              const annotation = annotations[key];
+              return (
+              <div 
+                key={pIdx} 
+                data-search-target={`${idx}-${pIdx}`}
+                className="grid grid-cols-1 lg:grid-cols-2 group transition-shadow duration-500"
+                style={flashStyle(`${idx}-${pIdx}`)}
+              >
                 
-                {/* English Column */}
-                <div className="p-8 lg:border-r" style={{ borderColor: theme.colors.secondary }}>
+                {/* Primary Language Column */}
+                <div className="p-8 lg:border-r" style={{ borderColor: theme.colors.secondary }} lang={languages.primary}>
                   <div className="flex items-start">
-                    <span 
-                      className="font-serif mr-4 select-none text-lg mt-0.5 opacity-30 font-bold"
-                      style={{ color: theme.colors.subtext }}
-                    >
-                      {pIdx + 1}
-                    </span>
-                    <div className="w-full">
+                    <div className="flex flex-col items-center mr-4 select-none">
+                      <span 
+                        className="font-serif text-lg mt-0.5 opacity-30 font-bold"
+                        style={{ color: theme.colors.subtext }}
+                      >
+                        {pIdx + 1}
+                      </span>
+                      {onAnnotate && (
+                        <>
+                          <button
+                            onClick={() => onAnnotate(idx, pIdx, { starred: !annotation?.starred })}
+                            className={`text-lg leading-none mt-2 transition-opacity ${annotation?.starred ? '' : 'opacity-0 group-hover:opacity-40 hover:!opacity-100'}`}
+                            style={{ color: annotation?.starred ? '#f59e0b' : theme.colors.subtext }}
+                            title={annotation?.starred ? 'Unstar' : 'Star this point'}
+                          >
+                            {annotation?.starred ? '★' : '☆'}
+                          </button>
+                          <button
+                            onClick={() => startNote(key)}
+                            className="text-base leading-none mt-2 opacity-0 group-hover:opacity-40 hover:!opacity-100 transition-opacity"
+                            style={{ color: theme.colors.subtext }}
+                            title="Add a margin note"
+                          >
+                            ✎
+                          </button>
+                        </>
+                      )}
+                    </div>
+                    <div className="w-full" data-annotation-field="primary" data-point-key={key}>
                       {point.keyTerm && (
                         <div className="mb-3">
                             <span 
@@ -230,40 +546,128 @@ const StudyGuideView: React.FC<StudyGuideViewProps> = ({ sections, theme, onUpda
                             </span>
                         </div>
                       )}
-                      <div className="leading-loose text-lg" style={{ color: theme.colors.text }}>
+                      <div className="leading-loose text-lg" style={{ color: theme.colors.text, fontFamily: LANGUAGES[languages.primary].fontFamily }}>
                         {onUpdateContent ? (
                           <EditableBlock 
-                            text={point.english} 
+                            text={point.primary} 
                             theme={theme} 
-                            onSave={(val) => onUpdateContent(idx, pIdx, 'english', val)}
+                            onSave={(val) => onUpdateContent(idx, pIdx, 'primary', val)}
                           />
                         ) : (
-                          <RichTextRenderer text={point.english} theme={theme} />
+                          <RichTextRenderer text={point.primary} theme={theme} />
                         )}
                       </div>
                     </div>
                   </div>
                 </div>
 
-                {/* Chinese Column */}
-                <div className="p-8 bg-opacity-30 transition-colors hover:bg-opacity-50" style={{ backgroundColor: `${theme.colors.bg}40` }}>
-                  <div className="font-serif leading-loose text-lg text-justify" style={{ color: theme.colors.text }}>
+                {/* Secondary Language Column */}
+                <div className="p-8 bg-opacity-30 transition-colors hover:bg-opacity-50" style={{ backgroundColor: `${theme.colors.bg}40` }} lang={languages.secondary}>
+                  <div className="leading-loose text-lg text-justify" style={{ color: theme.colors.text, fontFamily: LANGUAGES[languages.secondary].fontFamily }} data-annotation-field="secondary" data-point-key={key}>
                     {onUpdateContent ? (
                        <EditableBlock 
-                         text={point.chinese} 
+                         text={point.secondary} 
                          theme={theme} 
-                         onSave={(val) => onUpdateContent(idx, pIdx, 'chinese', val)}
+                         onSave={(val) => onUpdateContent(idx, pIdx, 'secondary', val)}
                        />
                      ) : (
-                       <RichTextRenderer text={point.chinese} theme={theme} />
+                       <RichTextRenderer text={point.secondary} theme={theme} />
                      )}
                   </div>
                 </div>
+
+                {/* Margin Note and Highlights */}
+                {onAnnotate && (editingNote === key || annotation?.note || annotation?.highlights?.length) && (
+                  <div className="lg:col-span-2 px-8 pb-6 space-y-3">
+                    {editingNote === key ? (
+                      <textarea
+                        autoFocus
+                        value={noteDraft}
+                        onChange={(e) => setNoteDraft(e.target.value)}
+                        onBlur={() => saveNote(idx, pIdx)}
+                        placeholder="Your note on this point..."
+                        className="w-full min-h-[80px] p-3 rounded-lg border text-sm focus:ring-2 focus:outline-none bg-amber-50"
+                        style={{ borderColor: theme.colors.border, '--tw-ring-color': theme.colors.primary } as React.CSSProperties}
+                      />
+                    ) : annotation?.note && (
+                      <div
+                        onClick={() => startNote(key)}
+                        className="p-3 rounded-lg border-l-4 bg-amber-50 text-sm whitespace-pre-wrap cursor-text"
+                        style={{ borderColor: '#f59e0b', color: theme.colors.text }}
+                        title="Click to edit your note"
+                      >
+                        {annotation.note}
+                      </div>
+                    )}
+                    {annotation?.highlights && annotation.highlights.length > 0 && (
+                      <div className="flex flex-wrap gap-1.5">
+                        {annotation.highlights.map((highlight, hIdx) => (
+                          <span key={hIdx} className="inline-flex items-center max-w-xs text-xs px-2 py-1 rounded-full border bg-white" style={{ borderColor: theme.colors.border, color: theme.colors.subtext }}>
+                            <span className="truncate">"{highlight.quote}"</span>
+                            <button
+                              onClick={() => onAnnotate(idx, pIdx, { highlights: (annotation.highlights ?? []).filter((_, i) => i !== hIdx) })}
+                              className="ml-1.5 text-slate-400 hover:text-red-500"
+                              title="Remove highlight"
+                            >
+                              ×
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
-            ))}
+              );
+            })}
           </div>
+
+          {/* Notes whose point was not found after regeneration */}
+          {unattachedAnnotations.some(entry => entry.sectionIndex === idx) && (
+            <div className="px-8 py-6 border-t space-y-3 bg-amber-50/50" style={{ borderColor: theme.colors.secondary }}>
+              <p className="text-xs font-bold uppercase tracking-wider" style={{ color: theme.colors.subtext }}>Unattached Notes</p>
+              {unattachedAnnotations.map((entry, uIdx) => entry.sectionIndex === idx && (
+                <div key={uIdx} className="flex items-start justify-between gap-4 text-sm">
+                  <div className="min-w-0 space-y-1">
+                    <p className="italic truncate" style={{ color: theme.colors.subtext }} title={entry.annotation.anchor}>{entry.annotation.anchor}</p>
+                    {getAnnotationLines(entry.annotation).map((line, lIdx) => (
+                      <p key={lIdx} className="whitespace-pre-wrap" style={{ color: theme.colors.text }}>{line}</p>
+                    ))}
+                  </div>
+                  {onDismissUnattached && (
+                    <button
+                      onClick={() => onDismissUnattached(uIdx)}
+                      className="flex-shrink-0 text-slate-400 hover:text-slate-700 text-lg leading-none"
+                      title="Delete this note"
+                    >
+                      ×
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
         </div>
-      ))}
+        </React.Fragment>
+        );
+      })}
+      {!isFiltered && renderGaps(failedChunks.filter(c => c.sectionIndex >= sections.length))}
+
+      {pendingHighlight && (
+        <button
+          onMouseDown={(e) => { e.preventDefault(); e.stopPropagation(); }}
+          onClick={addHighlight}
+          className="fixed z-50 -translate-x-1/2 -translate-y-full px-3 py-1.5 rounded-lg shadow-lg text-xs font-bold text-white"
+          style={{ left: pendingHighlight.x, top: pendingHighlight.y - 6, backgroundColor: theme.colors.primary }}
+        >
+          Highlight
+        </button>
+      )}
+
+      <style>{`
+        ::highlight(${USER_HIGHLIGHT}) { background-color: ${theme.colors.primary}33; color: inherit; }
+        ::highlight(${SEARCH_HIGHLIGHT}) { background-color: #fde047; color: inherit; }
+      `}</style>
     </div>
   );
 };
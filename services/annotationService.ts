@@ -0,0 +1,109 @@
+import { PointAnnotation, StudyFile, StudySection } from "../types";
+import { tokenize } from "./searchService";
+
+// Stars, margin notes and highlights on study points. They are keyed by the
+// point's position and stored on the file, not in its sections, so editing the
+// notes keeps them. Each one remembers the text of its point, so a regenerated
+// section can hand it to the point that matches; annotations without a match
+// are kept as unattached notes. A highlight whose text is gone is simply not shown.
+
+// Share of words a regenerated point must have in common with the old one
+const MIN_ANCHOR_SIMILARITY = 0.5;
+
+export type AnnotationFilter = 'all' | 'starred' | 'annotated';
+
+export const getPointKey = (sectionIndex: number, pointIndex: number) => `${sectionIndex}-${pointIndex}`;
+
+export const isAnnotated = (annotation: PointAnnotation | undefined): boolean =>
+  !!annotation && (!!annotation.starred || !!annotation.note?.trim() || (annotation.highlights?.length ?? 0) > 0);
+
+export const matchesFilter = (annotation: PointAnnotation | undefined, filter: AnnotationFilter): boolean =>
+  filter === 'all' || (filter === 'starred' ? !!annotation?.starred : isAnnotated(annotation));
+
+// Merge an update into a point's annotation; empty annotations (and records) are dropped
+export const updateAnnotation = (
+  annotations: Record<string, PointAnnotation> | undefined,
+  key: string,
+  anchor: string,
+  update: Partial<PointAnnotation>
+): Record<string, PointAnnotation> | undefined => {
+  const next = { ...annotations };
+  const annotation = { ...next[key], ...update, anchor };
+  if (isAnnotated(annotation)) next[key] = annotation;
+  else delete next[key];
+  return Object.keys(next).length > 0 ? next : undefined;
+};
+
+const parsePointKey = (key: string) => key.split('-').map(Number) as [number, number];
+
+// Follow sections that moved (see srsScheduler.remapSectionCards)
+export const remapSectionAnnotations = (
+  file: StudyFile,
+  mapSection: (sectionIndex: number) => number
+): Pick<StudyFile, 'annotations' | 'unattachedAnnotations'> => ({
+  annotations: file.annotations && Object.fromEntries(Object.entries(file.annotations).map(([key, annotation]) => {
+    const [sectionIndex, pointIndex] = parsePointKey(key);
+    return [getPointKey(mapSection(sectionIndex), pointIndex), annotation];
+  })),
+  unattachedAnnotations: file.unattachedAnnotations?.map(entry => ({ ...entry, sectionIndex: mapSection(entry.sectionIndex) })),
+});
+
+// Word overlap of two point texts (Dice coefficient), 1 for the same text
+const getSimilarity = (a: string, b: string) => {
+  if (a.trim() === b.trim()) return 1;
+  const tokensA = new Set(tokenize(a, 'index'));
+  const tokensB = new Set(tokenize(b, 'index'));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+  const shared = Array.from(tokensA).filter(token => tokensB.has(token)).length;
+  return 2 * shared / (tokensA.size + tokensB.size);
+};
+
+// Move the annotations of a regenerated section to the new points that match
+// their anchors, best matches first and one annotation per point. The rest
+// become unattached notes of the section, and keys that point at no point are dropped.
+export const reattachAnnotations = (
+  file: StudyFile,
+  sectionIndex: number,
+  section: StudySection
+): Pick<StudyFile, 'annotations' | 'unattachedAnnotations'> => {
+  const kept: Record<string, PointAnnotation> = {};
+  const old: PointAnnotation[] = [];
+  Object.entries(file.annotations ?? {}).forEach(([key, annotation]) => {
+    const [sIdx, pIdx] = parsePointKey(key);
+    if (sIdx === sectionIndex) old.push(annotation);
+    else if (file.sections[sIdx]?.content[pIdx]) kept[key] = annotation;
+  });
+
+  const candidates = old.flatMap((annotation, aIdx) => section.content.map((point, pIdx) => ({
+    aIdx, pIdx, similarity: getSimilarity(annotation.anchor, point.primary),
+  }))).filter(c => c.similarity >= MIN_ANCHOR_SIMILARITY).sort((a, b) => b.similarity - a.similarity);
+
+  const placed = new Set<number>();
+  const taken = new Set<number>();
+  candidates.forEach(({ aIdx, pIdx }) => {
+    if (placed.has(aIdx) || taken.has(pIdx)) return;
+    placed.add(aIdx);
+    taken.add(pIdx);
+    kept[getPointKey(sectionIndex, pIdx)] = { ...old[aIdx], anchor: section.content[pIdx].primary };
+  });
+
+  const unattached = [
+    ...(file.unattachedAnnotations ?? []),
+    ...old.filter((_, aIdx) => !placed.has(aIdx)).map(annotation => ({ sectionIndex, annotation })),
+  ];
+  return {
+    annotations: Object.keys(kept).length > 0 ? kept : undefined,
+    unattachedAnnotations: unattached.length > 0 ? unattached : undefined,
+  };
+};
+
+// Plain-text lines for exports
+export const getAnnotationLines = (annotation: PointAnnotation | undefined): string[] => {
+  if (!annotation) return [];
+  const note = annotation.note?.trim();
+  return [
+    ...(annotation.starred ? ['Starred'] : []),
+    ...(annotation.highlights ?? []).map(highlight => `Highlighted: "${highlight.quote}"`),
+    ...(note ? [`My note: ${note}`] : []),
+  ];
+};
@@ -0,0 +1,169 @@
+import { Type, Schema } from "@google/genai";
+import { ChatAnswerLanguage, ChatCitation, ChatMessage, LLMSettings, LANGUAGES, StudyFile } from "../types";
+import { createProvider } from "./llmProviders";
+import { getSectionPages } from "./geminiService";
+import { tokenize } from "./searchService";
+
+// Questions about a study guide, answered by the configured model from the
+// sections that best match the question and the page text behind them. The
+// model cites the sections, points and pages it used so the answer can link
+// back into the guide.
+
+const MAX_CONTEXT_SECTIONS = 4;
+const MAX_SOURCE_CHARS = 3000; // Per section
+const HISTORY_MESSAGES = 6;
+const PAGE_REFERENCE_BOOST = 100; // "Slide 7" beats any word match
+
+const CHAT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    answer: { type: Type.STRING },
+    translation: { type: Type.STRING, description: "The answer in the second language, or an empty string" },
+    citations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          sectionIndex: { type: Type.INTEGER },
+          pointIndex: { type: Type.INTEGER, nullable: true },
+          page: { type: Type.INTEGER, nullable: true },
+        },
+        required: ["sectionIndex", "pointIndex", "page"],
+      },
+    },
+  },
+  required: ["answer", "translation", "citations"],
+};
+
+// Page/slide numbers the question names: "slide 7", "p. 3", "第7页", "7ページ", "diapositiva 7", ...
+const PAGE_REFERENCE_REGEX = /(?:slides?|pages?|p\.|diapositivas?|páginas?)\s*(\d+)|第\s*(\d+)\s*[页頁张張枚]|(\d+)\s*(?:ページ|페이지|쪽|장)/gi;
+
+export const getReferencedPages = (question: string): number[] =>
+  Array.from(new Set(Array.from(question.matchAll(PAGE_REFERENCE_REGEX)).map(m => parseInt(m[1] ?? m[2] ?? m[3]))));
+
+// Pages a section was generated from that have stored source text
+const getSourcePages = (file: StudyFile, sectionIndex: number) =>
+  getSectionPages(file.sections[sectionIndex]).filter(page => file.pageText?.[page]);
+
+const getSectionText = (file: StudyFile, sectionIndex: number) => {
+  const section = file.sections[sectionIndex];
+  return [
+    section.topic,
+    ...section.content.map(point => `${point.keyTerm ?? ''} ${point.primary} ${point.secondary}`),
+    ...getSourcePages(file, sectionIndex).map(page => file.pageText![page]),
+  ].join('\n');
+};
+
+// Sections most relevant to a question, best first: the pages it names, then
+// word overlap weighted by how rare each word is across the file
+export const retrieveSections = (file: StudyFile, question: string, limit = MAX_CONTEXT_SECTIONS): number[] => {
+  const queryTokens = Array.from(new Set(tokenize(question, 'query')));
+  const sectionTokens = file.sections.map((_, sIdx) => new Set(tokenize(getSectionText(file, sIdx), 'index')));
+  const referencedPages = getReferencedPages(question);
+
+  const scores = file.sections.map((section, sIdx) => {
+    let score = getSectionPages(section).some(page => referencedPages.includes(page)) ? PAGE_REFERENCE_BOOST : 0;
+    for (const token of queryTokens) {
+      if (!sectionTokens[sIdx].has(token)) continue;
+      const frequency = sectionTokens.filter(tokens => tokens.has(token)).length;
+      score += Math.log(1 + file.sections.length / frequency);
+    }
+    return { sIdx, score };
+  });
+
+  const matches = scores.filter(s => s.score > 0).sort((a, b) => b.score - a.score).map(s => s.sIdx);
+  // Nothing matched (e.g. "summarize this"): the start of the guide
+  return (matches.length > 0 ? matches : file.sections.map((_, sIdx) => sIdx)).slice(0, limit);
+};
+
+const buildContext = (file: StudyFile, sectionIndexes: number[]) =>
+  sectionIndexes.map(sIdx => {
+    const section = file.sections[sIdx];
+    const pages = getSourcePages(file, sIdx);
+    return {
+      sectionIndex: sIdx,
+      topic: section.topic,
+      pages,
+      points: section.content.map((point, pointIndex) => ({ pointIndex, keyTerm: point.keyTerm, primary: point.primary, secondary: point.secondary })),
+      sourceText: pages.map(page => file.pageText![page]).join('\n\n').slice(0, MAX_SOURCE_CHARS),
+    };
+  });
+
+// Keep citations that point at something in the guide
+const validateCitations = (file: StudyFile, raw: unknown): ChatCitation[] => {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  return raw.flatMap((item: any): ChatCitation[] => {
+    const sectionIndex = Number(item?.sectionIndex);
+    const section = file.sections[sectionIndex];
+    if (!Number.isInteger(sectionIndex) || !section) return [];
+    const pointIndex = Number.isInteger(item.pointIndex) && section.content[item.pointIndex] ? item.pointIndex : null;
+    const page = Number.isInteger(item.page) && getSectionPages(section).includes(item.page) ? item.page : null;
+    const key = `${sectionIndex}:${pointIndex}:${page}`;
+    if (seen.has(key)) return [];
+    seen.add(key);
+    return [{ sectionIndex, pointIndex, page }];
+  });
+};
+
+export const askDocument = async (
+  file: StudyFile,
+  question: string,
+  history: ChatMessage[],
+  answerLanguage: ChatAnswerLanguage,
+  settings: LLMSettings
+): Promise<ChatMessage> => {
+  const primary = LANGUAGES[file.languages.primary].name;
+  const secondary = LANGUAGES[file.languages.secondary].name;
+  const languageRule = answerLanguage === 'both'
+    ? `Write 'answer' in ${primary} and the same answer in ${secondary} in 'translation'.`
+    : `Write 'answer' in ${answerLanguage === 'primary' ? primary : secondary} and leave 'translation' empty.`;
+
+  // Follow-ups like "explain that again" need the previous question to find their sections
+  const lastQuestion = [...history].reverse().find(message => message.role === 'user')?.text ?? '';
+  const sectionIndexes = retrieveSections(file, `${question} ${lastQuestion}`);
+
+  const responseText = await createProvider(settings).generateJson({
+    task: 'chat',
+    systemInstruction: `You are a patient tutor helping a student with their study guide. ` +
+      `Answer only from the provided sections and their source text; say so when they do not cover the question. ` +
+      `Use simple explanations and examples when asked. ${languageRule} ` +
+      `Cite every section you used by its sectionIndex, with the pointIndex of the note and the page or slide number of the source text where they apply.`,
+    prompt: `Answer the student's question. The JSON below has the earlier conversation, the relevant sections of the guide and the question.\n\n` +
+      JSON.stringify({
+        history: history.slice(-HISTORY_MESSAGES).map(message => ({ role: message.role, text: message.text })),
+        sections: buildContext(file, sectionIndexes),
+        answerLanguage,
+        question,
+      }),
+    responseSchema: CHAT_SCHEMA,
+    languages: file.languages,
+  });
+
+  const data = JSON.parse(responseText);
+  const text = String(data.answer ?? '').trim();
+  if (!text) throw new Error("The model returned an empty answer.");
+  const translation = answerLanguage === 'both' ? String(data.translation ?? '').trim() : '';
+
+  return {
+    role: 'assistant',
+    text,
+    ...(translation ? { translation } : {}),
+    citations: validateCitations(file, data.citations),
+    date: Date.now(),
+  };
+};
+
+// Follow sections that moved (see srsScheduler.remapSectionCards). Citations of
+// a regenerated section (null) keep the section but lose the point.
+export const remapSectionChat = (
+  chat: ChatMessage[] | undefined,
+  mapSection: (sectionIndex: number) => number | null
+): ChatMessage[] | undefined =>
+  chat?.map(message => message.citations ? {
+    ...message,
+    citations: message.citations.map(citation => {
+      const sectionIndex = mapSection(citation.sectionIndex);
+      return sectionIndex === null ? { ...citation, pointIndex: null } : { ...citation, sectionIndex };
+    }),
+  } : message);
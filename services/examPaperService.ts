@@ -0,0 +1,53 @@
+import { ExamQuestion, LanguagePair, StudyFile } from "../types";
+import { createSeededRandom, shuffle, shuffleChoices } from "./examService";
+
+// Printable exam papers. A paper is fully determined by the selected sections
+// and its seed: question order and option order come from a seeded PRNG, so
+// the same seed rebuilds the same version (e.g. to reprint a lost answer key).
+
+export interface PaperQuestion {
+  number: number; // 1-based position on the paper
+  topic: string;
+  question: ExamQuestion; // Choices in paper order
+  questionSecondary?: string; // Stem translated into the file's secondary language
+}
+
+export interface ExamPaper {
+  title: string;
+  seed: string;
+  languages: LanguagePair;
+  bilingual: boolean;
+  questions: PaperQuestion[];
+}
+
+export interface ExamPaperOptions {
+  sectionIndexes: number[];
+  seed: string;
+  bilingual: boolean;
+}
+
+// Short code that is easy to read out or type back in
+export const generateSeed = () => Math.random().toString(36).slice(2, 8).toUpperCase();
+
+export const buildExamPaper = (file: StudyFile, options: ExamPaperOptions): ExamPaper => {
+  const random = createSeededRandom(options.seed);
+  const selected = new Set(options.sectionIndexes);
+
+  const pool = file.sections.flatMap((section, sIdx) =>
+    selected.has(sIdx) ? (section.questions || []).map(question => ({ question, topic: section.topic })) : []
+  );
+
+  const questions = shuffle(pool, random).map((item, index) => ({
+    number: index + 1,
+    topic: item.topic,
+    question: shuffleChoices(item.question, random),
+  }));
+
+  return {
+    title: file.name.replace(/\.[^/.]+$/, ""),
+    seed: options.seed,
+    languages: file.languages,
+    bilingual: options.bilingual,
+    questions,
+  };
+};
@@ -0,0 +1,360 @@
+import { ExamQuestion, ExamResponse, QuestionType, QuestionMix, StudySection } from "../types";
+
+// Exam question model shared by ExamView, the exporters and exam papers:
+// validation of model output, scoring with partial credit, and the text
+// forms of answers.
+
+export const QUESTION_TYPES: QuestionType[] = ['mcq', 'trueFalse', 'multiSelect', 'fillBlank', 'shortAnswer', 'matching'];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  mcq: 'Multiple choice',
+  trueFalse: 'True / false',
+  multiSelect: 'Multi-select',
+  fillBlank: 'Fill in the blank',
+  shortAnswer: 'Short answer',
+  matching: 'Matching',
+};
+
+export const BLANK_REGEX = /_{3,}/g;
+
+export const countBlanks = (stem: string) => (stem.match(BLANK_REGEX) || []).length;
+
+export const optionLetter = (index: number) => String.fromCharCode(65 + index);
+
+export const getMixTotal = (mix: QuestionMix) => QUESTION_TYPES.reduce((sum, type) => sum + (mix[type] || 0), 0);
+
+// String hash (cyrb53-style) to seed the generator
+const hashSeed = (seed: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < seed.length; i++) {
+    const code = seed.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  return h1 >>> 0;
+};
+
+// mulberry32: small, fast and good enough for shuffling
+export const createSeededRandom = (seed: string) => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fisher–Yates on a copy
+export const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Shuffle the choices of a question, remapping its answer indexes. Matching
+// questions shuffle their terms; definitions get their own display order.
+export const shuffleChoices = (question: ExamQuestion, random: () => number): ExamQuestion => {
+  switch (question.type) {
+    case 'mcq': {
+      const order = shuffle(question.options.map((_, index) => index), random);
+      return { ...question, options: order.map(index => question.options[index]), correctIndex: order.indexOf(question.correctIndex) };
+    }
+    case 'multiSelect': {
+      const order = shuffle(question.options.map((_, index) => index), random);
+      return {
+        ...question,
+        options: order.map(index => question.options[index]),
+        correctIndexes: question.correctIndexes.map(index => order.indexOf(index)).sort((a, b) => a - b),
+      };
+    }
+    case 'matching':
+      return { ...question, pairs: shuffle(question.pairs, random) };
+    default:
+      return question;
+  }
+};
+
+export interface ExamSessionOptions {
+  sectionIndexes: number[];
+  questionCount: number; // Sampled at random when the sections hold more
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
+  timeLimitMinutes: number; // 0 for untimed
+}
+
+export interface SessionQuestion {
+  q: ExamQuestion;
+  section: StudySection;
+  sectionIndex: number;
+}
+
+// The questions of one mock exam. Without question shuffling the sample keeps
+// document order.
+export const buildExamSession = (
+  sections: StudySection[],
+  options: ExamSessionOptions,
+  random: () => number = Math.random
+): SessionQuestion[] => {
+  const selected = new Set(options.sectionIndexes);
+  const pool = sections.flatMap((section, sectionIndex) =>
+    selected.has(sectionIndex) ? (section.questions || []).map(q => ({ q, section, sectionIndex })) : []
+  );
+  const sample = shuffle(pool, random).slice(0, options.questionCount);
+  const ordered = options.shuffleQuestions ? sample : pool.filter(item => sample.includes(item));
+  return options.shuffleOptions ? ordered.map(item => ({ ...item, q: shuffleChoices(item.q, random) })) : ordered;
+};
+
+// Order in which the definitions of a matching question are listed. Derived
+// from the question itself, so the exam, exports and answer keys agree.
+export const getDefinitionOrder = (question: ExamQuestion): number[] => {
+  if (question.type !== 'matching') return [];
+  const order = question.pairs.map((_, index) => index);
+  return shuffle(order, createSeededRandom(question.question + question.pairs.map(pair => pair.term).join('|')));
+};
+
+const asString = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+const asStrings = (value: unknown): string[] => Array.isArray(value) ? value.map(asString).filter(Boolean) : [];
+
+const isIndex = (value: unknown, length: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < length;
+
+// Answer options without the blank ones, and the new index of an original
+// option (null if it was blank or out of range)
+const asOptions = (value: unknown) => {
+  const raw = Array.isArray(value) ? value.map(asString) : [];
+  const mapIndex = (index: unknown): number | null =>
+    isIndex(index, raw.length) && raw[index] ? raw.slice(0, index).filter(Boolean).length : null;
+  return { options: raw.filter(Boolean), mapIndex };
+};
+
+// Model output and stored questions -> a valid ExamQuestion, or null if it is
+// unusable. Questions without a type predate question types and are MCQs.
+export const normalizeQuestion = (raw: any): ExamQuestion | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const question = asString(raw.question);
+  const explanation = asString(raw.explanation);
+  if (!question) return null;
+  const base = { question, explanation };
+
+  switch (raw.type ?? 'mcq') {
+    case 'mcq': {
+      const { options, mapIndex } = asOptions(raw.options);
+      const correctIndex = mapIndex(raw.correctIndex);
+      if (options.length < 2 || correctIndex === null) return null;
+      return { ...base, type: 'mcq', options, correctIndex };
+    }
+    case 'trueFalse': {
+      // Models sometimes answer with an index into ["True", "False"]
+      const answer = typeof raw.answer === 'boolean' ? raw.answer
+        : typeof raw.correctIndex === 'number' ? raw.correctIndex === 0
+        : /^true$/i.test(asString(raw.answers?.[0])) ? true
+        : /^false$/i.test(asString(raw.answers?.[0])) ? false
+        : null;
+      if (answer === null) return null;
+      return { ...base, type: 'trueFalse', answer };
+    }
+    case 'multiSelect': {
+      const { options, mapIndex } = asOptions(raw.options);
+      const correctIndexes: number[] = Array.from(new Set<number>(
+        (Array.isArray(raw.correctIndexes) ? raw.correctIndexes : []).map(mapIndex).filter((index: number | null): index is number => index !== null)
+      )).sort((a, b) => a - b);
+      if (options.length < 2 || correctIndexes.length === 0) return null;
+      return { ...base, type: 'multiSelect', options, correctIndexes };
+    }
+    case 'fillBlank': {
+      // Generated as one answer string per blank, alternatives separated by "|"
+      const blanks: string[][] = Array.isArray(raw.blanks)
+        ? raw.blanks.map(asStrings)
+        : asStrings(raw.answers).map(answer => answer.split('|').map(alt => alt.trim()).filter(Boolean));
+      const blankCount = countBlanks(question);
+      if (blankCount === 0 || blanks.length < blankCount || blanks.some(accepted => accepted.length === 0)) return null;
+      return { ...base, type: 'fillBlank', blanks: blanks.slice(0, blankCount) };
+    }
+    case 'shortAnswer': {
+      const modelAnswer = asString(raw.modelAnswer) || asString(raw.answers?.[0]);
+      if (!modelAnswer) return null;
+      return { ...base, type: 'shortAnswer', modelAnswer, keywords: asStrings(raw.keywords) };
+    }
+    case 'matching': {
+      const pairs = (Array.isArray(raw.pairs) ? raw.pairs : [])
+        .map((pair: any) => ({ term: asString(pair?.term), definition: asString(pair?.definition) }))
+        .filter((pair: { term: string; definition: string }) => pair.term && pair.definition);
+      if (pairs.length < 2) return null;
+      return { ...base, type: 'matching', pairs };
+    }
+    default:
+      return null;
+  }
+};
+
+export const normalizeQuestions = (raw: unknown): ExamQuestion[] =>
+  Array.isArray(raw) ? raw.map(normalizeQuestion).filter((q): q is ExamQuestion => q !== null) : [];
+
+// Lenient comparison for typed answers: width, case, spacing and trailing punctuation
+export const normalizeAnswerText = (text: string) => text
+  .normalize('NFKC')
+  .toLowerCase()
+  .replace(/\s+/g, ' ')
+  .replace(/^[\s"'“”‘’]+|[\s"'“”‘’.,;:!?。，；：！？]+$/g, '');
+
+export const isAnswered = (question: ExamQuestion, response: ExamResponse | null | undefined): boolean => {
+  if (response === null || response === undefined) return false;
+  switch (question.type) {
+    case 'multiSelect':
+      return Array.isArray(response) && response.length > 0;
+    case 'fillBlank':
+      return Array.isArray(response) && response.some(value => typeof value === 'string' && value.trim().length > 0);
+    case 'shortAnswer':
+      return typeof response === 'string' && response.trim().length > 0;
+    case 'matching':
+      return Array.isArray(response) && response.some(value => value !== -1);
+    default:
+      return true;
+  }
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// Credit between 0 and 1. Multi-select subtracts wrong picks so selecting
+// everything earns nothing; blanks, matches and keywords count separately.
+export const scoreQuestion = (question: ExamQuestion, response: ExamResponse | null | undefined): number => {
+  if (!isAnswered(question, response)) return 0;
+  switch (question.type) {
+    case 'mcq':
+      return response === question.correctIndex ? 1 : 0;
+    case 'trueFalse':
+      return response === question.answer ? 1 : 0;
+    case 'multiSelect': {
+      const selected = new Set(response as number[]);
+      const hits = question.correctIndexes.filter(index => selected.has(index)).length;
+      const misses = selected.size - hits;
+      return clamp01((hits - misses) / question.correctIndexes.length);
+    }
+    case 'fillBlank': {
+      const values = response as string[];
+      const correct = question.blanks.filter((accepted, i) =>
+        accepted.some(answer => normalizeAnswerText(answer) === normalizeAnswerText(values[i] || ''))
+      ).length;
+      return correct / question.blanks.length;
+    }
+    case 'shortAnswer': {
+      const answer = normalizeAnswerText(response as string);
+      if (question.keywords.length === 0) return answer === normalizeAnswerText(question.modelAnswer) ? 1 : 0;
+      const found = question.keywords.filter(keyword => answer.includes(normalizeAnswerText(keyword))).length;
+      return found / question.keywords.length;
+    }
+    case 'matching': {
+      const choices = response as number[];
+      return question.pairs.filter((_, i) => choices[i] === i).length / question.pairs.length;
+    }
+  }
+};
+
+// Lines printed under the stem in exports and on exam papers
+export const getQuestionChoiceLines = (question: ExamQuestion): string[] => {
+  switch (question.type) {
+    case 'mcq':
+    case 'multiSelect':
+      return question.options.map((option, i) => `${optionLetter(i)}. ${option}`);
+    case 'trueFalse':
+      return ['True / False'];
+    case 'matching': {
+      const order = getDefinitionOrder(question);
+      return [
+        ...question.pairs.map((pair, i) => `${i + 1}. ${pair.term}`),
+        ...order.map((pairIndex, i) => `${optionLetter(i)}. ${question.pairs[pairIndex].definition}`),
+      ];
+    }
+    default:
+      return [];
+  }
+};
+
+// Instruction shown for types that need one
+export const getQuestionHint = (question: ExamQuestion): string | null => {
+  switch (question.type) {
+    case 'multiSelect':
+      return 'Select all that apply.';
+    case 'fillBlank':
+      return 'Fill in the blanks.';
+    case 'shortAnswer':
+      return 'Answer in a few sentences.';
+    case 'matching':
+      return 'Match each term with its definition.';
+    default:
+      return null;
+  }
+};
+
+// The correct answer as text, for answer keys and result pages
+export const formatCorrectAnswer = (question: ExamQuestion): string => {
+  switch (question.type) {
+    case 'mcq':
+      return `${optionLetter(question.correctIndex)}. ${question.options[question.correctIndex]}`;
+    case 'trueFalse':
+      return question.answer ? 'True' : 'False';
+    case 'multiSelect':
+      return question.correctIndexes.map(optionLetter).join(', ');
+    case 'fillBlank':
+      return question.blanks.map(accepted => accepted.join(' / ')).join('; ');
+    case 'shortAnswer':
+      return question.modelAnswer;
+    case 'matching': {
+      const order = getDefinitionOrder(question);
+      return question.pairs.map((_, i) => `${i + 1}–${optionLetter(order.indexOf(i))}`).join(', ');
+    }
+  }
+};
+
+// A learner's response as text, for result pages
+export const formatResponse = (question: ExamQuestion, response: ExamResponse | null | undefined): string => {
+  if (!isAnswered(question, response)) return 'No answer';
+  switch (question.type) {
+    case 'mcq': {
+      const index = response as number;
+      return `${optionLetter(index)}. ${question.options[index] ?? ''}`;
+    }
+    case 'trueFalse':
+      return response ? 'True' : 'False';
+    case 'multiSelect':
+      return [...(response as number[])].sort((x, y) => x - y).map(optionLetter).join(', ');
+    case 'fillBlank': {
+      const values = response as string[];
+      return question.blanks.map((_, i) => values[i]?.trim() || '—').join('; ');
+    }
+    case 'shortAnswer':
+      return (response as string).trim();
+    case 'matching': {
+      const order = getDefinitionOrder(question);
+      const choices = response as number[];
+      return question.pairs.map((_, i) => {
+        const choice = choices[i] ?? -1;
+        return `${i + 1}–${choice === -1 ? '?' : optionLetter(order.indexOf(choice))}`;
+      }).join(', ');
+    }
+  }
+};
+
+// Every text of a question, for the search index
+export const getQuestionTexts = (question: ExamQuestion): string[] => {
+  switch (question.type) {
+    case 'mcq':
+    case 'multiSelect':
+      return [question.question, ...question.options, question.explanation];
+    case 'fillBlank':
+      return [question.question, ...question.blanks.flat(), question.explanation];
+    case 'shortAnswer':
+      return [question.question, question.modelAnswer, question.explanation];
+    case 'matching':
+      return [question.question, ...question.pairs.flatMap(pair => [pair.term, pair.definition]), question.explanation];
+    default:
+      return [question.question, question.explanation];
+  }
+};
@@ -1,10 +1,16 @@
 
-import { StudySection, AppTheme, THEMES } from "../types";
+import { StudySection, StudyFile, AppTheme, LanguagePair, LANGUAGES, CardSchedule, ExamQuestion, PointAnnotation, TextHighlight } from "../types";
+import { resolveImageUrl } from "./storageService";
+import type { GlossaryEntry } from "./glossaryService";
+import { getCardId, getCardIds, reconcileProgress } from "./srsScheduler";
+import type { ExamPaper, PaperQuestion } from "./examPaperService";
+import { optionLetter, getQuestionChoiceLines, getQuestionHint, formatCorrectAnswer } from "./examService";
+import { getAnnotationLines, getPointKey } from "./annotationService";
 
-// Helper to convert Blob URL to Base64 for PPTX export
+// Helper to convert Blob URL (or stored image ref) to Base64 for PPTX export
 const blobUrlToBase64 = async (blobUrl: string): Promise<string> => {
   try {
-    const response = await fetch(blobUrl);
+    const response = await fetch(await resolveImageUrl(blobUrl));
     const blob = await response.blob();
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
@@ -21,7 +27,7 @@ const blobUrlToBase64 = async (blobUrl: string): Promise<string> => {
 // Helper to strip hex hash for PptxGenJS which often expects "FFFFFF" not "#FFFFFF"
 const cleanHex = (hex: string) => hex.replace('#', '');
 
-export const exportToPptx = async (sections: StudySection[], fileName: string, theme: AppTheme) => {
+export const exportToPptx = async (sections: StudySection[], fileName: string, theme: AppTheme, languages: LanguagePair, annotations?: Record<string, PointAnnotation>) => {
   if (!window.PptxGenJS) {
     throw new Error("PPTX generator not loaded");
   }
@@ -41,6 +47,9 @@ export const exportToPptx = async (sections: StudySection[], fileName: string, t
   const colSubtext = cleanHex(theme.colors.subtext);
   const colCard = cleanHex(theme.colors.card);
 
+  const primaryLang = LANGUAGES[languages.primary];
+  const secondaryLang = LANGUAGES[languages.secondary];
+
   // 1. Define Master Slide for Professional Look
   pres.defineSlideMaster({
     title: "MASTER_SLIDE",
@@ -68,7 +77,7 @@ export const exportToPptx = async (sections: StudySection[], fileName: string, t
   });
   
   // 3. Section Slides
-  for (const section of sections) {
+  for (const [sIdx, section] of sections.entries()) {
     // A. Section Title Slide
     let sectionSlide = pres.addSlide({ masterName: "MASTER_SLIDE" });
     
@@ -119,35 +128,36 @@ export const exportToPptx = async (sections: StudySection[], fileName: string, t
       });
 
       // Column Headers
-      contentSlide.addText("English Notes", { 
-        x: 0.5, y: 1.0, w: 4.5, fontSize: 14, bold: true, color: colPrimary, fontFace: "Arial" 
+      contentSlide.addText(primaryLang.notesLabel, { 
+        x: 0.5, y: 1.0, w: 4.5, fontSize: 14, bold: true, color: colPrimary, fontFace: primaryLang.pptxFont 
       });
-      contentSlide.addText("中文解析 (Chinese)", { 
-        x: 5.2, y: 1.0, w: 4.5, fontSize: 14, bold: true, color: colPrimary, fontFace: "Microsoft YaHei" 
+      contentSlide.addText(secondaryLang.notesLabel, { 
+        x: 5.2, y: 1.0, w: 4.5, fontSize: 14, bold: true, color: colPrimary, fontFace: secondaryLang.pptxFont 
       });
 
       // Content Rows
       let currentY = 1.5;
-      chunk.forEach((point) => {
-        const enText = point.keyTerm ? `[${point.keyTerm}] ${point.english}` : point.english;
+      chunk.forEach((point, chunkIdx) => {
+        const notes = getAnnotationLines(annotations?.[getPointKey(sIdx, i + chunkIdx)]);
+        const primaryText = [point.keyTerm ? `[${point.keyTerm}] ${point.primary}` : point.primary, ...notes].join('\n');
         // Strip basic markdown
-        const cleanEn = enText.replace(/\*\*(.*?)\*\*/g, "$1").replace(/`(.*?)`/g, "$1");
-        const cleanCn = point.chinese.replace(/\*\*/g, "").replace(/`/g, "");
+        const cleanPrimary = primaryText.replace(/\*\*(.*?)\*\*/g, "$1").replace(/`(.*?)`/g, "$1");
+        const cleanSecondary = point.secondary.replace(/\*\*/g, "").replace(/`/g, "");
 
         // Determine height based on length roughly
-        const heightEst = Math.max(cleanEn.length, cleanCn.length) > 150 ? 1.5 : 1.2;
+        const heightEst = Math.max(cleanPrimary.length, cleanSecondary.length) > 150 ? 1.5 : 1.2;
 
-        // English Column (Plain)
-        contentSlide.addText(cleanEn, { 
-          x: 0.5, y: currentY, w: 4.5, h: heightEst, fontSize: 12, color: colText, valign: "top", fontFace: "Arial", bullet: true
+        // Primary Column (Plain)
+        contentSlide.addText(cleanPrimary, { 
+          x: 0.5, y: currentY, w: 4.5, h: heightEst, fontSize: 12, color: colText, valign: "top", fontFace: primaryLang.pptxFont, bullet: true
         });
         
-        // Chinese Column (Card/Box Style)
+        // Secondary Column (Card/Box Style)
         contentSlide.addShape(pres.ShapeType.rect, {
             x: 5.1, y: currentY, w: 4.6, h: heightEst, fill: { color: colSecondary, transparency: 70 }, line: { color: colSecondary, width: 1 }
         });
-        contentSlide.addText(cleanCn, { 
-          x: 5.2, y: currentY + 0.1, w: 4.4, h: heightEst - 0.2, fontSize: 12, color: colText, valign: "top", fontFace: "Microsoft YaHei" 
+        contentSlide.addText(cleanSecondary, { 
+          x: 5.2, y: currentY + 0.1, w: 4.4, h: heightEst - 0.2, fontSize: 12, color: colText, valign: "top", fontFace: secondaryLang.pptxFont 
         });
         
         currentY += heightEst + 0.1; 
@@ -158,101 +168,1307 @@ export const exportToPptx = async (sections: StudySection[], fileName: string, t
   await pres.writeFile({ fileName: `${cleanName}_StudyGuide.pptx` });
 };
 
-// Helper to hex
-const hexToRgb = (hex: string) => {
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  return result ? {
-    r: parseInt(result[1], 16),
-    g: parseInt(result[2], 16),
-    b: parseInt(result[3], 16)
-  } : null;
+export type DelimitedFormat = 'csv' | 'tsv';
+
+// CSV quotes cells when needed; TSV cannot quote, so tabs and line breaks become spaces
+const formatCell = (value: string, format: DelimitedFormat) => {
+  if (format === 'tsv') return value.replace(/[\t\r\n]+/g, ' ');
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const toDelimitedText = (rows: string[][], format: DelimitedFormat) =>
+  rows.map(row => row.map(cell => formatCell(cell, format)).join(format === 'csv' ? ',' : '\t')).join('\r\n');
+
+// Save generated content through a temporary download link
+export const downloadFile = (content: BlobPart, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const stripMarkdown = (text: string) => text
+  .replace(/\*\*(.*?)\*\*/g, "$1")
+  .replace(/`(.*?)`/g, "$1")
+  .replace(/\s+/g, ' ')
+  .trim();
+
+export const exportGlossary = (entries: GlossaryEntry[], name: string, format: DelimitedFormat) => {
+  const rows = [
+    ['Term', 'Explanation', 'Translation', 'Languages', 'Sources'],
+    ...entries.map(entry => [
+      entry.term,
+      stripMarkdown(entry.primary),
+      stripMarkdown(entry.secondary),
+      `${LANGUAGES[entry.languages.primary].name} / ${LANGUAGES[entry.languages.secondary].name}`,
+      entry.occurrences.map(o => `${o.fileName} > ${o.topic}`).join('; '),
+    ]),
+  ];
+
+  // Leading BOM so spreadsheet apps read the file as UTF-8 (CJK text)
+  downloadFile(
+    `\ufeff${toDelimitedText(rows, format)}`,
+    `${name.replace(/\.[^/.]+$/, "")}_Glossary.${format}`,
+    format === 'csv' ? 'text/csv;charset=utf-8' : 'text/tab-separated-values;charset=utf-8'
+  );
+};
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Notes are Markdown with bold, code and line breaks; Anki fields and HTML exports need HTML
+const inlineMarkdownToHtml = (text: string) => escapeHtml(text)
+  .replace(/\*\*(.*?)\*\*/g, '<b>$1</b>')
+  .replace(/`(.*?)`/g, '<code>$1</code>')
+  .replace(/\n/g, '<br>');
+
+const fetchImageBlob = async (src: string): Promise<Blob | null> => {
+  try {
+    const response = await fetch(await resolveImageUrl(src));
+    return await response.blob();
+  } catch (error) {
+    console.warn("Failed to read image for export", error);
+    return null;
+  }
+};
+
+// --- Flashcard export (Anki .apkg, CSV/TSV) ---
+
+const SQL_JS_BASE_URL = 'https://cdnjs.cloudflare.com/ajax/libs/sql.js/1.10.3/';
+
+interface ExportCard {
+  id: string; // Positional card ID, as in FlashcardView
+  primary: string;
+  secondary: string;
+  keyTerm?: string;
+  topic: string;
+  image?: string;
+  schedule?: CardSchedule;
+}
+
+// Same cards FlashcardView builds: front = primary notes, back = key term + secondary notes.
+// The schedule is read from reconciled progress so legacy mastered cards carry over.
+const getExportCards = (file: StudyFile): ExportCard[] => {
+  const { schedule } = reconcileProgress(file.flashcardProgress, getCardIds(file.sections));
+  return file.sections.flatMap((section, sIdx) => section.content.map((point, pIdx) => {
+    const id = getCardId(sIdx, pIdx);
+    return {
+      id,
+      primary: point.primary,
+      secondary: point.secondary,
+      keyTerm: point.keyTerm,
+      topic: section.topic,
+      image: section.images?.[0],
+      schedule: schedule?.[id],
+    };
+  }));
+};
+
+export const exportFlashcardsDelimited = (file: StudyFile, format: DelimitedFormat) => {
+  const rows = [
+    ['Front', 'Back', 'Key term', 'Topic'],
+    ...getExportCards(file).map(card => [stripMarkdown(card.primary), stripMarkdown(card.secondary), card.keyTerm || '', card.topic]),
+  ];
+  downloadFile(
+    `\ufeff${toDelimitedText(rows, format)}`,
+    `${file.name.replace(/\.[^/.]+$/, "")}_Flashcards.${format}`,
+    format === 'csv' ? 'text/csv;charset=utf-8' : 'text/tab-separated-values;charset=utf-8'
+  );
+};
+
+// Anki tags cannot contain spaces
+const toTag = (text: string) => text.trim().replace(/[\s:]+/g, '_').replace(/[^\p{L}\p{N}_-]/gu, '').slice(0, 60);
+
+const sha1Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const ANKI_SCHEMA = `
+  CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+  CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+  CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+  CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+  CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+  CREATE INDEX ix_notes_usn on notes (usn);
+  CREATE INDEX ix_cards_usn on cards (usn);
+  CREATE INDEX ix_revlog_usn on revlog (usn);
+  CREATE INDEX ix_cards_nid on cards (nid);
+  CREATE INDEX ix_cards_sched on cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid on revlog (cid);
+  CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const ANKI_FIELDS = ['Front', 'Back', 'KeyTerm', 'Topic', 'Image'];
+
+const ANKI_CSS = `
+.card { font-family: Arial, sans-serif; font-size: 20px; text-align: center; color: #1e293b; background: #fff; }
+.secondary { font-family: "Noto Serif SC", "Noto Serif TC", "Noto Serif JP", "Noto Serif KR", serif; }
+.term { display: inline-block; margin-bottom: 12px; padding: 4px 14px; border-radius: 10px; background: #0284c7; color: #fff; font-weight: bold; }
+.topic { margin-top: 16px; font-size: 12px; color: #94a3b8; }
+img { max-width: 100%; max-height: 240px; }
+`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Anki card columns (type, queue, due, ivl, factor, reps) for the app's SM-2 state.
+// Review due dates are day numbers relative to the collection's creation day.
+const toAnkiScheduling = (schedule: CardSchedule | undefined, position: number, crtMs: number) => {
+  if (!schedule || schedule.repetitions === 0 && schedule.interval === 0 && !schedule.lastReviewed) {
+    return { type: 0, queue: 0, due: position, ivl: 0, factor: 0, reps: 0, left: 0 };
+  }
+  const factor = Math.round(schedule.easeFactor * 1000);
+  if (schedule.interval < 1) {
+    // Relearning after a lapse: learning queue, due is a timestamp in seconds
+    return { type: 1, queue: 1, due: Math.floor(schedule.due / 1000), ivl: 0, factor, reps: schedule.repetitions, left: 1001 };
+  }
+  return {
+    type: 2,
+    queue: 2,
+    due: Math.max(0, Math.floor((schedule.due - crtMs) / DAY_MS)), // Legacy mastered cards are due now (0)
+    ivl: schedule.interval,
+    factor,
+    reps: schedule.repetitions,
+    left: 0,
+  };
+};
+
+export const exportToAnki = async (file: StudyFile) => {
+  if (!window.initSqlJs || !window.JSZip) {
+    throw new Error("Anki exporter not loaded");
+  }
+
+  const SQL = await window.initSqlJs({ locateFile: (name: string) => `${SQL_JS_BASE_URL}${name}` });
+  const db = new SQL.Database();
+  db.run(ANKI_SCHEMA);
+
+  const now = Date.now();
+  const nowSec = Math.floor(now / 1000);
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  const crtMs = today.getTime();
+
+  const cleanName = file.name.replace(/\.[^/.]+$/, "");
+  const modelId = now;
+  const deckId = now + 1;
+  const primaryName = LANGUAGES[file.languages.primary].name;
+  const secondaryName = LANGUAGES[file.languages.secondary].name;
+
+  const model = {
+    id: modelId,
+    name: `Bilingual Scholar (${primaryName}/${secondaryName})`,
+    type: 0,
+    mod: nowSec,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: [{
+      name: 'Card 1',
+      ord: 0,
+      qfmt: '{{#Image}}<div>{{Image}}</div>{{/Image}}<div class="primary">{{Front}}</div>',
+      afmt: '{{FrontSide}}<hr id="answer">{{#KeyTerm}}<div class="term">{{KeyTerm}}</div>{{/KeyTerm}}<div class="secondary">{{Back}}</div><div class="topic">{{Topic}}</div>',
+      did: null,
+      bqfmt: '',
+      bafmt: '',
+    }],
+    flds: ANKI_FIELDS.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+    css: ANKI_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    tags: [],
+    vers: [],
+    req: [[0, 'any', [0]]],
+  };
+
+  const deckDefaults = { usn: -1, mod: nowSec, lrnToday: [0, 0], revToday: [0, 0], newToday: [0, 0], timeToday: [0, 0], collapsed: false, desc: '', dyn: 0, conf: 1, extendNew: 10, extendRev: 50 };
+  const decks = {
+    1: { ...deckDefaults, id: 1, name: 'Default' },
+    [deckId]: { ...deckDefaults, id: deckId, name: `Bilingual Scholar::${cleanName}` },
+  };
+  const dconf = {
+    1: {
+      id: 1, name: 'Default', replayq: true, maxTaken: 60, timer: 0, autoplay: true, mod: 0, usn: 0,
+      lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+      rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: true },
+      new: { perDay: 20, delays: [1, 10], separate: true, ints: [1, 4, 7], initialFactor: 2500, bury: true, order: 1 },
+    },
+  };
+  const conf = {
+    nextPos: 1, estTimes: true, activeDecks: [1], sortType: 'noteFld', timeLim: 0, sortBackwards: false,
+    addToCur: true, curDeck: 1, newBury: true, newSpread: 0, dueCounts: true, curModel: String(modelId), collapseTime: 1200,
+  };
+
+  db.run(
+    'INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)',
+    [Math.floor(crtMs / 1000), now, now, JSON.stringify(conf), JSON.stringify({ [modelId]: model }), JSON.stringify(decks), JSON.stringify(dconf), '{}']
+  );
+
+  // Media files are stored as "0", "1", ... and named in the "media" JSON map
+  const zip = new window.JSZip();
+  const media: Record<string, string> = {};
+  const mediaNames = new Map<string, string>();
+  const fileTag = toTag(cleanName);
+
+  const cards = getExportCards(file);
+  for (let i = 0; i < cards.length; i++) {
+    const card = cards[i];
+
+    let imageField = '';
+    if (card.image) {
+      let mediaName = mediaNames.get(card.image);
+      if (!mediaName) {
+        const blob = await fetchImageBlob(card.image);
+        if (blob) {
+          const extension = blob.type.split('/')[1]?.replace('jpeg', 'jpg') || 'jpg';
+          mediaName = `bilingual-scholar-${file.id}-${mediaNames.size}.${extension}`;
+          const index = String(Object.keys(media).length);
+          media[index] = mediaName;
+          zip.file(index, blob);
+          mediaNames.set(card.image, mediaName);
+        }
+      }
+      if (mediaName) imageField = `<img src="${mediaName}">`;
+    }
+
+    const fields = [
+      inlineMarkdownToHtml(card.primary),
+      inlineMarkdownToHtml(card.secondary),
+      card.keyTerm ? escapeHtml(card.keyTerm) : '',
+      escapeHtml(card.topic),
+      imageField,
+    ];
+    const sortField = stripMarkdown(card.primary);
+    const checksum = parseInt((await sha1Hex(sortField)).slice(0, 8), 16);
+    // Stable per card, so re-importing an export updates notes instead of duplicating them
+    const guid = (await sha1Hex(`${file.id}:${card.id}`)).slice(0, 16);
+    const tags = ` BilingualScholar ${fileTag} ${toTag(card.topic)} `;
+
+    const noteId = now + i * 2;
+    const cardId = now + i * 2 + 1;
+    db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')', [noteId, guid, modelId, nowSec, tags, fields.join('\x1f'), sortField, checksum]);
+
+    const scheduling = toAnkiScheduling(card.schedule, i, crtMs);
+    db.run(
+      'INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, 0, ?, 0, 0, 0, \'\')',
+      [cardId, noteId, deckId, nowSec, scheduling.type, scheduling.queue, scheduling.due, scheduling.ivl, scheduling.factor, scheduling.reps, scheduling.left]
+    );
+  }
+
+  zip.file('collection.anki2', db.export());
+  zip.file('media', JSON.stringify(media));
+  db.close();
+
+  const blob = await zip.generateAsync({ type: 'blob' });
+  downloadFile(blob, `${cleanName}_Flashcards.apkg`, 'application/octet-stream');
+};
+
+// --- Text exports (Markdown, HTML, DOCX) ---
+
+export type MarkdownLayout = 'table' | 'blocks';
+
+const getImageExtension = (blob: Blob) => (blob.type.split('/')[1] || 'png').replace('jpeg', 'jpg').replace(/\+.*$/, '');
+
+// Markdown table cells must stay on one line and cannot contain bare pipes
+const toTableCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+const withKeyTerm = (point: StudySection['content'][number]) =>
+  point.keyTerm ? `**${point.keyTerm}** — ${point.primary}` : point.primary;
+
+// Obsidian-style ==highlights== around the marked spans that still appear in the Markdown source
+const markHighlights = (text: string, field: TextHighlight['field'], annotation?: PointAnnotation) =>
+  (annotation?.highlights ?? []).filter(highlight => highlight.field === field).reduce((result, highlight) => {
+    let index = -1;
+    for (let i = 0; i <= highlight.occurrence; i++) {
+      index = result.indexOf(highlight.quote, index + 1);
+      if (index < 0) return result;
+    }
+    return `${result.slice(0, index)}==${highlight.quote}==${result.slice(index + highlight.quote.length)}`;
+  }, text);
+
+const hasQuestions = (sections: StudySection[]) => sections.some(section => section.questions && section.questions.length > 0);
+
+// Obsidian and most editors want images as files next to the note, so a guide with
+// images is downloaded as a zip with an images/ folder
+export const exportToMarkdown = async (sections: StudySection[], fileName: string, languages: LanguagePair, layout: MarkdownLayout, annotations?: Record<string, PointAnnotation>) => {
+  const cleanName = fileName.replace(/\.[^/.]+$/, "");
+  const primaryLang = LANGUAGES[languages.primary];
+  const secondaryLang = LANGUAGES[languages.secondary];
+  const images: { path: string; blob: Blob }[] = [];
+  const lines: string[] = [`# ${cleanName}`, '', `*Bilingual study guide · ${primaryLang.name} / ${secondaryLang.name}*`, ''];
+
+  for (const [sIdx, section] of sections.entries()) {
+    lines.push(`## ${section.topic}`, '');
+
+    for (const src of section.images || []) {
+      const blob = await fetchImageBlob(src);
+      if (!blob) continue;
+      const path = `images/section-${sIdx + 1}-${images.length + 1}.${getImageExtension(blob)}`;
+      images.push({ path, blob });
+      lines.push(`![${section.topic}](${path})`, '');
+    }
+    if (section.visualSummary) lines.push(`> *${section.visualSummary}*`, '');
+
+    // The user's highlights are marked inline; stars and notes follow the point in italics
+    const annotatedPoints = section.content.map((point, pIdx) => {
+      const annotation = annotations?.[getPointKey(sIdx, pIdx)];
+      return {
+        primary: withKeyTerm({ ...point, primary: markHighlights(point.primary, 'primary', annotation) }),
+        secondary: markHighlights(point.secondary, 'secondary', annotation),
+        notes: getAnnotationLines(annotation).filter(line => !line.startsWith('Highlighted')).map(line => `*${line}*`),
+      };
+    });
+
+    if (layout === 'table') {
+      lines.push(`| ${primaryLang.notesLabel} | ${secondaryLang.notesLabel} |`, '| --- | --- |');
+      annotatedPoints.forEach(point => lines.push(`| ${toTableCell([point.primary, ...point.notes].join('\n'))} | ${toTableCell(point.secondary)} |`));
+      lines.push('');
+    } else {
+      annotatedPoints.forEach(point => {
+        lines.push(point.primary, '');
+        lines.push(...point.secondary.split(/\r?\n/).map(line => `> ${line}`), '');
+        if (point.notes.length > 0) lines.push(point.notes.join('  \n'), '');
+      });
+    }
+
+    if (section.questions && section.questions.length > 0) {
+      lines.push('### Exam Questions', '');
+      section.questions.forEach((question, qIdx) => {
+        const hint = getQuestionHint(question);
+        lines.push(`${qIdx + 1}. ${question.question}${hint ? ` *(${hint})*` : ''}`);
+        getQuestionChoiceLines(question).forEach(line => lines.push(`   - ${line}`));
+        lines.push('');
+      });
+    }
+  }
+
+  if (hasQuestions(sections)) {
+    lines.push('---', '', '## Answer Key', '');
+    sections.forEach(section => {
+      if (!section.questions || section.questions.length === 0) return;
+      lines.push(`### ${section.topic}`, '');
+      section.questions.forEach((question, qIdx) =>
+        lines.push(`${qIdx + 1}. **${formatCorrectAnswer(question)}** — ${question.explanation}`)
+      );
+      lines.push('');
+    });
+  }
+
+  const markdown = lines.join('\n');
+  if (images.length === 0) {
+    downloadFile(markdown, `${cleanName}_StudyGuide.md`, 'text/markdown;charset=utf-8');
+    return;
+  }
+
+  if (!window.JSZip) {
+    throw new Error("Zip generator not loaded");
+  }
+  const zip = new window.JSZip();
+  zip.file(`${cleanName}_StudyGuide.md`, markdown);
+  images.forEach(image => zip.file(image.path, image.blob));
+  downloadFile(await zip.generateAsync({ type: 'blob' }), `${cleanName}_StudyGuide.zip`, 'application/zip');
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = reject;
+  reader.readAsDataURL(blob);
+});
+
+// A single file that opens anywhere: images are inlined as data URLs and the theme is plain CSS
+export const exportToHtml = async (sections: StudySection[], fileName: string, theme: AppTheme, languages: LanguagePair) => {
+  const cleanName = fileName.replace(/\.[^/.]+$/, "");
+  const primaryLang = LANGUAGES[languages.primary];
+  const secondaryLang = LANGUAGES[languages.secondary];
+  const { colors } = theme;
+
+  const body: string[] = [];
+  for (const section of sections) {
+    body.push('<section>', `<h2>${escapeHtml(section.topic)}</h2>`);
+
+    const imageUrls: string[] = [];
+    for (const src of section.images || []) {
+      const blob = await fetchImageBlob(src);
+      if (blob) imageUrls.push(await blobToDataUrl(blob));
+    }
+    if (imageUrls.length > 0) {
+      body.push(`<div class="images">${imageUrls.map(url => `<img src="${url}" alt="${escapeHtml(section.topic)}">`).join('')}</div>`);
+    }
+    if (section.visualSummary) body.push(`<p class="visual-summary">${escapeHtml(section.visualSummary)}</p>`);
+
+    body.push(
+      '<table class="notes">',
+      `<thead><tr><th>${escapeHtml(primaryLang.notesLabel)}</th><th>${escapeHtml(secondaryLang.notesLabel)}</th></tr></thead>`,
+      '<tbody>'
+    );
+    section.content.forEach(point => {
+      const term = point.keyTerm ? `<span class="term">${escapeHtml(point.keyTerm)}</span>` : '';
+      body.push(
+        `<tr><td class="primary" lang="${languages.primary}">${term}${inlineMarkdownToHtml(point.primary)}</td>` +
+        `<td class="secondary" lang="${languages.secondary}">${inlineMarkdownToHtml(point.secondary)}</td></tr>`
+      );
+    });
+    body.push('</tbody></table>');
+
+    if (section.questions && section.questions.length > 0) {
+      body.push('<h3>Exam Questions</h3>', '<ol class="questions">');
+      section.questions.forEach(question => {
+        const hint = getQuestionHint(question);
+        const choices = getQuestionChoiceLines(question).map(line => `<li>${inlineMarkdownToHtml(line)}</li>`).join('');
+        body.push(
+          `<li><p>${inlineMarkdownToHtml(question.question)}${hint ? ` <i>(${hint})</i>` : ''}</p>` +
+          `${choices ? `<ul class="choices">${choices}</ul>` : ''}</li>`
+        );
+      });
+      body.push('</ol>');
+    }
+    body.push('</section>');
+  }
+
+  if (hasQuestions(sections)) {
+    body.push('<section class="answer-key">', '<h2>Answer Key</h2>');
+    sections.forEach(section => {
+      if (!section.questions || section.questions.length === 0) return;
+      body.push(`<h3>${escapeHtml(section.topic)}</h3>`, '<ol>');
+      section.questions.forEach(question =>
+        body.push(`<li><b>${inlineMarkdownToHtml(formatCorrectAnswer(question))}</b> — ${inlineMarkdownToHtml(question.explanation)}</li>`)
+      );
+      body.push('</ol>');
+    });
+    body.push('</section>');
+  }
+
+  const html = `<!DOCTYPE html>
+<html lang="${languages.primary}">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(cleanName)} – Study Guide</title>
+<style>
+  body { margin: 0; padding: 40px 20px; background: ${colors.bg}; color: ${colors.text}; font-family: ${primaryLang.fontFamily}, system-ui, sans-serif; line-height: 1.6; }
+  main { max-width: 960px; margin: 0 auto; }
+  header { text-align: center; margin-bottom: 40px; }
+  h1 { color: ${colors.primary}; margin-bottom: 4px; }
+  header p { color: ${colors.subtext}; margin: 0; }
+  section { background: ${colors.card}; border: 1px solid ${colors.border}; border-radius: 16px; padding: 24px 28px; margin-bottom: 28px; }
+  h2 { color: ${colors.primary}; border-bottom: 2px solid ${colors.secondary}; padding-bottom: 8px; margin-top: 0; }
+  h3 { color: ${colors.text}; }
+  .images { display: flex; gap: 12px; flex-wrap: wrap; margin-bottom: 12px; }
+  .images img { max-width: 100%; max-height: 320px; border-radius: 8px; border: 1px solid ${colors.border}; }
+  .visual-summary { font-style: italic; color: ${colors.subtext}; background: ${colors.bg}; padding: 10px 14px; border-radius: 8px; }
+  table.notes { width: 100%; border-collapse: collapse; table-layout: fixed; }
+  table.notes th { text-align: left; color: ${colors.primary}; padding: 8px 12px; border-bottom: 2px solid ${colors.secondary}; }
+  table.notes td { vertical-align: top; padding: 12px; border-bottom: 1px solid ${colors.border}; }
+  td.secondary { background: ${colors.secondary}40; font-family: ${secondaryLang.fontFamily}; }
+  .term { display: inline-block; margin-right: 8px; padding: 0 8px; border-radius: 6px; background: ${colors.primary}; color: #fff; font-size: 0.85em; font-weight: bold; }
+  code { background: ${colors.bg}; padding: 1px 4px; border-radius: 4px; }
+  ol.questions > li { margin-bottom: 12px; }
+  ol.questions p { margin: 0 0 4px; }
+  ul.choices { list-style: none; padding-left: 12px; }
+  @media print { body { background: #fff; padding: 0; } section { break-inside: avoid-page; border: none; } .answer-key { break-before: page; } }
+</style>
+</head>
+<body>
+<main>
+<header><h1>${escapeHtml(cleanName)}</h1><p>Bilingual Study Guide · ${escapeHtml(primaryLang.nativeName)} / ${escapeHtml(secondaryLang.nativeName)}</p></header>
+${body.join('\n')}
+</main>
+</body>
+</html>
+`;
+
+  downloadFile(html, `${cleanName}_StudyGuide.html`, 'text/html;charset=utf-8');
+};
+
+// WordprocessingML is built by hand and zipped; Word, LibreOffice and Pages all open it
+const escapeXml = (text: string) => text
+  .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const EMU_PER_INCH = 914400;
+const DOCX_MAX_IMAGE_WIDTH = 6; // Inches, A4 page minus margins
+
+interface DocxRunStyle {
+  font?: string;
+  bold?: boolean;
+  italic?: boolean;
+  color?: string;
+  size?: number; // Half-points
+}
+
+const docxRun = (text: string, style: DocxRunStyle = {}) => {
+  const props = [
+    style.font ? `<w:rFonts w:ascii="${style.font}" w:hAnsi="${style.font}" w:eastAsia="${style.font}" w:cs="${style.font}"/>` : '',
+    style.bold ? '<w:b/>' : '',
+    style.italic ? '<w:i/>' : '',
+    style.color ? `<w:color w:val="${cleanHex(style.color)}"/>` : '',
+    style.size ? `<w:sz w:val="${style.size}"/>` : '',
+  ].join('');
+  const content = text.split(/\r?\n/).map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`).join('<w:br/>');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${content}</w:r>`;
+};
+
+// Bold and code spans of a note become separate runs
+const markdownToDocxRuns = (text: string, style: DocxRunStyle = {}) =>
+  text.split(/(\*\*.*?\*\*|`.*?`)/g).filter(Boolean).map(part => {
+    if (part.startsWith('**') && part.endsWith('**') && part.length > 4) return docxRun(part.slice(2, -2), { ...style, bold: true });
+    if (part.startsWith('`') && part.endsWith('`') && part.length > 2) return docxRun(part.slice(1, -1), { ...style, font: 'Consolas' });
+    return docxRun(part, style);
+  }).join('');
+
+const docxParagraph = (runs: string, props = '') => `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${runs}</w:p>`;
+
+const docxHeading = (text: string, level: 1 | 2 | 3) => docxParagraph(docxRun(text), `<w:pStyle w:val="Heading${level}"/>`);
+
+const docxCell = (content: string, fill?: string, widthPercent = 50) =>
+  `<w:tc><w:tcPr><w:tcW w:w="${widthPercent * 50}" w:type="pct"/>${fill ? `<w:shd w:val="clear" w:color="auto" w:fill="${cleanHex(fill)}"/>` : ''}</w:tcPr>${content}</w:tc>`;
+
+const getImageSize = async (blob: Blob) => {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch {
+    return { width: 576, height: 432 }; // 6 x 4.5 inches when the size cannot be read
+  }
+};
+
+const docxStyles = (theme: AppTheme, languages: LanguagePair) => {
+  const bodyFont = LANGUAGES[languages.primary].pptxFont;
+  const eastAsiaFont = LANGUAGES[languages.secondary].pptxFont;
+  const heading = (id: string, name: string, size: number, color: string) =>
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${id === 'Title' ? 0 : Number(id.slice(-1)) - 1}"/></w:pPr>` +
+    `<w:rPr><w:b/><w:color w:val="${cleanHex(color)}"/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="${bodyFont}" w:hAnsi="${bodyFont}" w:eastAsia="${eastAsiaFont}" w:cs="${bodyFont}"/><w:sz w:val="21"/><w:lang w:val="${languages.primary}" w:eastAsia="${languages.secondary}"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="80" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/><w:rPr><w:color w:val="${cleanHex(theme.colors.text)}"/></w:rPr></w:style>
+${heading('Title', 'Title', 52, theme.colors.primary)}
+${heading('Heading1', 'heading 1', 36, theme.colors.primary)}
+${heading('Heading2', 'heading 2', 28, theme.colors.text)}
+${heading('Heading3', 'heading 3', 24, theme.colors.subtext)}
+</w:styles>`;
+};
+
+// Package parts around a document body. Images must already be in word/media/.
+const buildDocxPackage = (
+  zip: any,
+  body: string[],
+  imageRels: string[],
+  extensions: Set<string>,
+  title: string,
+  theme: AppTheme,
+  languages: LanguagePair
+): Promise<Blob> => {
+  const imageTypes = Array.from(extensions)
+    .map(extension => `<Default Extension="${extension}" ContentType="image/${extension === 'jpg' ? 'jpeg' : extension}"/>`)
+    .join('');
+
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/>${imageTypes}<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`);
+  zip.file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`);
+  zip.file('docProps/core.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${escapeXml(title)}</dc:title><dc:creator>Bilingual Scholar</dc:creator><dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString()}</dcterms:created></cp:coreProperties>`);
+  zip.file('word/_rels/document.xml.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>${imageRels.join('')}</Relationships>`);
+  zip.file('word/styles.xml', docxStyles(theme, languages));
+  zip.file('word/document.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"><w:body>${body.join('')}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="567" w:footer="567" w:gutter="0"/></w:sectPr></w:body></w:document>`);
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+};
+
+export const exportToDocx = async (sections: StudySection[], fileName: string, theme: AppTheme, languages: LanguagePair) => {
+  if (!window.JSZip) {
+    throw new Error("DOCX generator not loaded");
+  }
+
+  const cleanName = fileName.replace(/\.[^/.]+$/, "");
+  const primaryLang = LANGUAGES[languages.primary];
+  const secondaryLang = LANGUAGES[languages.secondary];
+  const primaryStyle: DocxRunStyle = { font: primaryLang.pptxFont };
+  const secondaryStyle: DocxRunStyle = { font: secondaryLang.pptxFont };
+  const borderColor = cleanHex(theme.colors.border);
+
+  const zip = new window.JSZip();
+  const imageRels: string[] = [];
+  const extensions = new Set<string>();
+  const body: string[] = [
+    docxParagraph(docxRun(cleanName), '<w:pStyle w:val="Title"/>'),
+    docxParagraph(docxRun(`Bilingual Study Guide · ${primaryLang.name} / ${secondaryLang.name}`, { color: theme.colors.subtext, italic: true })),
+  ];
+
+  for (const [sIdx, section] of sections.entries()) {
+    body.push(docxHeading(section.topic, 1));
+
+    for (const src of section.images || []) {
+      const blob = await fetchImageBlob(src);
+      if (!blob) continue;
+      const extension = getImageExtension(blob);
+      const index = imageRels.length + 1;
+      const relId = `rIdImage${index}`;
+      extensions.add(extension);
+      zip.file(`word/media/image${index}.${extension}`, blob);
+      imageRels.push(`<Relationship Id="${relId}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/image${index}.${extension}"/>`);
+
+      const { width, height } = await getImageSize(blob);
+      // Natural size at 96 dpi, scaled down to the text width
+      const cx = Math.round(Math.min(DOCX_MAX_IMAGE_WIDTH, width / 96) * EMU_PER_INCH);
+      const cy = Math.round(cx * height / width);
+      body.push(docxParagraph(
+        `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${index}" name="Image ${index}"/>` +
+        `<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">` +
+        `<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:nvPicPr><pic:cNvPr id="${index}" name="image${index}.${extension}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+        `<pic:blipFill><a:blip r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+        `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic>` +
+        `</a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`,
+        '<w:jc w:val="center"/>'
+      ));
+    }
+    if (section.visualSummary) {
+      body.push(docxParagraph(docxRun(section.visualSummary, { italic: true, color: theme.colors.subtext })));
+    }
+
+    // Two-column notes table; the header row repeats on every page
+    const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="${borderColor}"/>`;
+    const rows = section.content.map(point => {
+      const term = point.keyTerm ? docxRun(`${point.keyTerm} `, { ...primaryStyle, bold: true, color: theme.colors.primary }) : '';
+      return `<w:tr><w:trPr><w:cantSplit/></w:trPr>` +
+        docxCell(docxParagraph(term + markdownToDocxRuns(point.primary, primaryStyle))) +
+        docxCell(docxParagraph(markdownToDocxRuns(point.secondary, secondaryStyle)), theme.colors.bg) +
+        `</w:tr>`;
+    });
+    body.push(
+      `<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/><w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders>` +
+      `<w:tblLayout w:type="fixed"/><w:tblCellMar><w:top w:w="80" w:type="dxa"/><w:left w:w="120" w:type="dxa"/><w:bottom w:w="80" w:type="dxa"/><w:right w:w="120" w:type="dxa"/></w:tblCellMar></w:tblPr>` +
+      `<w:tblGrid><w:gridCol w:w="4819"/><w:gridCol w:w="4819"/></w:tblGrid>` +
+      `<w:tr><w:trPr><w:tblHeader/></w:trPr>` +
+      docxCell(docxParagraph(docxRun(primaryLang.notesLabel, { ...primaryStyle, bold: true, color: '#FFFFFF' })), theme.colors.primary) +
+      docxCell(docxParagraph(docxRun(secondaryLang.notesLabel, { ...secondaryStyle, bold: true, color: '#FFFFFF' })), theme.colors.primary) +
+      `</w:tr>${rows.join('')}</w:tbl>`
+    );
+
+    if (section.questions && section.questions.length > 0) {
+      body.push(docxHeading('Exam Questions', 2));
+      section.questions.forEach((question, qIdx) => {
+        const hint = getQuestionHint(question);
+        body.push(docxParagraph(
+          docxRun(`${qIdx + 1}. `, { bold: true }) + markdownToDocxRuns(question.question) + (hint ? docxRun(` (${hint})`, { italic: true }) : ''),
+          '<w:keepNext/>'
+        ));
+        getQuestionChoiceLines(question).forEach(line =>
+          body.push(docxParagraph(markdownToDocxRuns(line), '<w:ind w:left="360"/>'))
+        );
+      });
+    }
+    if (sIdx < sections.length - 1) body.push(docxParagraph(''));
+  }
+
+  if (hasQuestions(sections)) {
+    body.push(docxParagraph('<w:r><w:br w:type="page"/></w:r>'), docxHeading('Answer Key', 1));
+    sections.forEach(section => {
+      if (!section.questions || section.questions.length === 0) return;
+      body.push(docxHeading(section.topic, 2));
+      section.questions.forEach((question, qIdx) =>
+        body.push(docxParagraph(
+          docxRun(`${qIdx + 1}. ${formatCorrectAnswer(question)} `, { bold: true, color: theme.colors.primary }) +
+          markdownToDocxRuns(`— ${question.explanation}`)
+        ))
+      );
+    });
+  }
+
+  const blob = await buildDocxPackage(zip, body, imageRels, extensions, cleanName, theme, languages);
+  downloadFile(blob, `${cleanName}_StudyGuide.docx`, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+};
+
+// --- PDF export ---
+// Lays documents out as real text with jsPDF: selectable and searchable, with
+// CJK fonts embedded (jsPDF subsets them to the glyphs used), long sections
+// split across pages, running headers, a linked table of contents and bookmarks.
+
+const PT_TO_MM = 25.4 / 72;
+const PDF_MARGIN = 18;
+const PDF_CONTENT_TOP = 24;
+const PDF_BODY_SIZE = 10;
+const PDF_CELL_PADDING = 3;
+const PDF_MAX_IMAGE_HEIGHT = 90;
+const TOC_ENTRY_HEIGHT = 8;
+
+// Helvetica only covers Latin-1 (plus a few typographic marks)
+const NON_LATIN1 = /[^\u0000-\u00ff\u2013\u2014\u2018-\u201d\u2022\u2026\u20ac]/;
+
+const pdfFontCache = new Map<string, Promise<string>>(); // Font URL -> base64 TTF
+
+const loadPdfFont = (url: string) => {
+  let font = pdfFontCache.get(url);
+  if (!font) {
+    font = fetch(url)
+      .then(response => {
+        if (!response.ok) throw new Error(`Font request failed (${response.status})`);
+        return response.blob();
+      })
+      .then(blobToDataUrl)
+      .then(dataUrl => dataUrl.slice(dataUrl.indexOf(',') + 1));
+    font.catch(() => pdfFontCache.delete(url));
+    pdfFontCache.set(url, font);
+  }
+  return font;
+};
+
+// PDF outline titles are byte strings; UTF-16BE with a BOM keeps CJK topics readable
+const toPdfTextString = (text: string) => {
+  let encoded = '\u00fe\u00ff';
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    encoded += String.fromCharCode(code >> 8, code & 0xff);
+  }
+  return encoded;
 };
 
-export const exportToPdf = async (fileName: string, theme: AppTheme = THEMES[0]) => {
-   if (!window.jspdf || !window.html2canvas) {
+// Notes keep their line breaks; Markdown markers are dropped
+const toPdfText = (text: string) => text.replace(/\*\*(.*?)\*\*/g, "$1").replace(/`(.*?)`/g, "$1").trim();
+
+interface PdfLine {
+  text: string;
+  font: string;
+  color: string;
+}
+
+// A jsPDF document with the fonts of a language pair and a flowing cursor.
+// Pages remember the topic shown in their running header.
+const createPdfLayout = async (theme: AppTheme, languages: LanguagePair) => {
+  if (!window.jspdf) {
     throw new Error("PDF generator not loaded");
   }
 
   const { jsPDF } = window.jspdf;
   const doc = new jsPDF('p', 'mm', 'a4');
-  const pdfWidth = doc.internal.pageSize.getWidth();
-  const pdfHeight = doc.internal.pageSize.getHeight();
-  const margin = 10;
-  
-  // Title Page
-  const bgRgb = hexToRgb(theme.colors.bg);
-  if(bgRgb) doc.setFillColor(bgRgb.r, bgRgb.g, bgRgb.b);
-  else doc.setFillColor(240, 249, 255);
-  
-  doc.rect(0, 0, pdfWidth, pdfHeight, 'F');
-  
-  doc.setFontSize(28);
-  
-  const primRgb = hexToRgb(theme.colors.primary);
-  if(primRgb) doc.setTextColor(primRgb.r, primRgb.g, primRgb.b);
-  else doc.setTextColor(2, 132, 199);
+  const pageWidth: number = doc.internal.pageSize.getWidth();
+  const pageHeight: number = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PDF_MARGIN * 2;
+  const contentBottom = pageHeight - PDF_MARGIN;
+  const { colors } = theme;
 
-  doc.text("Bilingual Study Guide", pdfWidth / 2, 80, { align: 'center' });
-  
-  doc.setFontSize(14);
-  const textRgb = hexToRgb(theme.colors.subtext);
-  if(textRgb) doc.setTextColor(textRgb.r, textRgb.g, textRgb.b);
-  else doc.setTextColor(100, 116, 139);
+  // Embed the TrueType font of each CJK language in the pair
+  const fontFamilies: Partial<Record<LanguagePair['primary'], string>> = {};
+  for (const code of new Set([languages.primary, languages.secondary])) {
+    const url = LANGUAGES[code].pdfFont;
+    if (!url) continue;
+    const family = `Noto-${code}`;
+    doc.addFileToVFS(`${family}.ttf`, await loadPdfFont(url));
+    doc.addFont(`${family}.ttf`, family, 'normal');
+    fontFamilies[code] = family;
+  }
+  const fallbackFont = fontFamilies[languages.secondary] || fontFamilies[languages.primary];
 
-  doc.text(`Source: ${fileName}`, pdfWidth / 2, 95, { align: 'center' });
+  const fontFor = (text: string, code = languages.primary) => {
+    if (fontFamilies[code]) return fontFamilies[code]!;
+    return fallbackFont && NON_LATIN1.test(text) ? fallbackFont : 'helvetica';
+  };
 
-  doc.setFontSize(10);
-  doc.text("Generated by Bilingual Scholar", pdfWidth / 2, 280, { align: 'center' });
+  const lineHeight = (size: number) => size * PT_TO_MM * 1.45;
 
-  let currentY = 15;
-  doc.addPage();
-  
-  // Page Background for content pages
-  if(bgRgb) doc.setFillColor(bgRgb.r, bgRgb.g, bgRgb.b);
-  doc.rect(0,0, pdfWidth, pdfHeight, 'F');
+  const wrap = (text: string, font: string, size: number, width: number): string[] => {
+    doc.setFont(font, 'normal');
+    doc.setFontSize(size);
+    return text.split(/\r?\n/).flatMap(paragraph => paragraph.trim() ? doc.splitTextToSize(paragraph, width) as string[] : []);
+  };
 
-  // Capture Sections
-  const elements = document.getElementsByClassName('study-section-export');
-  
-  for (let i = 0; i < elements.length; i++) {
-    const element = elements[i] as HTMLElement;
-    
-    // Improved scaling logic for professional PDF look
-    // High res (scale 2) for standard size, reduced for massive elements to avoid browser crash
-    let scale = 2; 
-    const elHeight = element.offsetHeight;
-    if (elHeight > 1500) scale = 1.5;
-    if (elHeight > 3000) scale = 1;
-
-    // Use JPEG instead of PNG for massive space savings
-    const canvas = await window.html2canvas(element, { 
-        scale: scale, 
-        useCORS: true,
-        backgroundColor: theme.colors.card,
-        logging: false
+  const toLines = (text: string, width: number, color: string, code = languages.primary, size = PDF_BODY_SIZE): PdfLine[] => {
+    const font = fontFor(text, code);
+    return wrap(text, font, size, width).map(line => ({ text: line, font, color }));
+  };
+
+  // First line of a text, with an ellipsis if it had to be cut
+  const truncate = (text: string, size: number, width: number) => {
+    const [first = '', ...rest] = wrap(text, fontFor(text), size, width);
+    return rest.length > 0 ? `${first}…` : first;
+  };
+
+  const drawLine = (line: PdfLine, x: number, y: number, size = PDF_BODY_SIZE, options: Record<string, unknown> = {}) => {
+    doc.setFont(line.font, 'normal');
+    doc.setFontSize(size);
+    doc.setTextColor(line.color);
+    doc.text(line.text, x, y, { baseline: 'top', ...options });
+  };
+
+  const paintBackground = () => {
+    doc.setFillColor(colors.bg);
+    doc.rect(0, 0, pageWidth, pageHeight, 'F');
+  };
+
+  const cursor = { y: PDF_CONTENT_TOP };
+  const pageTopics: (string | null)[] = [null]; // Index = page number - 1
+  let currentTopic: string | null = null;
+  paintBackground();
+
+  const currentPage = (): number => doc.getNumberOfPages();
+
+  const addPage = () => {
+    doc.addPage();
+    paintBackground();
+    pageTopics[currentPage() - 1] = currentTopic;
+    cursor.y = PDF_CONTENT_TOP;
+  };
+
+  // The running header names the topic a page starts with
+  const setTopic = (topic: string) => {
+    currentTopic = topic;
+    if (cursor.y === PDF_CONTENT_TOP) pageTopics[currentPage() - 1] = topic;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (cursor.y + height > contentBottom) addPage();
+  };
+
+  const writeLines = (lines: PdfLine[], x: number, size = PDF_BODY_SIZE, gapAfter = 2) => {
+    const height = lineHeight(size);
+    lines.forEach(line => {
+      ensureSpace(height);
+      drawLine(line, x, cursor.y, size);
+      cursor.y += height;
     });
-    
-    // Quality 0.85 balances sharpness and file size
-    const imgData = canvas.toDataURL('image/jpeg', 0.85);
-    const imgProps = doc.getImageProperties(imgData);
-    
-    // Calculate aspect ratio to fit width
-    const imgWidth = pdfWidth - (margin * 2);
-    const imgHeight = (imgProps.height * imgWidth) / imgProps.width;
-
-    // Logic to handle page breaks
-    if (currentY + imgHeight > pdfHeight - margin) {
-      doc.addPage();
-      if(bgRgb) doc.setFillColor(bgRgb.r, bgRgb.g, bgRgb.b);
-      doc.rect(0,0, pdfWidth, pdfHeight, 'F');
-      currentY = margin;
+    cursor.y += gapAfter;
+  };
+
+  const drawHeading = (title: string, size: number, color: string, keepWithNext: number) => {
+    const lines = wrap(title, fontFor(title), size, contentWidth);
+    ensureSpace(lines.length * lineHeight(size) + keepWithNext);
+    writeLines(lines.map(text => ({ text, font: fontFor(title), color })), PDF_MARGIN, size, 1);
+  };
+
+  // Header (title left, page topic right) and "n / total" footer on every page from firstPage on
+  const drawRunningHeaders = (title: string, firstPage: number) => {
+    const pageCount = currentPage();
+    const headerWidth = contentWidth / 2 - 4;
+    for (let page = firstPage; page <= pageCount; page++) {
+      doc.setPage(page);
+      const topic = pageTopics[page - 1];
+      drawLine({ text: truncate(title, 8, headerWidth), font: fontFor(title), color: colors.subtext }, PDF_MARGIN, 10, 8);
+      if (topic) {
+        drawLine({ text: truncate(topic, 8, headerWidth), font: fontFor(topic), color: colors.subtext }, pageWidth - PDF_MARGIN, 10, 8, { align: 'right' });
+      }
+      doc.setDrawColor(colors.secondary);
+      doc.line(PDF_MARGIN, 15, pageWidth - PDF_MARGIN, 15);
+      drawLine({ text: `${page} / ${pageCount}`, font: 'helvetica', color: colors.subtext }, pageWidth / 2, pageHeight - 10, 8, { align: 'center' });
     }
+  };
 
-    doc.addImage(imgData, 'JPEG', margin, currentY, imgWidth, imgHeight);
-    
-    // Add padding after image
-    currentY += imgHeight + 10;
+  return {
+    doc, cursor, colors, pageWidth, pageHeight, contentWidth, contentBottom,
+    fontFor, lineHeight, wrap, toLines, truncate, drawLine, currentPage, addPage, setTopic, ensureSpace, writeLines, drawHeading, drawRunningHeaders,
+  };
+};
+
+export const exportToPdf = async (sections: StudySection[], fileName: string, theme: AppTheme, languages: LanguagePair, annotations?: Record<string, PointAnnotation>) => {
+  const pdf = await createPdfLayout(theme, languages);
+  const { doc, cursor, colors, pageWidth, pageHeight, contentWidth, contentBottom, fontFor, lineHeight, toLines, drawLine } = pdf;
+  const cleanName = fileName.replace(/\.[^/.]+$/, "");
+  const primaryLang = LANGUAGES[languages.primary];
+  const secondaryLang = LANGUAGES[languages.secondary];
+
+  // 1. Title page
+  drawLine({ text: "Bilingual Study Guide", font: 'helvetica', color: colors.primary }, pageWidth / 2, 80, 28, { align: 'center' });
+  pdf.wrap(cleanName, fontFor(cleanName), 16, contentWidth).forEach((line, i) =>
+    drawLine({ text: line, font: fontFor(cleanName), color: colors.text }, pageWidth / 2, 98 + i * lineHeight(16), 16, { align: 'center' })
+  );
+  drawLine({ text: `${primaryLang.name} / ${secondaryLang.name}`, font: 'helvetica', color: colors.subtext }, pageWidth / 2, 125, 12, { align: 'center' });
+  drawLine({ text: "Generated by Bilingual Scholar", font: 'helvetica', color: colors.subtext }, pageWidth / 2, pageHeight - 20, 9, { align: 'center' });
+
+  // 2. Blank pages for the table of contents, filled in once page numbers are known
+  const withAnswerKey = hasQuestions(sections);
+  const tocEntries = sections.length + (withAnswerKey ? 1 : 0);
+  const entriesPerPage = Math.floor((contentBottom - PDF_CONTENT_TOP - 16) / TOC_ENTRY_HEIGHT);
+  const tocPageCount = Math.max(1, Math.ceil(tocEntries / entriesPerPage));
+  pdf.setTopic('Contents');
+  for (let i = 0; i < tocPageCount; i++) pdf.addPage();
+  const firstTocPage = 2;
+  doc.outline.add(null, toPdfTextString('Contents'), { pageNumber: firstTocPage });
+
+  const toc: { title: string; page: number }[] = [];
+
+  // 3. Sections
+  const columnWidth = (contentWidth - 4) / 2;
+  const textWidth = columnWidth - PDF_CELL_PADDING * 2;
+  const rowLineHeight = lineHeight(PDF_BODY_SIZE);
+
+  const drawTableHeader = () => {
+    const height = lineHeight(PDF_BODY_SIZE) + PDF_CELL_PADDING * 2;
+    doc.setFillColor(colors.primary);
+    doc.rect(PDF_MARGIN, cursor.y, contentWidth, height, 'F');
+    drawLine({ text: primaryLang.notesLabel, font: fontFor(primaryLang.notesLabel), color: '#ffffff' }, PDF_MARGIN + PDF_CELL_PADDING, cursor.y + PDF_CELL_PADDING);
+    drawLine(
+      { text: secondaryLang.notesLabel, font: fontFor(secondaryLang.notesLabel, languages.secondary), color: '#ffffff' },
+      PDF_MARGIN + columnWidth + 4 + PDF_CELL_PADDING,
+      cursor.y + PDF_CELL_PADDING
+    );
+    cursor.y += height;
+  };
+
+  // A row that fits on a fresh page moves there whole; taller rows are split line by line
+  const drawRow = (left: PdfLine[], right: PdfLine[]) => {
+    const rowHeight = (lines: number) => lines * rowLineHeight + PDF_CELL_PADDING * 2;
+    const fullHeight = rowHeight(Math.max(left.length, right.length));
+    const freshPageSpace = contentBottom - PDF_CONTENT_TOP - rowHeight(1);
+    if (cursor.y + fullHeight > contentBottom && fullHeight <= freshPageSpace) {
+      pdf.addPage();
+      drawTableHeader();
+    }
+
+    let leftIndex = 0;
+    let rightIndex = 0;
+    while (leftIndex < left.length || rightIndex < right.length) {
+      const fit = Math.floor((contentBottom - cursor.y - PDF_CELL_PADDING * 2) / rowLineHeight);
+      if (fit < 1) {
+        pdf.addPage();
+        drawTableHeader();
+        continue;
+      }
+      const leftSlice = left.slice(leftIndex, leftIndex + fit);
+      const rightSlice = right.slice(rightIndex, rightIndex + fit);
+      const height = rowHeight(Math.max(leftSlice.length, rightSlice.length, 1));
+
+      doc.setFillColor(colors.card);
+      doc.rect(PDF_MARGIN, cursor.y, columnWidth, height, 'F');
+      doc.setFillColor(colors.secondary);
+      doc.rect(PDF_MARGIN + columnWidth + 4, cursor.y, columnWidth, height, 'F');
+      leftSlice.forEach((line, i) => drawLine(line, PDF_MARGIN + PDF_CELL_PADDING, cursor.y + PDF_CELL_PADDING + i * rowLineHeight));
+      rightSlice.forEach((line, i) => drawLine(line, PDF_MARGIN + columnWidth + 4 + PDF_CELL_PADDING, cursor.y + PDF_CELL_PADDING + i * rowLineHeight));
+      doc.setDrawColor(colors.border);
+      doc.line(PDF_MARGIN, cursor.y + height, PDF_MARGIN + contentWidth, cursor.y + height);
+
+      cursor.y += height;
+      leftIndex += leftSlice.length;
+      rightIndex += rightSlice.length;
+      if (leftIndex < left.length || rightIndex < right.length) {
+        pdf.addPage();
+        drawTableHeader();
+      }
+    }
+  };
+
+  const startSection = (title: string) => {
+    pdf.ensureSpace(40);
+    pdf.setTopic(title);
+    const page = pdf.currentPage();
+    toc.push({ title, page });
+    doc.outline.add(null, toPdfTextString(title), { pageNumber: page });
+
+    pdf.drawHeading(title, 16, colors.primary, 20);
+    doc.setDrawColor(colors.secondary);
+    doc.setLineWidth(0.8);
+    doc.line(PDF_MARGIN, cursor.y, PDF_MARGIN + contentWidth, cursor.y);
+    doc.setLineWidth(0.2);
+    cursor.y += 5;
+  };
+
+  pdf.addPage();
+  for (const [sIdx, section] of sections.entries()) {
+    if (sIdx > 0) cursor.y += 8;
+    startSection(section.topic);
+
+    for (const src of section.images || []) {
+      const blob = await fetchImageBlob(src);
+      if (!blob) continue;
+      const dataUrl = await blobToDataUrl(blob);
+      const props = doc.getImageProperties(dataUrl);
+      const scale = Math.min(contentWidth / props.width, PDF_MAX_IMAGE_HEIGHT / props.height);
+      const width = props.width * scale;
+      const height = props.height * scale;
+      pdf.ensureSpace(height + 4);
+      doc.addImage(dataUrl, props.fileType, PDF_MARGIN + (contentWidth - width) / 2, cursor.y, width, height);
+      cursor.y += height + 4;
+    }
+
+    if (section.visualSummary) {
+      const lines = toLines(section.visualSummary, contentWidth - 6, colors.subtext);
+      const height = lines.length * rowLineHeight;
+      if (height <= contentBottom - PDF_CONTENT_TOP) pdf.ensureSpace(height);
+      doc.setFillColor(colors.primary);
+      doc.rect(PDF_MARGIN, cursor.y, 1, Math.min(height, contentBottom - cursor.y), 'F');
+      pdf.writeLines(lines, PDF_MARGIN + 5, PDF_BODY_SIZE, 4);
+    }
+
+    pdf.ensureSpace(rowLineHeight * 3 + PDF_CELL_PADDING * 4);
+    drawTableHeader();
+    section.content.forEach((point, pIdx) => {
+      const left = [
+        ...(point.keyTerm ? toLines(point.keyTerm, textWidth, colors.primary) : []),
+        ...toLines(toPdfText(point.primary), textWidth, colors.text),
+        ...getAnnotationLines(annotations?.[getPointKey(sIdx, pIdx)]).flatMap(line => toLines(line, textWidth, colors.primary)),
+      ];
+      const right = toLines(toPdfText(point.secondary), textWidth, colors.text, languages.secondary);
+      drawRow(left, right);
+    });
+    cursor.y += 4;
+
+    if (section.questions && section.questions.length > 0) {
+      pdf.drawHeading('Exam Questions', 12, colors.text, rowLineHeight * 3);
+      section.questions.forEach((question, qIdx) => {
+        const hint = getQuestionHint(question);
+        const stem = toLines(`${qIdx + 1}. ${toPdfText(question.question)}${hint ? ` (${hint})` : ''}`, contentWidth, colors.text);
+        const choices = getQuestionChoiceLines(question);
+        pdf.ensureSpace(Math.min(stem.length + choices.length, 8) * rowLineHeight);
+        pdf.writeLines(stem, PDF_MARGIN, PDF_BODY_SIZE, 0);
+        choices.forEach(line =>
+          pdf.writeLines(toLines(toPdfText(line), contentWidth - 6, colors.text), PDF_MARGIN + 6, PDF_BODY_SIZE, 0)
+        );
+        cursor.y += 3;
+      });
+    }
+  }
+
+  // 4. Answer key
+  if (withAnswerKey) {
+    pdf.setTopic('Answer Key');
+    pdf.addPage();
+    startSection('Answer Key');
+    sections.forEach(section => {
+      if (!section.questions || section.questions.length === 0) return;
+      pdf.drawHeading(section.topic, 12, colors.text, rowLineHeight * 2);
+      section.questions.forEach((question, qIdx) =>
+        pdf.writeLines(toLines(`${qIdx + 1}. ${toPdfText(formatCorrectAnswer(question))} — ${toPdfText(question.explanation)}`, contentWidth, colors.text), PDF_MARGIN, PDF_BODY_SIZE, 1)
+      );
+      cursor.y += 3;
+    });
+  }
+
+  // 5. Table of contents, linked to the section pages
+  toc.forEach((entry, i) => {
+    doc.setPage(firstTocPage + Math.floor(i / entriesPerPage));
+    if (i % entriesPerPage === 0) {
+      drawLine({ text: 'Contents', font: 'helvetica', color: colors.primary }, PDF_MARGIN, PDF_CONTENT_TOP, 18);
+    }
+    const entryY = PDF_CONTENT_TOP + 16 + (i % entriesPerPage) * TOC_ENTRY_HEIGHT;
+    drawLine({ text: pdf.truncate(entry.title, 11, contentWidth - 20), font: fontFor(entry.title), color: colors.text }, PDF_MARGIN, entryY, 11);
+    drawLine({ text: String(entry.page), font: 'helvetica', color: colors.subtext }, pageWidth - PDF_MARGIN, entryY, 11, { align: 'right' });
+    doc.setDrawColor(colors.border);
+    doc.line(PDF_MARGIN, entryY + TOC_ENTRY_HEIGHT - 2, pageWidth - PDF_MARGIN, entryY + TOC_ENTRY_HEIGHT - 2);
+    doc.link(PDF_MARGIN, entryY - 1, contentWidth, TOC_ENTRY_HEIGHT, { pageNumber: entry.page });
+  });
+
+  // 6. Running headers and page numbers (not on the title page)
+  pdf.drawRunningHeaders(cleanName, 2);
+
+  doc.save(`${cleanName}_StudyGuide.pdf`);
+};
+
+// --- Exam papers (PDF, DOCX) ---
+// The paper (questions and an answer sheet) and its answer key are separate
+// files, so the key is never printed with the handouts by accident.
+
+const ANSWER_SHEET_ROW_HEIGHT = 8;
+const ANSWER_SHEET_COLUMNS = 3;
+
+// Bubble labels on the answer sheet; written answers get a line instead
+const getSheetChoices = (question: ExamQuestion): string[] | null => {
+  switch (question.type) {
+    case 'mcq':
+    case 'multiSelect':
+      return question.options.map((_, index) => optionLetter(index));
+    case 'trueFalse':
+      return ['T', 'F'];
+    default:
+      return null;
   }
+};
+
+const PAPER_INSTRUCTIONS = 'Mark choice questions on the answer sheet and write other answers next to their number.';
+
+const getPaperFileName = (paper: ExamPaper, kind: 'Exam' | 'AnswerKey', extension: string) =>
+  `${paper.title}_${kind}_${paper.seed}.${extension}`;
+
+export const exportExamPaperPdf = async (paper: ExamPaper, theme: AppTheme) => {
+  const versionLabel = `Version ${paper.seed}`;
+  const pdf = await createPdfLayout(theme, paper.languages);
+  const { doc, cursor, colors, contentWidth, toLines, drawLine } = pdf;
+  const rowLineHeight = pdf.lineHeight(PDF_BODY_SIZE);
+
+  const drawNameFields = () => {
+    const fieldWidth = contentWidth / 3;
+    ['Name', 'Date', 'Score'].forEach((label, i) => {
+      const x = PDF_MARGIN + i * fieldWidth;
+      drawLine({ text: `${label}:`, font: 'helvetica', color: colors.text }, x, cursor.y);
+      doc.setDrawColor(colors.subtext);
+      doc.line(x + 14, cursor.y + 4.5, x + fieldWidth - 6, cursor.y + 4.5);
+    });
+    cursor.y += 12;
+  };
+
+  // 1. Questions
+  pdf.setTopic(versionLabel);
+  pdf.drawHeading(paper.title, 18, colors.primary, 0);
+  pdf.writeLines(toLines(`Exam · ${paper.questions.length} questions · ${versionLabel}`, contentWidth, colors.subtext), PDF_MARGIN, PDF_BODY_SIZE, 6);
+  drawNameFields();
+  pdf.writeLines(toLines(PAPER_INSTRUCTIONS, contentWidth, colors.subtext), PDF_MARGIN, PDF_BODY_SIZE, 6);
+
+  paper.questions.forEach(question => {
+    const hint = getQuestionHint(question.question);
+    const stem = toLines(`${question.number}. ${toPdfText(question.question.question)}${hint ? ` (${hint})` : ''}`, contentWidth, colors.text);
+    const secondary = question.questionSecondary
+      ? toLines(toPdfText(question.questionSecondary), contentWidth - 6, colors.subtext, paper.languages.secondary)
+      : [];
+    const options = getQuestionChoiceLines(question.question).map(line => toLines(toPdfText(line), contentWidth - 6, colors.text));
+
+    // Keep a question on one page unless it is longer than a page
+    const height = (stem.length + secondary.length + options.flat().length) * rowLineHeight + 2;
+    if (height <= pdf.contentBottom - PDF_CONTENT_TOP) pdf.ensureSpace(height);
+    pdf.writeLines(stem, PDF_MARGIN, PDF_BODY_SIZE, 0);
+    if (secondary.length > 0) pdf.writeLines(secondary, PDF_MARGIN + 6, PDF_BODY_SIZE, 1);
+    options.forEach(lines => pdf.writeLines(lines, PDF_MARGIN + 6, PDF_BODY_SIZE, 0));
+    cursor.y += 5;
+  });
+
+  // 2. Blank answer sheet: one row of lettered bubbles (or a writing line) per question, filled column by column
+  pdf.setTopic('Answer Sheet');
+  pdf.addPage();
+  pdf.drawHeading('Answer Sheet', 16, colors.primary, 0);
+  pdf.writeLines(toLines(`${paper.title} · ${versionLabel}`, contentWidth, colors.subtext), PDF_MARGIN, PDF_BODY_SIZE, 6);
+  drawNameFields();
+
+  const columnWidth = contentWidth / ANSWER_SHEET_COLUMNS;
+  let index = 0;
+  while (index < paper.questions.length) {
+    const rowsPerColumn = Math.max(1, Math.floor((pdf.contentBottom - cursor.y) / ANSWER_SHEET_ROW_HEIGHT));
+    const top = cursor.y;
+    for (let column = 0; column < ANSWER_SHEET_COLUMNS && index < paper.questions.length; column++) {
+      for (let row = 0; row < rowsPerColumn && index < paper.questions.length; row++, index++) {
+        const question = paper.questions[index];
+        const x = PDF_MARGIN + column * columnWidth;
+        const y = top + row * ANSWER_SHEET_ROW_HEIGHT;
+        drawLine({ text: `${question.number}.`, font: 'helvetica', color: colors.text }, x + 8, y, PDF_BODY_SIZE, { align: 'right' });
+        const choices = getSheetChoices(question.question);
+        doc.setDrawColor(colors.subtext);
+        if (!choices) doc.line(x + 11, y + 4.5, x + columnWidth - 4, y + 4.5);
+        choices?.forEach((label, oIdx) => {
+          const cx = x + 14 + oIdx * 8;
+          doc.circle(cx, y + 1.8, 2.6, 'S');
+          drawLine({ text: label, font: 'helvetica', color: colors.subtext }, cx, y + 0.4, 7, { align: 'center' });
+        });
+      }
+    }
+    if (index < paper.questions.length) pdf.addPage();
+  }
+
+  pdf.drawRunningHeaders(paper.title, 1);
+  doc.save(getPaperFileName(paper, 'Exam', 'pdf'));
+
+  // 3. Answer key
+  const key = await createPdfLayout(theme, paper.languages);
+  key.setTopic(`Answer Key · ${versionLabel}`);
+  key.drawHeading(`${paper.title} – Answer Key`, 18, colors.primary, 0);
+  key.writeLines(key.toLines(versionLabel, contentWidth, colors.subtext), PDF_MARGIN, PDF_BODY_SIZE, 6);
+  paper.questions.forEach(question => {
+    const answer = key.toLines(`${question.number}. ${toPdfText(formatCorrectAnswer(question.question))}`, contentWidth, colors.primary);
+    const explanation = key.toLines(toPdfText(question.question.explanation), contentWidth - 6, colors.text);
+    const topic = key.toLines(question.topic, contentWidth - 6, colors.subtext);
+    key.ensureSpace((answer.length + Math.min(explanation.length, 4) + 1) * rowLineHeight);
+    key.writeLines(answer, PDF_MARGIN, PDF_BODY_SIZE, 0);
+    key.writeLines(explanation, PDF_MARGIN + 6, PDF_BODY_SIZE, 0);
+    key.writeLines(topic, PDF_MARGIN + 6, 8, 4);
+  });
+  key.drawRunningHeaders(paper.title, 1);
+  key.doc.save(getPaperFileName(paper, 'AnswerKey', 'pdf'));
+};
+
+export const exportExamPaperDocx = async (paper: ExamPaper, theme: AppTheme) => {
+  if (!window.JSZip) {
+    throw new Error("DOCX generator not loaded");
+  }
+
+  const versionLabel = `Version ${paper.seed}`;
+  const primaryStyle: DocxRunStyle = { font: LANGUAGES[paper.languages.primary].pptxFont };
+  const secondaryStyle: DocxRunStyle = { font: LANGUAGES[paper.languages.secondary].pptxFont, color: theme.colors.subtext };
+  const nameFields = docxParagraph(docxRun('Name: ____________________    Date: ____________    Score: ________'), '<w:spacing w:before="240" w:after="240"/>');
+  const docxType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+  // 1. Questions and answer sheet
+  const body: string[] = [
+    docxParagraph(docxRun(paper.title), '<w:pStyle w:val="Title"/>'),
+    docxParagraph(docxRun(`Exam · ${paper.questions.length} questions · ${versionLabel}`, { color: theme.colors.subtext, italic: true })),
+    nameFields,
+    docxParagraph(docxRun(PAPER_INSTRUCTIONS, { italic: true })),
+  ];
+
+  paper.questions.forEach(question => {
+    const hint = getQuestionHint(question.question);
+    body.push(docxParagraph(
+      docxRun(`${question.number}. `, { ...primaryStyle, bold: true }) + markdownToDocxRuns(question.question.question, primaryStyle) +
+      (hint ? docxRun(` (${hint})`, { ...primaryStyle, italic: true }) : ''),
+      '<w:keepNext/><w:spacing w:before="200" w:after="40"/>'
+    ));
+    if (question.questionSecondary) {
+      body.push(docxParagraph(markdownToDocxRuns(question.questionSecondary, secondaryStyle), '<w:keepNext/><w:ind w:left="360"/>'));
+    }
+    const choices = getQuestionChoiceLines(question.question);
+    choices.forEach((line, lineIdx) => body.push(docxParagraph(
+      markdownToDocxRuns(line, primaryStyle),
+      `${lineIdx < choices.length - 1 ? '<w:keepNext/>' : ''}<w:ind w:left="360"/><w:spacing w:after="0"/>`
+    )));
+  });
+
+  const border = `<w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV']
+    .map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="${cleanHex(theme.colors.border)}"/>`).join('')}</w:tblBorders>`;
+  const sheetRows = Math.ceil(paper.questions.length / 2);
+  const sheetCell = (question?: PaperQuestion) => {
+    if (!question) return docxCell(docxParagraph(''));
+    const choices = getSheetChoices(question.question);
+    return docxCell(docxParagraph(
+      docxRun(`${question.number}.   `, { bold: true }) + docxRun(choices ? choices.map(label => `○ ${label}`).join('    ') : '_______________________')
+    ));
+  };
+  body.push(
+    docxParagraph('<w:r><w:br w:type="page"/></w:r>'),
+    docxHeading('Answer Sheet', 1),
+    docxParagraph(docxRun(`${paper.title} · ${versionLabel}`, { color: theme.colors.subtext })),
+    nameFields,
+    `<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/>${border}<w:tblLayout w:type="fixed"/></w:tblPr><w:tblGrid><w:gridCol w:w="4819"/><w:gridCol w:w="4819"/></w:tblGrid>` +
+    Array.from({ length: sheetRows }, (_, row) =>
+      `<w:tr><w:trPr><w:trHeight w:val="420"/></w:trPr>${sheetCell(paper.questions[row])}${sheetCell(paper.questions[row + sheetRows])}</w:tr>`
+    ).join('') +
+    `</w:tbl>`
+  );
+
+  const examBlob = await buildDocxPackage(new window.JSZip(), body, [], new Set(), paper.title, theme, paper.languages);
+  downloadFile(examBlob, getPaperFileName(paper, 'Exam', 'docx'), docxType);
+
+  // 2. Answer key
+  const headerCell = (text: string, widthPercent: number) => docxCell(docxParagraph(docxRun(text, { bold: true, color: '#FFFFFF' })), theme.colors.primary, widthPercent);
+  const keyRows = paper.questions.map(question =>
+    `<w:tr><w:trPr><w:cantSplit/></w:trPr>` +
+    docxCell(docxParagraph(docxRun(`${question.number}.`, { bold: true, color: theme.colors.primary })), undefined, 15) +
+    docxCell(
+      docxParagraph(docxRun(formatCorrectAnswer(question.question), { ...primaryStyle, bold: true, color: theme.colors.primary })) +
+      docxParagraph(markdownToDocxRuns(question.question.explanation, primaryStyle)) +
+      docxParagraph(docxRun(question.topic, { color: theme.colors.subtext, size: 16 })),
+      undefined,
+      85
+    ) +
+    `</w:tr>`
+  ).join('');
+  const keyBody = [
+    docxParagraph(docxRun(`${paper.title} – Answer Key`), '<w:pStyle w:val="Title"/>'),
+    docxParagraph(docxRun(versionLabel, { color: theme.colors.subtext, italic: true })),
+    `<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/>${border}<w:tblLayout w:type="fixed"/><w:tblCellMar><w:top w:w="60" w:type="dxa"/><w:left w:w="120" w:type="dxa"/><w:bottom w:w="60" w:type="dxa"/><w:right w:w="120" w:type="dxa"/></w:tblCellMar></w:tblPr>` +
+    `<w:tblGrid><w:gridCol w:w="1446"/><w:gridCol w:w="8192"/></w:tblGrid>` +
+    `<w:tr><w:trPr><w:tblHeader/></w:trPr>${headerCell('No.', 15)}${headerCell('Answer', 85)}</w:tr>${keyRows}</w:tbl>`,
+  ];
 
-  doc.save(`${fileName.replace(/\.[^/.]+$/, "")}_StudyGuide.pdf`);
+  const keyBlob = await buildDocxPackage(new window.JSZip(), keyBody, [], new Set(), `${paper.title} – Answer Key`, theme, paper.languages);
+  downloadFile(keyBlob, getPaperFileName(paper, 'AnswerKey', 'docx'), docxType);
 };
@@ -1,25 +1,46 @@
 
-import { ParsedResult } from "../types";
+import { ParsedResult, LanguagePair } from "../types";
+import { createOcrSession, OcrSession } from "./ocrService";
 
 // We rely on the global window objects for these libraries to avoid bundler complexity.
 
-export const extractTextFromFile = async (file: File): Promise<ParsedResult> => {
+// Reports slow steps (e.g. OCR) so the upload screen can show what is happening
+export type ParseProgress = (message: string) => void;
+
+export const SUPPORTED_EXTENSIONS = ['.pdf', '.pptx', '.docx', '.md', '.markdown', '.txt', '.html', '.htm'];
+
+// languages picks the OCR language data for scanned pages
+export const extractTextFromFile = async (file: File, languages: LanguagePair, onProgress?: ParseProgress): Promise<ParsedResult> => {
   const fileType = file.type;
   const fileName = file.name.toLowerCase();
 
   if (fileType === 'application/pdf' || fileName.endsWith('.pdf')) {
-    return extractPdfText(file);
+    return extractPdfText(file, languages, onProgress);
   } else if (
     fileType === 'application/vnd.openxmlformats-officedocument.presentationml.presentation' ||
     fileName.endsWith('.pptx')
   ) {
     return extractPptxText(file);
+  } else if (
+    fileType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
+    fileName.endsWith('.docx')
+  ) {
+    return extractDocxText(file);
+  } else if (fileType === 'text/html' || fileName.endsWith('.html') || fileName.endsWith('.htm')) {
+    return extractHtmlText(await file.text());
+  } else if (fileType === 'text/markdown' || fileName.endsWith('.md') || fileName.endsWith('.markdown')) {
+    return extractMarkdownText(await file.text());
+  } else if (fileType === 'text/plain' || fileName.endsWith('.txt')) {
+    return extractPlainText(await file.text());
   } else {
-    throw new Error('Unsupported file format. Please upload a PDF or PPTX.');
+    throw new Error('Unsupported file format. Please upload a PDF, PPTX, DOCX, Markdown, HTML or text file.');
   }
 };
 
-const extractPdfText = async (file: File): Promise<ParsedResult> => {
+// Pages with less extracted text than this are treated as scanned and sent to OCR
+const MIN_PAGE_TEXT_LENGTH = 20;
+
+const extractPdfText = async (file: File, languages: LanguagePair, onProgress?: ParseProgress): Promise<ParsedResult> => {
   const arrayBuffer = await file.arrayBuffer();
   
   if (!window.pdfjsLib) {
@@ -32,43 +53,157 @@ const extractPdfText = async (file: File): Promise<ParsedResult> => {
   let fullText = "";
   const imageMap: Record<number, string[]> = {}; 
 
-  for (let i = 1; i <= pdf.numPages; i++) {
-    const page = await pdf.getPage(i);
-    
-    // 1. Extract Text
-    const textContent = await page.getTextContent();
-    const pageText = textContent.items.map((item: any) => item.str).join(" ");
-    if (pageText.trim().length > 0) {
-        fullText += `--- Page ${i} ---\n${pageText}\n\n`;
-    }
+  // Started lazily on the first page without a text layer, then reused
+  let ocr: OcrSession | null = null;
+  let ocrUnavailable = false;
+
+  try {
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      
+      // 1. Extract Text
+      const textContent = await page.getTextContent();
+      let pageText = textContent.items.map((item: any) => item.str).join(" ");
+
+      // 2. Render Page as Image (to capture formulas, diagrams, etc.)
+      // We limit scale to 1.5 to balance quality vs memory/storage
+      try {
+          const viewport = page.getViewport({ scale: 1.5 });
+          const canvas = document.createElement('canvas');
+          const context = canvas.getContext('2d');
+          canvas.height = viewport.height;
+          canvas.width = viewport.width;
 
-    // 2. Render Page as Image (to capture formulas, diagrams, etc.)
-    // We limit scale to 1.5 to balance quality vs memory/storage
-    try {
-        const viewport = page.getViewport({ scale: 1.5 });
-        const canvas = document.createElement('canvas');
-        const context = canvas.getContext('2d');
-        canvas.height = viewport.height;
-        canvas.width = viewport.width;
-
-        await page.render({ canvasContext: context, viewport: viewport }).promise;
-        
-        // Convert to JPEG with 0.8 quality to save space
-        const imgUrl = canvas.toDataURL('image/jpeg', 0.8);
-        imageMap[i] = [imgUrl];
-    } catch (e) {
-        console.warn(`Failed to render page ${i} as image`, e);
+          await page.render({ canvasContext: context, viewport: viewport }).promise;
+          
+          // Convert to JPEG with 0.8 quality to save space
+          const imgUrl = canvas.toDataURL('image/jpeg', 0.8);
+          imageMap[i] = [imgUrl];
+      } catch (e) {
+          console.warn(`Failed to render page ${i} as image`, e);
+      }
+
+      // 3. OCR the rendered image when the page has no usable text layer
+      if (pageText.trim().length < MIN_PAGE_TEXT_LENGTH && imageMap[i] && !ocrUnavailable) {
+        onProgress?.(`Recognizing text on scanned page ${i} of ${pdf.numPages}...`);
+        try {
+          if (!ocr) ocr = await createOcrSession(languages);
+          const recognized = await ocr.recognize(imageMap[i][0]);
+          if (recognized.length > pageText.trim().length) pageText = recognized;
+        } catch (e) {
+          console.warn(`OCR failed on page ${i}`, e);
+          // Without a worker there is no point trying the remaining pages
+          if (!ocr) ocrUnavailable = true;
+        }
+      }
+
+      if (pageText.trim().length > 0) {
+          fullText += `--- Page ${i} ---\n${pageText}\n\n`;
+      }
     }
+  } finally {
+    await ocr?.terminate();
   }
 
-  // Fallback if document is scanned or empty text
   if (fullText.length < 50) {
-     throw new Error("This document appears to be empty or scanned images without OCR. Please try a document with selectable text.");
+     throw new Error(ocrUnavailable
+       ? "This document appears to be scanned and text recognition could not be started. Please check your connection and try again."
+       : "No readable text was found in this document, even after text recognition.");
   }
 
   return { text: fullText, imageMap };
 };
 
+// --- PPTX ---
+// Each slide becomes Markdown-ish text: "# Title", nested "- " bullets from the
+// paragraph level, tables as Markdown tables and a "Speaker notes:" block.
+
+const TITLE_PLACEHOLDERS = ['title', 'ctrTitle'];
+
+// Text of one <a:p>, keeping line breaks
+const readDrawingParagraph = (paragraph: Element): string => {
+  let text = "";
+  const nodes = paragraph.getElementsByTagName("*");
+  for (let i = 0; i < nodes.length; i++) {
+    if (nodes[i].tagName === "a:t") text += nodes[i].textContent || "";
+    else if (nodes[i].tagName === "a:br") text += "\n";
+  }
+  return text.trim();
+};
+
+const getPlaceholderType = (shape: Element): string | null => {
+  const placeholder = shape.getElementsByTagName("p:ph")[0];
+  if (!placeholder) return null;
+  return placeholder.getAttribute("type") || 'body';
+};
+
+// Paragraphs of a text body as (nested) bullets; paragraphs with bullets turned off stay plain
+const readBulletText = (txBody: Element, asBullets: boolean): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of Array.from(txBody.getElementsByTagName("a:p"))) {
+    const text = readDrawingParagraph(paragraph);
+    if (!text) continue;
+    const pPr = paragraph.getElementsByTagName("a:pPr")[0];
+    const level = parseInt(pPr?.getAttribute("lvl") || '0');
+    const hasBullet = pPr
+      ? pPr.getElementsByTagName("a:buNone").length === 0 &&
+        (asBullets || pPr.getElementsByTagName("a:buChar").length > 0 || pPr.getElementsByTagName("a:buAutoNum").length > 0)
+      : asBullets;
+    lines.push(hasBullet ? `${'  '.repeat(level)}- ${text.replace(/\n/g, ' ')}` : text);
+  }
+  return lines;
+};
+
+const readTable = (table: Element): string[] => {
+  const rows = Array.from(table.getElementsByTagName("a:tr")).map(row =>
+    Array.from(row.getElementsByTagName("a:tc")).map(cell =>
+      Array.from(cell.getElementsByTagName("a:p")).map(readDrawingParagraph).filter(Boolean).join(' ').replace(/\|/g, '/')
+    )
+  );
+  if (rows.length === 0) return [];
+
+  const columns = Math.max(...rows.map(row => row.length));
+  const toLine = (cells: string[]) => `| ${Array.from({ length: columns }, (_, i) => cells[i] || '').join(' | ')} |`;
+  return [toLine(rows[0]), `|${' --- |'.repeat(columns)}`, ...rows.slice(1).map(toLine)];
+};
+
+// Walk a shape tree in order; group shapes are flattened
+const readShapeTree = (tree: Element, slide: { title: string; lines: string[] }) => {
+  for (const shape of Array.from(tree.children)) {
+    if (shape.tagName === "p:grpSp") {
+      readShapeTree(shape, slide);
+    } else if (shape.tagName === "p:sp") {
+      const txBody = shape.getElementsByTagName("p:txBody")[0];
+      if (!txBody) continue;
+      const placeholder = getPlaceholderType(shape);
+      if (placeholder && TITLE_PLACEHOLDERS.includes(placeholder) && !slide.title) {
+        slide.title = Array.from(txBody.getElementsByTagName("a:p")).map(readDrawingParagraph).filter(Boolean).join(' ');
+      } else {
+        // Body placeholders are bulleted by the layout; free text boxes only when they say so
+        const lines = readBulletText(txBody, placeholder === 'body' || placeholder === 'obj');
+        if (lines.length > 0) slide.lines.push(...lines, '');
+      }
+    } else if (shape.tagName === "p:graphicFrame") {
+      const table = shape.getElementsByTagName("a:tbl")[0];
+      if (table) {
+        const lines = readTable(table);
+        if (lines.length > 0) slide.lines.push(...lines, '');
+      }
+    }
+  }
+};
+
+// Text of the notes placeholder on a notes slide (slide image and number placeholders are skipped)
+const readSpeakerNotes = (notesDoc: Document): string => {
+  const lines: string[] = [];
+  for (const shape of Array.from(notesDoc.getElementsByTagName("p:sp"))) {
+    if (getPlaceholderType(shape) !== 'body') continue;
+    const txBody = shape.getElementsByTagName("p:txBody")[0];
+    if (txBody) lines.push(...readBulletText(txBody, false));
+  }
+  return lines.join('\n').trim();
+};
+
 const extractPptxText = async (file: File): Promise<ParsedResult> => {
   if (!window.JSZip) {
     throw new Error("JSZip library not loaded.");
@@ -95,25 +230,24 @@ const extractPptxText = async (file: File): Promise<ParsedResult> => {
   });
 
   let fullText = "";
+  const parser = new DOMParser();
 
-  // 3. Process each slide for Text AND Images
+  // 3. Process each slide for Text, Notes AND Images
   for (const filename of slideFiles) {
     const slideIndex = parseInt(filename.match(/slide(\d+)\.xml/)![1]);
     
-    // A. Text Extraction
+    // A. Structured text: title, bullets and tables
     const slideXml = await content.files[filename].async("string");
-    const parser = new DOMParser();
     const xmlDoc = parser.parseFromString(slideXml, "application/xml");
-    
-    const textNodes = xmlDoc.getElementsByTagName("a:t");
-    let slideText = "";
-    for (let i = 0; i < textNodes.length; i++) {
-      slideText += textNodes[i].textContent + " ";
-    }
-    
-    fullText += `--- Slide ${slideIndex} ---\n${slideText}\n\n`;
 
-    // B. Image Extraction via Relationships
+    const slide = { title: '', lines: [] as string[] };
+    const spTree = xmlDoc.getElementsByTagName("p:spTree")[0];
+    if (spTree) readShapeTree(spTree, slide);
+
+    let slideText = slide.title ? `# ${slide.title}\n` : '';
+    slideText += slide.lines.join('\n').trim();
+
+    // B. Speaker notes and images via Relationships
     // The relationships file is at ppt/slides/_rels/slideX.xml.rels
     const relsFileName = filename.replace('ppt/slides/', 'ppt/slides/_rels/') + '.rels';
     const relsFile = content.files[relsFileName];
@@ -128,12 +262,18 @@ const extractPptxText = async (file: File): Promise<ParsedResult> => {
       for (let i = 0; i < relationships.length; i++) {
         const type = relationships[i].getAttribute("Type");
         const target = relationships[i].getAttribute("Target");
-        
-        // Check if it is an image relationship
-        if (type && type.includes("/image") && target) {
-          // Target is usually like "../media/image1.png"
-          // We need to resolve this path relative to the zip root
-          const cleanTarget = target.replace('../', 'ppt/');
+        if (!type || !target) continue;
+
+        // Targets are relative to ppt/slides/, e.g. "../media/image1.png"
+        const cleanTarget = target.replace('../', 'ppt/');
+
+        if (type.endsWith("/notesSlide")) {
+          const notesFile = content.files[cleanTarget];
+          if (notesFile) {
+            const notes = readSpeakerNotes(parser.parseFromString(await notesFile.async("string"), "application/xml"));
+            if (notes) slideText += `\n\nSpeaker notes:\n${notes}`;
+          }
+        } else if (type.includes("/image")) {
           const imageFile = content.files[cleanTarget];
           
           if (imageFile) {
@@ -144,7 +284,301 @@ const extractPptxText = async (file: File): Promise<ParsedResult> => {
         }
       }
     }
+
+    fullText += `--- Slide ${slideIndex} ---\n${slideText}\n\n`;
+  }
+
+  return { text: fullText, imageMap };
+};
+
+// --- Text documents (DOCX, Markdown, HTML, TXT) ---
+// These have no pages, so they are split at their top-level headings into
+// "--- Section N ---" blocks. Images are keyed by the section they appear in.
+
+type DocBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'text'; text: string }
+  | { type: 'image'; url: string };
+
+interface DocSection {
+  lines: string[];
+  length: number;
+  images: string[];
+}
+
+// Headings at this level or above start a new section; deeper ones stay inside it
+const SECTION_HEADING_LEVEL = 2;
+// Long stretches without headings (e.g. plain text) are split into sections of about this size
+const MAX_SECTION_LENGTH = 3000;
+
+const buildSectionedResult = (blocks: DocBlock[]): ParsedResult => {
+  const sections: DocSection[] = [];
+  let current: DocSection | null = null;
+  let currentTitle = '';
+
+  const startSection = (title?: string): DocSection => {
+    const section: DocSection = { lines: title ? [`# ${title}`] : [], length: 0, images: [] };
+    sections.push(section);
+    return section;
+  };
+
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      if (!block.text) continue;
+      if (block.level <= SECTION_HEADING_LEVEL) {
+        currentTitle = block.text;
+        current = startSection(block.text);
+      } else {
+        current ??= startSection();
+        current.lines.push(`${'#'.repeat(block.level)} ${block.text}`);
+      }
+    } else if (block.type === 'text') {
+      if (!block.text.trim()) continue;
+      if (!current || current.length > MAX_SECTION_LENGTH) {
+        current = startSection(currentTitle ? `${currentTitle} (continued)` : undefined);
+      }
+      current.lines.push(block.text);
+      current.length += block.text.length;
+    } else {
+      current ??= startSection();
+      current.images.push(block.url);
+    }
+  }
+
+  let fullText = "";
+  const imageMap: Record<number, string[]> = {};
+  sections
+    .filter(section => section.length > 0 || section.images.length > 0)
+    .forEach((section, idx) => {
+      const number = idx + 1;
+      fullText += `--- Section ${number} ---\n${section.lines.join('\n')}\n\n`;
+      if (section.images.length > 0) imageMap[number] = section.images;
+    });
+
+  if (fullText.trim().length === 0) {
+    throw new Error("This document appears to be empty.");
   }
 
   return { text: fullText, imageMap };
 };
+
+// Only self-contained image URLs can be read; relative paths point at files we were not given
+const isLoadableImageUrl = (url: string) => /^(data:image\/|https?:\/\/)/i.test(url);
+
+const extractDocxText = async (file: File): Promise<ParsedResult> => {
+  if (!window.JSZip) {
+    throw new Error("JSZip library not loaded.");
+  }
+
+  const zip = new window.JSZip();
+  const content = await zip.loadAsync(file);
+  const documentFile = content.files['word/document.xml'];
+  if (!documentFile) {
+    throw new Error("This Word document could not be read.");
+  }
+
+  const parser = new DOMParser();
+  const xmlDoc = parser.parseFromString(await documentFile.async("string"), "application/xml");
+
+  // 1. Map relationship IDs to embedded media (word/_rels/document.xml.rels)
+  const mediaTargets: Record<string, string> = {};
+  const relsFile = content.files['word/_rels/document.xml.rels'];
+  if (relsFile) {
+    const relsDoc = parser.parseFromString(await relsFile.async("string"), "application/xml");
+    const relationships = relsDoc.getElementsByTagName("Relationship");
+    for (let i = 0; i < relationships.length; i++) {
+      const type = relationships[i].getAttribute("Type");
+      const target = relationships[i].getAttribute("Target");
+      const id = relationships[i].getAttribute("Id");
+      if (id && target && type?.includes("/image") && relationships[i].getAttribute("TargetMode") !== "External") {
+        // Targets are relative to word/ ("media/image1.png") or absolute from the zip root
+        mediaTargets[id] = target.startsWith('/') ? target.slice(1) : `word/${target}`;
+      }
+    }
+  }
+
+  // 2. Heading level of each paragraph style (styleIds are localized, names are not)
+  const headingLevels: Record<string, number> = {};
+  const stylesFile = content.files['word/styles.xml'];
+  if (stylesFile) {
+    const stylesDoc = parser.parseFromString(await stylesFile.async("string"), "application/xml");
+    const styles = stylesDoc.getElementsByTagName("w:style");
+    for (let i = 0; i < styles.length; i++) {
+      const id = styles[i].getAttribute("w:styleId");
+      const name = styles[i].getElementsByTagName("w:name")[0]?.getAttribute("w:val") || '';
+      const match = name.match(/^heading (\d)$/i);
+      if (id && match) headingLevels[id] = parseInt(match[1]);
+      else if (id && name.toLowerCase() === 'title') headingLevels[id] = 1;
+    }
+  }
+
+  const getHeadingLevel = (paragraph: Element): number | null => {
+    const styleId = paragraph.getElementsByTagName("w:pStyle")[0]?.getAttribute("w:val");
+    if (styleId) {
+      if (headingLevels[styleId]) return headingLevels[styleId];
+      const match = styleId.match(/^Heading(\d)$/i);
+      if (match) return parseInt(match[1]);
+      if (styleId === 'Title') return 1;
+    }
+    const outline = paragraph.getElementsByTagName("w:outlineLvl")[0]?.getAttribute("w:val");
+    return outline != null && parseInt(outline) < 9 ? parseInt(outline) + 1 : null;
+  };
+
+  const blocks: DocBlock[] = [];
+  const pendingImages: string[] = [];
+
+  // Text of a paragraph or cell in document order; images are queued for the current section
+  const readRuns = (element: Element): string => {
+    let text = "";
+    const nodes = element.getElementsByTagName("*");
+    for (let i = 0; i < nodes.length; i++) {
+      const node = nodes[i];
+      switch (node.tagName) {
+        case "w:t": text += node.textContent || ""; break;
+        case "w:tab": text += "\t"; break;
+        case "w:br":
+        case "w:cr": text += "\n"; break;
+        case "a:blip":
+        case "v:imagedata": {
+          const id = node.getAttribute("r:embed") || node.getAttribute("r:id");
+          if (id && mediaTargets[id]) pendingImages.push(mediaTargets[id]);
+          break;
+        }
+      }
+    }
+    return text.trim();
+  };
+
+  // 3. Walk the body: paragraphs and tables
+  const body = xmlDoc.getElementsByTagName("w:body")[0];
+  const children = body ? Array.from(body.children) : [];
+  for (const child of children) {
+    if (child.tagName === "w:p") {
+      const text = readRuns(child);
+      const level = getHeadingLevel(child);
+      if (level) {
+        blocks.push({ type: 'heading', level, text });
+      } else {
+        const isListItem = child.getElementsByTagName("w:numPr").length > 0;
+        blocks.push({ type: 'text', text: isListItem && text ? `- ${text}` : text });
+      }
+    } else if (child.tagName === "w:tbl") {
+      const rows = Array.from(child.getElementsByTagName("w:tr"));
+      const text = rows
+        .map(row => Array.from(row.getElementsByTagName("w:tc")).map(cell => readRuns(cell).replace(/\s+/g, ' ')).join(" | "))
+        .join("\n");
+      blocks.push({ type: 'text', text });
+    }
+
+    for (const path of pendingImages.splice(0)) {
+      const imageFile = content.files[path];
+      if (imageFile) {
+        const imgBlob = await imageFile.async("blob");
+        blocks.push({ type: 'image', url: URL.createObjectURL(imgBlob) });
+      }
+    }
+  }
+
+  return buildSectionedResult(blocks);
+};
+
+const extractMarkdownText = (markdown: string): ParsedResult => {
+  const blocks: DocBlock[] = [];
+  let inCodeFence = false;
+  let previousLine = '';
+
+  for (const line of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    const isAfterText = previousLine.trim().length > 0;
+    previousLine = line;
+
+    if (/^\s*(```|~~~)/.test(line)) inCodeFence = !inCodeFence;
+
+    const heading = inCodeFence ? null : line.match(/^(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      continue;
+    }
+
+    // Setext headings: a line underlined with === or ---
+    const underline = inCodeFence ? null : line.match(/^(=+|-+)\s*$/);
+    const previous = blocks[blocks.length - 1];
+    if (underline && isAfterText && previous?.type === 'text') {
+      blocks[blocks.length - 1] = { type: 'heading', level: underline[1][0] === '=' ? 1 : 2, text: previous.text.trim() };
+      continue;
+    }
+
+    blocks.push({ type: 'text', text: line });
+    if (!inCodeFence) {
+      for (const match of line.matchAll(/!\[[^\]]*\]\(\s*<?([^)\s>]+)>?[^)]*\)/g)) {
+        if (isLoadableImageUrl(match[1])) blocks.push({ type: 'image', url: match[1] });
+      }
+    }
+  }
+
+  return buildSectionedResult(blocks);
+};
+
+const extractPlainText = (text: string): ParsedResult => {
+  const paragraphs = text.replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+  return buildSectionedResult(paragraphs.map(paragraph => ({ type: 'text', text: paragraph.trim() })));
+};
+
+const HTML_SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'NAV', 'HEAD']);
+const HTML_BLOCK_SELECTOR = 'address,article,aside,blockquote,dd,div,dl,dt,figcaption,figure,footer,h1,h2,h3,h4,h5,h6,header,hr,img,li,main,ol,p,pre,section,table,tr,ul';
+
+const extractHtmlText = (html: string): ParsedResult => {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const blocks: DocBlock[] = [];
+
+  const collapse = (text: string | null) => (text || '').replace(/\s+/g, ' ').trim();
+
+  const walk = (element: Element) => {
+    // Inline content between block elements is gathered into one paragraph
+    let inline = "";
+    const flushInline = () => {
+      if (inline.trim()) blocks.push({ type: 'text', text: collapse(inline) });
+      inline = "";
+    };
+
+    for (const node of Array.from(element.childNodes)) {
+      if (node.nodeType === Node.TEXT_NODE) {
+        inline += node.textContent;
+        continue;
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) continue;
+
+      const child = node as Element;
+      const tag = child.tagName;
+      if (HTML_SKIPPED_TAGS.has(tag)) continue;
+
+      const isBlock = child.matches(HTML_BLOCK_SELECTOR);
+      if (!isBlock && !child.querySelector(HTML_BLOCK_SELECTOR)) {
+        inline += ` ${child.textContent} `;
+        continue;
+      }
+      flushInline();
+
+      const heading = tag.match(/^H([1-6])$/);
+      if (heading) {
+        blocks.push({ type: 'heading', level: parseInt(heading[1]), text: collapse(child.textContent) });
+      } else if (tag === 'IMG') {
+        const src = child.getAttribute('src');
+        if (src && isLoadableImageUrl(src)) blocks.push({ type: 'image', url: src });
+      } else if (tag === 'TR') {
+        const cells = Array.from(child.children).map(cell => collapse(cell.textContent));
+        blocks.push({ type: 'text', text: cells.join(' | ') });
+      } else if (tag === 'PRE') {
+        blocks.push({ type: 'text', text: child.textContent || '' });
+      } else if (!child.querySelector(HTML_BLOCK_SELECTOR)) {
+        const text = collapse(child.textContent);
+        blocks.push({ type: 'text', text: tag === 'LI' && text ? `- ${text}` : text });
+      } else {
+        walk(child);
+      }
+    }
+    flushInline();
+  };
+
+  walk(doc.body);
+  return buildSectionedResult(blocks);
+};
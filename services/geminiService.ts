@@ -1,9 +1,8 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { StudySection } from "../types";
-
-// Initialize Gemini Client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { Type, Schema } from "@google/genai";
+import { StudySection, PageRange, LLMSettings, LanguagePair, LANGUAGES, QuestionMix, QuestionType } from "../types";
+import { createProvider, LLMProvider } from "./llmProviders";
+import { QUESTION_TYPES, getMixTotal, normalizeQuestions } from "./examService";
 
 // Helper to chunk text safely respecting delimiters
 function chunkText(text: string, maxLength: number): string[] {
@@ -28,136 +27,353 @@ function chunkText(text: string, maxLength: number): string[] {
   return chunks;
 }
 
-export const generateStudyGuide = async (text: string): Promise<StudySection[]> => {
-  const model = "gemini-2.5-flash";
-  // Reduced chunk size to 4000 to strictly prevent XHR/timeout errors in browser
-  const CHUNK_SIZE = 4000; 
-
-  const systemInstruction = `
-    Act as a bilingual academic expert. 
-    Analyze the provided raw text (from PDF/PPTX) and generate a comprehensive study guide.
-    
-    The input text contains markers like "--- Slide X ---".
-    
-    RULES:
-    1. Content: Deep-dive academic notes. No simple summaries. Include examples.
-    2. Topic: Must include the source marker (e.g., "Slide 5: Title").
-    3. Output: JSON format.
-    4. Exam: Generate 2 MCQs per section.
-    5. Visuals: Describe expected diagrams in 'visualSummary'.
-  `;
-
-  const responseSchema = {
-    type: Type.OBJECT,
-    properties: {
-      sections: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            topic: { 
-              type: Type.STRING, 
-              description: "Main topic with Slide/Page Ref" 
-            },
-            visualSummary: {
-              type: Type.STRING,
-              description: "Caption for visuals",
-              nullable: true
-            },
-            content: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  english: { type: Type.STRING, description: "Detailed English notes (Markdown)" },
-                  chinese: { type: Type.STRING, description: "Detailed Chinese notes (Markdown)" },
-                  keyTerm: { type: Type.STRING, nullable: true },
+// Reduced chunk size to 4000 to strictly prevent XHR/timeout errors in browser
+const CHUNK_SIZE = 4000; 
+
+// Split parsed document text into the parts sent to the model one by one
+export const chunkDocument = (text: string): string[] => chunkText(text, CHUNK_SIZE);
+
+export interface GenerationOptions {
+  startChunk?: number; // Resume from this chunk; earlier chunks are already done
+  signal?: AbortSignal;
+  onChunkStart?: (index: number, total: number) => void;
+  // Called as soon as a chunk finishes
+  onChunkComplete?: (index: number, total: number, sections: StudySection[]) => void;
+  // Called when a chunk failed every retry; generation continues with the next chunk
+  onChunkFailed?: (index: number, total: number, error: string) => void;
+}
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException("Generation cancelled", "AbortError");
+};
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === "AbortError";
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException("Generation cancelled", "AbortError"));
+  }, { once: true });
+});
+
+// How each question type is written into the flat question schema
+const QUESTION_TYPE_RULES: Record<QuestionType, string> = {
+  mcq: `"mcq": 4 'options' and the 'correctIndex' of the right one`,
+  trueFalse: `"trueFalse": a statement as 'question' and 'answer' true or false`,
+  multiSelect: `"multiSelect": 4-6 'options' and 'correctIndexes' of every right one`,
+  fillBlank: `"fillBlank": mark each blank in 'question' with "___"; 'answers' has one entry per blank, alternatives separated by "|"`,
+  shortAnswer: `"shortAnswer": a 'modelAnswer' of 1-3 sentences and 2-5 'keywords' a full answer mentions`,
+  matching: `"matching": 3-5 'pairs' of a key term and its definition`,
+};
+
+const describeQuestionMix = (mix: QuestionMix) => {
+  const types = QUESTION_TYPES.filter(type => (mix[type] || 0) > 0);
+  if (types.length === 0) return 'Exam: Do not generate questions.';
+  const counts = types.map(type => `${mix[type]} of type ${QUESTION_TYPE_RULES[type]}`);
+  return `Exam: Generate exactly ${getMixTotal(mix)} questions per section:\n     - ${counts.join('\n     - ')}`;
+};
+
+const buildSystemInstruction = (languages: LanguagePair, questionMix: QuestionMix) => {
+  const primary = LANGUAGES[languages.primary].name;
+  const secondary = LANGUAGES[languages.secondary].name;
+  return `
+  Act as a bilingual academic expert in ${primary} and ${secondary}. 
+  Analyze the provided raw text (from PDF/PPTX/DOCX/Markdown/HTML) and generate a comprehensive study guide.
+  
+  The input text contains markers like "--- Slide X ---", "--- Page X ---" or "--- Section X ---".
+  
+  RULES:
+  1. Content: Deep-dive academic notes. No simple summaries. Include examples.
+  2. Topic: Must include the source marker (e.g., "Slide 5: Title"). Set 'pageStart' and 'pageEnd' to the first and last marker number the section draws on.
+  3. Output: JSON format.
+  4. ${describeQuestionMix(questionMix)}
+  5. Visuals: Describe expected diagrams in 'visualSummary'.
+  6. Slides may end with a "Speaker notes:" block. Treat it as the lecturer's explanation and cover it in the notes.
+  7. Tables: Keep tabular data as Markdown tables ("| a | b |") in their own note.
+  8. Languages: Write every note twice, 'primary' in ${primary} and 'secondary' in ${secondary}. Topics and exam questions are in ${primary}.
+`;
+};
+
+const buildResponseSchema = (languages: LanguagePair): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    sections: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          topic: { 
+            type: Type.STRING, 
+            description: "Main topic with Slide/Page Ref" 
+          },
+          pageStart: { type: Type.INTEGER, description: "First source marker number the section covers", nullable: true },
+          pageEnd: { type: Type.INTEGER, description: "Last source marker number the section covers", nullable: true },
+          visualSummary: {
+            type: Type.STRING,
+            description: "Caption for visuals",
+            nullable: true
+          },
+          content: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                primary: { type: Type.STRING, description: `Detailed ${LANGUAGES[languages.primary].name} notes (Markdown)` },
+                secondary: { type: Type.STRING, description: `Detailed ${LANGUAGES[languages.secondary].name} notes (Markdown)` },
+                keyTerm: { type: Type.STRING, nullable: true },
+              },
+              required: ["primary", "secondary"]
+            }
+          },
+          questions: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              // One flat shape for every type; fields a type does not use are left out
+              properties: {
+                type: { type: Type.STRING, enum: QUESTION_TYPES },
+                question: { type: Type.STRING },
+                options: { 
+                  type: Type.ARRAY, 
+                  items: { type: Type.STRING },
+                  nullable: true
                 },
-                required: ["english", "chinese"]
-              }
-            },
-            questions: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  question: { type: Type.STRING },
-                  options: { 
-                    type: Type.ARRAY, 
-                    items: { type: Type.STRING }
+                correctIndex: { type: Type.INTEGER, nullable: true },
+                correctIndexes: { type: Type.ARRAY, items: { type: Type.INTEGER }, nullable: true },
+                answer: { type: Type.BOOLEAN, nullable: true },
+                answers: { type: Type.ARRAY, items: { type: Type.STRING }, nullable: true },
+                modelAnswer: { type: Type.STRING, nullable: true },
+                keywords: { type: Type.ARRAY, items: { type: Type.STRING }, nullable: true },
+                pairs: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: { term: { type: Type.STRING }, definition: { type: Type.STRING } },
+                    required: ["term", "definition"]
                   },
-                  correctIndex: { type: Type.INTEGER },
-                  explanation: { type: Type.STRING }
+                  nullable: true
                 },
-                required: ["question", "options", "correctIndex", "explanation"]
-              }
+                explanation: { type: Type.STRING }
+              },
+              required: ["type", "question", "explanation"]
             }
-          },
-          required: ["topic", "content"]
-        }
+          }
+        },
+        required: ["topic", "content"]
       }
-    },
-    required: ["sections"]
-  };
+    }
+  },
+  required: ["sections"]
+});
 
-  const chunks = chunkText(text, CHUNK_SIZE);
-  let allSections: StudySection[] = [];
-  let errorCount = 0;
+// Matches "--- Slide 3 ---" / "--- Page 3 ---" / "--- Section 3 ---" markers written by fileParser
+const MARKER_REGEX = /^--- (?:Slide|Page|Section) (\d+) ---$/gm;
 
-  console.log(`Processing document in ${chunks.length} parts...`);
-
-  for (let i = 0; i < chunks.length; i++) {
-    let retries = 0;
-    const maxRetries = 3;
-    let success = false;
-
-    while (retries < maxRetries && !success) {
-      try {
-        // Backoff delay: 1s, 3s, 5s...
-        const delay = 1000 + (retries * 2000);
-        if (i > 0 || retries > 0) await new Promise(resolve => setTimeout(resolve, delay));
-
-        const response = await ai.models.generateContent({
-          model: model,
-          contents: [
-            {
-              role: "user",
-              parts: [{ text: `Analyze Part ${i + 1}/${chunks.length}:\n\n${chunks[i]}` }]
-            }
-          ],
-          config: {
-            systemInstruction: systemInstruction,
-            responseMimeType: "application/json",
-            responseSchema: responseSchema,
-          }
-        });
-
-        const responseText = response.text;
-        if (responseText) {
-          const data = JSON.parse(responseText);
-          if (data.sections && Array.isArray(data.sections)) {
-            allSections = [...allSections, ...data.sections];
-            success = true;
-          } else {
-             throw new Error("Invalid JSON structure");
-          }
-        }
-      } catch (error) {
-        console.warn(`Chunk ${i + 1} failed (Attempt ${retries + 1}):`, error);
-        retries++;
-        if (retries >= maxRetries) {
-          errorCount++;
-        }
+// Raw text of every page/slide, keyed by its number (each block keeps its marker line)
+export const splitPageText = (text: string): Record<number, string> => {
+  const pages: Record<number, string> = {};
+  const markers = Array.from(text.matchAll(MARKER_REGEX));
+  markers.forEach((match, idx) => {
+    const end = idx + 1 < markers.length ? markers[idx + 1].index : text.length;
+    pages[parseInt(match[1])] = text.slice(match.index, end).trim();
+  });
+  return pages;
+};
+
+// First and last page/slide number referenced by markers in a chunk
+export const getChunkPageRange = (chunk: string): PageRange | null => {
+  const numbers = Array.from(chunk.matchAll(MARKER_REGEX)).map(m => parseInt(m[1]));
+  if (numbers.length === 0) return null;
+  return { start: Math.min(...numbers), end: Math.max(...numbers) };
+};
+
+// Page/slide/section numbers a section covers, from its topic ("Slide 5: ...", "Pages 3-4: ...")
+export const getTopicPages = (topic: string): number[] => {
+  const match = topic.match(/(?:Slide|Page|Section)s?\s?(\d+)(?:\s*[-–]\s*(\d+))?/i);
+  if (!match) return [];
+  const start = parseInt(match[1]);
+  const end = match[2] ? parseInt(match[2]) : start;
+  const pages: number[] = [];
+  for (let page = start; page <= Math.min(end, start + 50); page++) pages.push(page);
+  return pages;
+};
+
+// Page/slide numbers a section covers: its stored source range, else the numbers in its topic
+export const getSectionPages = (section: StudySection): number[] => {
+  if (!section.sourcePages) return getTopicPages(section.topic);
+  const pages: number[] = [];
+  for (let page = section.sourcePages.start; page <= section.sourcePages.end; page++) pages.push(page);
+  return pages;
+};
+
+// The model's page range for a section, kept only if it lies within the pages it was sent
+const readSourcePages = (section: any, chunkRange: PageRange | null): PageRange | undefined => {
+  const start = Number(section.pageStart);
+  const end = Number.isInteger(section.pageEnd) ? Number(section.pageEnd) : start;
+  const isValid = Number.isInteger(start) && start > 0 && end >= start &&
+    (!chunkRange || (start >= chunkRange.start && end <= chunkRange.end));
+  if (isValid) return { start, end };
+
+  const topicPages = getTopicPages(String(section.topic ?? ''))
+    .filter(page => !chunkRange || (page >= chunkRange.start && page <= chunkRange.end));
+  return topicPages.length > 0 ? { start: topicPages[0], end: topicPages[topicPages.length - 1] } : undefined;
+};
+
+const MAX_RETRIES = 3;
+
+// One model request with retries. Throws the last error once retries are exhausted.
+const requestSections = async (
+  provider: LLMProvider,
+  languages: LanguagePair,
+  questionMix: QuestionMix,
+  prompt: string,
+  label: string,
+  initialDelay: number,
+  signal?: AbortSignal
+): Promise<StudySection[]> => {
+  let lastError: unknown = null;
+
+  for (let retries = 0; retries < MAX_RETRIES; retries++) {
+    try {
+      // Backoff delay on retries: 3s, 5s... Otherwise the provider's pacing between chunks.
+      const delay = retries > 0 ? 1000 + (retries * 2000) : initialDelay;
+      if (delay > 0) await wait(delay, signal);
+
+      const responseText = await provider.generateJson({
+        task: 'studyGuide',
+        systemInstruction: buildSystemInstruction(languages, questionMix),
+        prompt,
+        responseSchema: buildResponseSchema(languages),
+        languages,
+        questionMix,
+        signal,
+      });
+      const data = JSON.parse(responseText);
+      if (data.sections && Array.isArray(data.sections)) {
+        const chunkRange = getChunkPageRange(prompt);
+        // Malformed questions are dropped rather than failing the whole chunk
+        return data.sections.map(({ pageStart, pageEnd, ...section }: any) => ({
+          ...section,
+          sourcePages: readSourcePages({ ...section, pageStart, pageEnd }, chunkRange),
+          questions: normalizeQuestions(section.questions),
+        }));
       }
+      throw new Error("Invalid JSON structure");
+    } catch (error) {
+      throwIfAborted(signal);
+      console.warn(`${label} failed (Attempt ${retries + 1}):`, error);
+      lastError = error;
     }
   }
 
-  if (allSections.length === 0) {
-    if (errorCount > 0) {
-        throw new Error(`Connection failed. Processed 0/${chunks.length} parts. Please try a smaller file.`);
+  throw lastError instanceof Error ? lastError : new Error(`${label} failed`);
+};
+
+export const generateStudyGuide = async (
+  chunks: string[],
+  languages: LanguagePair,
+  questionMix: QuestionMix,
+  settings: LLMSettings,
+  options: GenerationOptions = {}
+): Promise<StudySection[]> => {
+  const provider = createProvider(settings);
+  const { startChunk = 0, signal, onChunkStart, onChunkComplete, onChunkFailed } = options;
+
+  let allSections: StudySection[] = [];
+  let errorCount = 0;
+
+  console.log(`Processing document in ${chunks.length} parts (starting at part ${startChunk + 1})...`);
+
+  for (let i = startChunk; i < chunks.length; i++) {
+    throwIfAborted(signal);
+    onChunkStart?.(i, chunks.length);
+
+    try {
+      const chunkSections = await requestSections(
+        provider,
+        languages,
+        questionMix,
+        `Analyze Part ${i + 1}/${chunks.length}:\n\n${chunks[i]}`,
+        `Chunk ${i + 1}`,
+        i > startChunk ? provider.requestDelayMs : 0,
+        signal
+      );
+      allSections = [...allSections, ...chunkSections];
+      onChunkComplete?.(i, chunks.length, chunkSections);
+    } catch (error: any) {
+      throwIfAborted(signal);
+      errorCount++;
+      onChunkFailed?.(i, chunks.length, error?.message || 'Generation failed');
     }
+  }
+
+  // Failed chunks are reported through onChunkFailed, so only an empty but error-free result is fatal
+  if (allSections.length === 0 && errorCount === 0 && startChunk === 0) {
     throw new Error("No content generated. The document might be empty or unreadable.");
   }
 
   return allSections;
 };
+
+// Retry a single chunk that failed during generation
+export const generateChunkSections = async (chunk: string, languages: LanguagePair, questionMix: QuestionMix, settings: LLMSettings): Promise<StudySection[]> =>
+  requestSections(createProvider(settings), languages, questionMix, `Analyze this part again:\n\n${chunk}`, 'Chunk retry', 0);
+
+// Regenerate one section from its source pages only, merged back into a single
+// section so the positions (and flashcard IDs) of the other sections stay put.
+export const regenerateSection = async (sourceText: string, languages: LanguagePair, questionMix: QuestionMix, settings: LLMSettings): Promise<StudySection> => {
+  const sections = await requestSections(
+    createProvider(settings),
+    languages,
+    questionMix,
+    `Regenerate the notes for these pages as ONE section:\n\n${sourceText}`,
+    'Section regeneration',
+    0
+  );
+  if (sections.length === 0) throw new Error("The model returned no notes for this section.");
+
+  const ranges = sections.flatMap(s => s.sourcePages ? [s.sourcePages] : []);
+  return {
+    topic: sections[0].topic,
+    sourcePages: ranges.length > 0
+      ? { start: Math.min(...ranges.map(range => range.start)), end: Math.max(...ranges.map(range => range.end)) }
+      : undefined,
+    visualSummary: sections.find(s => s.visualSummary)?.visualSummary,
+    content: sections.flatMap(s => s.content),
+    questions: sections.flatMap(s => s.questions || []),
+  };
+};
+
+const TRANSLATION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    translations: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "One translation per input text, in the same order",
+    },
+  },
+  required: ["translations"],
+};
+
+// Translate short texts (e.g. exam question stems) from the primary into the secondary language
+export const translateTexts = async (texts: string[], languages: LanguagePair, settings: LLMSettings): Promise<string[]> => {
+  if (texts.length === 0) return [];
+  const primary = LANGUAGES[languages.primary].name;
+  const secondary = LANGUAGES[languages.secondary].name;
+
+  const responseText = await createProvider(settings).generateJson({
+    task: 'translation',
+    systemInstruction: `You are a precise academic translator. Translate each ${primary} text into ${secondary}. Keep technical terms accurate, keep Markdown formatting, and do not add explanations.`,
+    prompt: `Translate these ${texts.length} texts. Return exactly ${texts.length} translations in the same order.\n\n${JSON.stringify(texts)}`,
+    responseSchema: TRANSLATION_SCHEMA,
+    languages,
+  });
+
+  const data = JSON.parse(responseText);
+  if (!Array.isArray(data.translations) || data.translations.length !== texts.length) {
+    throw new Error("The model returned an incomplete translation.");
+  }
+  return data.translations.map(String);
+};
@@ -0,0 +1,87 @@
+import { StudyFile, LanguagePair, CardSchedule } from "../types";
+
+// Glossary of the key terms the model tags on study points. Terms are merged
+// case- and width-insensitively across sections and files; the explanation of
+// an entry comes from its first occurrence. The glossary deck has one card per
+// term with its own schedule, saved on every file the term occurs in.
+
+export interface GlossaryOccurrence {
+  fileId: string;
+  fileName: string;
+  sectionIndex: number;
+  pointIndex: number;
+  topic: string;
+}
+
+export interface GlossaryEntry {
+  key: string; // Normalized term
+  term: string;
+  primary: string;
+  secondary: string;
+  languages: LanguagePair;
+  occurrences: GlossaryOccurrence[];
+}
+
+export const normalizeTerm = (term: string) => term
+  .normalize('NFKC')
+  .toLowerCase()
+  .replace(/\s+/g, ' ')
+  .replace(/^[\s"'“”‘’(（「]+|[\s"'“”‘’)）」.,:;。，：；]+$/g, '');
+
+export const buildGlossary = (files: StudyFile[]): GlossaryEntry[] => {
+  const entries = new Map<string, GlossaryEntry>();
+
+  files.forEach(file => {
+    file.sections.forEach((section, sIdx) => {
+      section.content.forEach((point, pIdx) => {
+        if (!point.keyTerm) return;
+        const key = normalizeTerm(point.keyTerm);
+        if (!key) return;
+
+        const occurrence: GlossaryOccurrence = {
+          fileId: file.id,
+          fileName: file.name,
+          sectionIndex: sIdx,
+          pointIndex: pIdx,
+          topic: section.topic,
+        };
+
+        const existing = entries.get(key);
+        if (existing) {
+          existing.occurrences.push(occurrence);
+        } else {
+          entries.set(key, {
+            key,
+            term: point.keyTerm.trim(),
+            primary: point.primary,
+            secondary: point.secondary,
+            languages: file.languages,
+            occurrences: [occurrence],
+          });
+        }
+      });
+    });
+  });
+
+  return Array.from(entries.values()).sort((a, b) => a.term.localeCompare(b.term));
+};
+
+export const getTermCardId = (key: string) => `term-${key}`;
+
+// Files an entry occurs in, each of which keeps a copy of its card's schedule
+export const getEntryFileIds = (entry: GlossaryEntry): string[] =>
+  Array.from(new Set(entry.occurrences.map(occurrence => occurrence.fileId)));
+
+// Schedule of each term card, from the file that reviewed it last
+export const getGlossarySchedule = (files: StudyFile[], entries: GlossaryEntry[]): Record<string, CardSchedule> => {
+  const filesById = new Map(files.map(file => [file.id, file]));
+  const schedule: Record<string, CardSchedule> = {};
+  entries.forEach(entry => {
+    const id = getTermCardId(entry.key);
+    getEntryFileIds(entry).forEach(fileId => {
+      const saved = filesById.get(fileId)?.glossarySchedule?.[id];
+      if (saved && (!schedule[id] || saved.lastReviewed > schedule[id].lastReviewed)) schedule[id] = saved;
+    });
+  });
+  return schedule;
+};
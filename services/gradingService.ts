@@ -0,0 +1,91 @@
+import { Type, Schema } from "@google/genai";
+import { AnswerGrade, RubricScore, LLMSettings, LanguagePair, LANGUAGES, ShortAnswerQuestion, StudySection } from "../types";
+import { createProvider } from "./llmProviders";
+
+// Grading of free-text exam answers by the configured model. The model sees
+// the question, the notes of the section it came from and the student's
+// answer, and scores the answer against a rubric of its own making.
+
+const GRADING_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    rubric: {
+      type: Type.ARRAY,
+      description: "2-4 criteria a complete answer meets",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          criterion: { type: Type.STRING },
+          points: { type: Type.INTEGER, description: "Points earned" },
+          maxPoints: { type: Type.INTEGER },
+          comment: { type: Type.STRING, description: "How the answer meets or misses the criterion" },
+        },
+        required: ["criterion", "points", "maxPoints", "comment"],
+      },
+    },
+    feedbackPrimary: { type: Type.STRING },
+    feedbackSecondary: { type: Type.STRING },
+    modelAnswerPrimary: { type: Type.STRING },
+    modelAnswerSecondary: { type: Type.STRING },
+  },
+  required: ["rubric", "feedbackPrimary", "feedbackSecondary", "modelAnswerPrimary", "modelAnswerSecondary"],
+};
+
+// Section notes in both languages, as the reference for grading
+const getSectionReference = (section: StudySection) => [
+  section.topic,
+  ...section.content.map(point => `${point.keyTerm ? `[${point.keyTerm}] ` : ''}${point.primary}\n${point.secondary}`),
+].join('\n\n');
+
+export const gradeAnswer = async (
+  question: ShortAnswerQuestion,
+  section: StudySection,
+  answer: string,
+  languages: LanguagePair,
+  settings: LLMSettings
+): Promise<AnswerGrade> => {
+  const primary = LANGUAGES[languages.primary].name;
+  const secondary = LANGUAGES[languages.secondary].name;
+
+  const responseText = await createProvider(settings).generateJson({
+    task: 'grading',
+    systemInstruction: `You are a fair university examiner. Grade the student's answer using only the reference notes. ` +
+      `The student may answer in ${primary} or ${secondary}; grade the content, not the language. ` +
+      `Build a rubric of 2-4 criteria from the reference answer and notes, award points per criterion, and comment on each in ${primary}. ` +
+      `Write the feedback and a corrected model answer twice: 'Primary' fields in ${primary}, 'Secondary' fields in ${secondary}.`,
+    prompt: `Grade this answer. The JSON below has the question, the reference answer, the key ideas, the reference notes and the student's answer.\n\n` +
+      JSON.stringify({
+        question: question.question,
+        referenceAnswer: question.modelAnswer,
+        keywords: question.keywords,
+        notes: getSectionReference(section),
+        studentAnswer: answer,
+      }),
+    responseSchema: GRADING_SCHEMA,
+    languages,
+  });
+
+  const data = JSON.parse(responseText);
+  if (!Array.isArray(data.rubric) || data.rubric.length === 0) {
+    throw new Error("The model returned no rubric.");
+  }
+
+  const rubric: RubricScore[] = data.rubric.map((item: any) => {
+    const maxPoints = Math.max(1, Number(item.maxPoints) || 1);
+    return {
+      criterion: String(item.criterion ?? ''),
+      points: Math.max(0, Math.min(maxPoints, Number(item.points) || 0)),
+      maxPoints,
+      comment: String(item.comment ?? ''),
+    };
+  });
+  const earned = rubric.reduce((sum, item) => sum + item.points, 0);
+  const possible = rubric.reduce((sum, item) => sum + item.maxPoints, 0);
+
+  return {
+    score: earned / possible,
+    rubric,
+    feedback: { primary: String(data.feedbackPrimary ?? ''), secondary: String(data.feedbackSecondary ?? '') },
+    modelAnswer: { primary: String(data.modelAnswerPrimary ?? ''), secondary: String(data.modelAnswerSecondary ?? '') },
+  };
+};
@@ -0,0 +1,127 @@
+import { GoogleGenAI, Schema } from "@google/genai";
+import { LLMSettings, LanguagePair, QuestionMix } from "../types";
+import { mockGenerate } from "./mockProvider";
+
+// Every model call goes through an LLMProvider so the backend can be swapped in
+// the settings panel. Schemas are written once in Gemini's format and converted
+// to JSON Schema for OpenAI-compatible servers.
+
+export type LLMTask = 'studyGuide' | 'translation' | 'grading' | 'chat';
+
+export interface LLMRequest {
+  task: LLMTask; // Lets the mock provider pick a matching fixture
+  systemInstruction: string;
+  prompt: string;
+  responseSchema: Schema;
+  languages?: LanguagePair; // Real models get this through the prompt; the mock needs it for its fixtures
+  questionMix?: QuestionMix; // Likewise, for the mock's exam questions
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  // Pause between consecutive requests to stay under hosted rate limits
+  requestDelayMs: number;
+  // Returns the raw JSON text of the response
+  generateJson: (request: LLMRequest) => Promise<string>;
+}
+
+export const DEFAULT_MODELS: Record<LLMSettings['provider'], string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'llama3.1',
+  mock: 'fixture',
+};
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+const createGeminiProvider = (settings: LLMSettings): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey || process.env.API_KEY });
+
+  return {
+    requestDelayMs: 1000,
+    generateJson: async ({ systemInstruction, prompt, responseSchema, signal }) => {
+      const response = await ai.models.generateContent({
+        model: settings.model || DEFAULT_MODELS.gemini,
+        contents: [{ role: "user", parts: [{ text: prompt }] }],
+        config: {
+          systemInstruction,
+          responseMimeType: "application/json",
+          responseSchema,
+          abortSignal: signal,
+        }
+      });
+      if (!response.text) throw new Error("Empty response from Gemini");
+      return response.text;
+    }
+  };
+};
+
+// Gemini schema (Type.OBJECT, nullable, ...) -> JSON Schema (object, ["string", "null"], ...)
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type) {
+    const type = schema.type.toLowerCase();
+    result.type = schema.nullable ? [type, 'null'] : type;
+  }
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) result.required = schema.required;
+  return result;
+};
+
+// Local models often wrap JSON in a Markdown code fence
+const stripCodeFence = (text: string) => text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+// Chat Completions API as served by llama.cpp, Ollama, LM Studio, vLLM, ...
+const createOpenAIProvider = (settings: LLMSettings): LLMProvider => {
+  const baseUrl = (settings.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+
+  return {
+    requestDelayMs: 0,
+    generateJson: async ({ systemInstruction, prompt, responseSchema, signal }) => {
+      const schema = toJsonSchema(responseSchema);
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: settings.model || DEFAULT_MODELS.openai,
+          messages: [
+            { role: 'system', content: `${systemInstruction}\nRespond only with JSON matching this schema:\n${JSON.stringify(schema)}` },
+            { role: 'user', content: prompt },
+          ],
+          response_format: { type: 'json_schema', json_schema: { name: 'response', schema } },
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Model server returned ${response.status}: ${await response.text()}`);
+      }
+      const data = await response.json();
+      const content = data?.choices?.[0]?.message?.content;
+      if (!content) throw new Error("Empty response from model server");
+      return stripCodeFence(content);
+    }
+  };
+};
+
+const createMockProvider = (): LLMProvider => ({
+  requestDelayMs: 0,
+  generateJson: async (request) => mockGenerate(request),
+});
+
+export const createProvider = (settings: LLMSettings): LLMProvider => {
+  switch (settings.provider) {
+    case 'openai': return createOpenAIProvider(settings);
+    case 'mock': return createMockProvider();
+    default: return createGeminiProvider(settings);
+  }
+};
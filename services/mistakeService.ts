@@ -0,0 +1,86 @@
+import { ExamAttemptAnswer, ExamQuestion, MistakeEntry, StudyFile, StudySection } from "../types";
+import { getQuestionTexts, SessionQuestion } from "./examService";
+import { getCardId, queueCardsForReview } from "./srsScheduler";
+
+// Wrong-answer notebook. Every missed question is logged per file with the
+// notes it tests; those notes are queued for flashcard review right away. An
+// entry leaves the log after MISTAKE_CLEAR_STREAK correct answers in a row.
+
+export const MISTAKE_CLEAR_STREAK = 3;
+
+// Topic and stem identify a question across exams, whatever its option order
+export const getMistakeId = (topic: string, question: ExamQuestion) => `${topic}\n${question.question}`;
+
+// Points whose key term the question mentions; every point of the section if none does
+export const findRelatedPoints = (section: StudySection, question: ExamQuestion): number[] => {
+  const text = getQuestionTexts(question).join(' ').toLowerCase();
+  const related = section.content
+    .map((point, pIdx) => (point.keyTerm && text.includes(point.keyTerm.toLowerCase()) ? pIdx : -1))
+    .filter(pIdx => pIdx !== -1);
+  return related.length > 0 ? related : section.content.map((_, pIdx) => pIdx);
+};
+
+// Update the log with the answers of a submitted exam (aligned with `questions`)
+export const recordExamMistakes = (
+  file: StudyFile,
+  questions: SessionQuestion[],
+  answers: ExamAttemptAnswer[],
+  now: number = Date.now()
+): Pick<StudyFile, 'mistakes' | 'flashcardProgress'> => {
+  const entries = new Map((file.mistakes ?? []).map(entry => [entry.id, entry]));
+  const reviewCards: string[] = [];
+
+  questions.forEach((item, idx) => {
+    const answer = answers[idx];
+    const id = getMistakeId(item.section.topic, item.q);
+    const existing = entries.get(id);
+    const credit = answer.credit ?? (answer.correct ? 1 : 0);
+
+    if (credit < 1) {
+      const pointIndexes = findRelatedPoints(item.section, item.q);
+      entries.set(id, {
+        id,
+        sectionIndex: item.sectionIndex,
+        topic: item.section.topic,
+        question: item.q,
+        response: answer.response ?? null,
+        pointIndexes,
+        missCount: (existing?.missCount ?? 0) + 1,
+        lastMissed: now,
+        streak: 0,
+      });
+      reviewCards.push(...pointIndexes.map(pIdx => getCardId(item.sectionIndex, pIdx)));
+    } else if (existing) {
+      if (existing.streak + 1 >= MISTAKE_CLEAR_STREAK) entries.delete(id);
+      else entries.set(id, { ...existing, streak: existing.streak + 1 });
+    }
+  });
+
+  const mistakes = Array.from(entries.values());
+  return {
+    mistakes: mistakes.length > 0 ? mistakes : undefined,
+    flashcardProgress: queueCardsForReview(file.flashcardProgress, Array.from(new Set(reviewCards)), now),
+  };
+};
+
+// Exam questions for drilling a file's logged mistakes
+export const buildMistakeSession = (mistakes: MistakeEntry[], sections: StudySection[]): SessionQuestion[] =>
+  mistakes.map(entry => ({
+    q: entry.question,
+    section: sections[entry.sectionIndex] ?? { topic: entry.topic, content: [] },
+    sectionIndex: entry.sectionIndex,
+  }));
+
+// Follow sections that moved (see srsScheduler.remapSectionCards). Entries of a
+// regenerated section (null) keep their question but lose their point links.
+export const remapSectionMistakes = (
+  mistakes: MistakeEntry[] | undefined,
+  mapSection: (sectionIndex: number) => number | null
+): MistakeEntry[] | undefined =>
+  mistakes?.map(entry => {
+    const sectionIndex = mapSection(entry.sectionIndex);
+    return sectionIndex === null ? { ...entry, pointIndexes: [] } : { ...entry, sectionIndex };
+  });
+
+export const countLibraryMistakes = (files: StudyFile[]): number =>
+  files.reduce((sum, file) => sum + (file.mistakes?.length ?? 0), 0);
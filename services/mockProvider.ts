@@ -0,0 +1,224 @@
+import { StudySection, LanguageCode, LanguagePair, DEFAULT_LANGUAGES, LANGUAGES, ExamQuestion, QuestionMix, QuestionType, DEFAULT_QUESTION_MIX } from "../types";
+import { QUESTION_TYPES } from "./examService";
+import type { LLMRequest } from "./llmProviders";
+
+// Offline model backend for CI and demos. Responses are deterministic fixtures
+// built from the request text, so the same document always yields the same guide.
+
+const MOCK_LATENCY_MS = 200;
+
+const MARKER_REGEX = /^--- (Slide|Page|Section) (\d+) ---$/;
+
+interface MockPage {
+  kind: string;
+  number: number;
+  text: string;
+}
+
+const splitMarkedPages = (text: string): MockPage[] => {
+  const pages: MockPage[] = [];
+  let current: MockPage | null = null;
+
+  for (const line of text.split('\n')) {
+    const match = line.trim().match(MARKER_REGEX);
+    if (match) {
+      current = { kind: match[1], number: parseInt(match[2]), text: '' };
+      pages.push(current);
+    } else if (current) {
+      current.text += `${line}\n`;
+    }
+  }
+
+  if (pages.length === 0 && text.trim()) {
+    pages.push({ kind: 'Page', number: 1, text });
+  }
+  return pages;
+};
+
+const firstWords = (text: string, count: number) =>
+  text.replace(/\s+/g, ' ').trim().split(' ').slice(0, count).join(' ');
+
+// Longest word on the page stands in for the key term
+const pickKeyTerm = (text: string) =>
+  (text.match(/[A-Za-z][A-Za-z-]{3,}/g) || []).reduce((longest, word) => (word.length > longest.length ? word : longest), '');
+
+interface FixturePhrases {
+  summary: (page: MockPage, summary: string) => string;
+  example: (page: MockPage, keyTerm?: string) => string;
+}
+
+const CHINESE_KINDS: Record<string, string> = { Slide: '张幻灯片', Page: '页', Section: '节' };
+const JAPANESE_KINDS: Record<string, string> = { Slide: 'スライド', Page: 'ページ', Section: 'セクション' };
+const KOREAN_KINDS: Record<string, string> = { Slide: '슬라이드', Page: '페이지', Section: '섹션' };
+const SPANISH_KINDS: Record<string, string> = { Slide: 'diapositiva', Page: 'página', Section: 'sección' };
+
+const PHRASES: Record<LanguageCode, FixturePhrases> = {
+  'en': {
+    summary: (_page, summary) => `**Summary.** ${summary}`,
+    example: (page, keyTerm) => `For example: review how ${keyTerm || 'this idea'} connects to the previous ${page.kind.toLowerCase()}.`,
+  },
+  'zh-Hans': {
+    summary: (page, summary) => `**摘要。** 第 ${page.number} ${CHINESE_KINDS[page.kind]}的主要内容：${summary}`,
+    example: (page, keyTerm) => `例如：复习${keyTerm || '这个概念'}与上一${CHINESE_KINDS[page.kind]}的联系。`,
+  },
+  'zh-Hant': {
+    summary: (page, summary) => `**摘要。** 第 ${page.number} ${CHINESE_KINDS[page.kind]}的主要內容：${summary}`,
+    example: (page, keyTerm) => `例如：複習${keyTerm || '這個概念'}與上一${CHINESE_KINDS[page.kind]}的聯繫。`,
+  },
+  'ja': {
+    summary: (page, summary) => `**要約。** ${JAPANESE_KINDS[page.kind]} ${page.number} の主な内容：${summary}`,
+    example: (page, keyTerm) => `例：${keyTerm || 'この考え方'}と前の${JAPANESE_KINDS[page.kind]}とのつながりを復習しましょう。`,
+  },
+  'ko': {
+    summary: (page, summary) => `**요약.** ${KOREAN_KINDS[page.kind]} ${page.number}의 주요 내용: ${summary}`,
+    example: (page, keyTerm) => `예: ${keyTerm || '이 개념'}이(가) 이전 ${KOREAN_KINDS[page.kind]}와 어떻게 연결되는지 복습하세요.`,
+  },
+  'es': {
+    summary: (page, summary) => `**Resumen.** Contenido principal de la ${SPANISH_KINDS[page.kind]} ${page.number}: ${summary}`,
+    example: (page, keyTerm) => `Por ejemplo: repasa cómo ${keyTerm || 'esta idea'} se relaciona con la ${SPANISH_KINDS[page.kind]} anterior.`,
+  },
+};
+
+interface QuestionFacts {
+  page: MockPage;
+  title: string;
+  summary: string;
+  keyTerm?: string;
+}
+
+// The n-th question of each type on a page; MCQs alternate between two fixtures
+const QUESTION_FIXTURES: Record<QuestionType, (facts: QuestionFacts, n: number) => ExamQuestion> = {
+  mcq: ({ page, title, keyTerm }, n) => n % 2 === 0
+    ? {
+      type: 'mcq',
+      question: `Which ${page.kind.toLowerCase()} introduces "${title}"?`,
+      options: [1, 2, 3, 4].map(offset => `${page.kind} ${page.number + offset - 1}`),
+      correctIndex: 0,
+      explanation: `"${title}" is the opening text of ${page.kind.toLowerCase()} ${page.number}.`,
+    }
+    : {
+      type: 'mcq',
+      question: `Which key term appears on ${page.kind.toLowerCase()} ${page.number}?`,
+      options: [keyTerm || 'None', 'Photosynthesis', 'Amortization', 'Polymorphism'],
+      correctIndex: 0,
+      explanation: `${keyTerm || 'No term'} is taken directly from the source text.`,
+    },
+  trueFalse: ({ page, title }, n) => ({
+    type: 'trueFalse',
+    question: `"${title}" opens ${page.kind.toLowerCase()} ${page.number + (n % 2)}.`,
+    answer: n % 2 === 0,
+    explanation: `"${title}" is the opening text of ${page.kind.toLowerCase()} ${page.number}.`,
+  }),
+  multiSelect: ({ page, keyTerm }) => ({
+    type: 'multiSelect',
+    question: `Which of these belong to ${page.kind.toLowerCase()} ${page.number}?`,
+    options: [keyTerm || 'None', `${page.kind} ${page.number}`, 'Photosynthesis', 'Amortization'],
+    correctIndexes: [0, 1],
+    explanation: `Only ${keyTerm || 'the page marker'} and the page number come from the source text.`,
+  }),
+  fillBlank: ({ page, title }) => ({
+    type: 'fillBlank',
+    question: `"${title}" opens ${page.kind.toLowerCase()} ___.`,
+    blanks: [[String(page.number)]],
+    explanation: `The text is taken from ${page.kind.toLowerCase()} ${page.number}.`,
+  }),
+  shortAnswer: ({ page, summary, keyTerm }) => ({
+    type: 'shortAnswer',
+    question: `Summarize ${page.kind.toLowerCase()} ${page.number} in one sentence.`,
+    modelAnswer: summary,
+    keywords: keyTerm ? [keyTerm] : [],
+    explanation: `A full answer mentions ${keyTerm || 'the main idea of the page'}.`,
+  }),
+  matching: ({ page, title, keyTerm }) => ({
+    type: 'matching',
+    question: `Match each term with its description.`,
+    pairs: [
+      { term: keyTerm || 'Key term', definition: `Longest word on ${page.kind.toLowerCase()} ${page.number}` },
+      { term: `${page.kind} ${page.number}`, definition: `Opens with "${title}"` },
+      { term: 'Photosynthesis', definition: 'Not covered in this document' },
+    ],
+    explanation: `Both the key term and the opening text come from ${page.kind.toLowerCase()} ${page.number}.`,
+  }),
+};
+
+const buildQuestions = (facts: QuestionFacts, mix: QuestionMix): ExamQuestion[] =>
+  QUESTION_TYPES.flatMap(type => Array.from({ length: mix[type] || 0 }, (_, n) => QUESTION_FIXTURES[type](facts, n)));
+
+// A section as the model returns it, with its source range as flat fields
+type ModelSection = StudySection & { pageStart: number; pageEnd: number };
+
+const buildSection = (page: MockPage, languages: LanguagePair, questionMix: QuestionMix): ModelSection => {
+  const plainText = page.text.replace(/^#+\s*/gm, '');
+  const summary = firstWords(plainText, 40) || 'This page has no extractable text.';
+  const title = firstWords(plainText, 6) || 'Overview';
+  const keyTerm = pickKeyTerm(page.text) || undefined;
+  const topic = `${page.kind} ${page.number}: ${title}`;
+
+  return {
+    topic,
+    pageStart: page.number,
+    pageEnd: page.number,
+    visualSummary: `Layout of ${page.kind.toLowerCase()} ${page.number}.`,
+    content: [
+      {
+        primary: PHRASES[languages.primary].summary(page, summary),
+        secondary: PHRASES[languages.secondary].summary(page, summary),
+        keyTerm,
+      },
+      {
+        primary: PHRASES[languages.primary].example(page, keyTerm),
+        secondary: PHRASES[languages.secondary].example(page, keyTerm),
+      },
+    ],
+    questions: buildQuestions({ page, title, summary, keyTerm }, questionMix),
+  };
+};
+
+export const mockGenerate = async (request: LLMRequest): Promise<string> => {
+  await new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+  if (request.signal?.aborted) throw new DOMException("Generation cancelled", "AbortError");
+
+  const languages = request.languages ?? DEFAULT_LANGUAGES;
+  const questionMix = request.questionMix ?? DEFAULT_QUESTION_MIX;
+  if (request.task === 'translation') {
+    // The texts are the JSON array at the end of the prompt
+    const texts: string[] = JSON.parse(request.prompt.slice(request.prompt.indexOf('\n\n[') + 2));
+    return JSON.stringify({ translations: texts.map(text => `[${LANGUAGES[languages.secondary].nativeName}] ${text}`) });
+  }
+
+  if (request.task === 'grading') {
+    // The question and answer are the JSON object at the end of the prompt
+    const { referenceAnswer, keywords, studentAnswer } = JSON.parse(request.prompt.slice(request.prompt.indexOf('\n\n{') + 2));
+    const answer = String(studentAnswer).toLowerCase();
+    const found = (keywords as string[]).filter(keyword => answer.includes(keyword.toLowerCase()));
+    const secondary = LANGUAGES[languages.secondary].nativeName;
+    return JSON.stringify({
+      rubric: [
+        { criterion: 'Mentions the key ideas', points: found.length, maxPoints: Math.max(1, keywords.length), comment: `Found: ${found.join(', ') || 'none'}.` },
+        { criterion: 'Answers the question', points: answer.trim() ? 1 : 0, maxPoints: 1, comment: answer.trim() ? 'The answer addresses the question.' : 'No answer was given.' },
+      ],
+      feedbackPrimary: `The answer covers ${found.length} of ${keywords.length} key ideas.`,
+      feedbackSecondary: `[${secondary}] The answer covers ${found.length} of ${keywords.length} key ideas.`,
+      modelAnswerPrimary: referenceAnswer,
+      modelAnswerSecondary: `[${secondary}] ${referenceAnswer}`,
+    });
+  }
+
+  if (request.task === 'chat') {
+    // The sections and the question are the JSON object at the end of the prompt
+    const { sections, answerLanguage, question } = JSON.parse(request.prompt.slice(request.prompt.indexOf('\n\n{') + 2));
+    const source = sections[0];
+    const point = source?.points[0];
+    const answer = source
+      ? `About "${question}": ${source.topic} says ${point ? point.primary : 'nothing more'}`
+      : `The guide does not cover "${question}".`;
+    const native = LANGUAGES[languages.secondary].nativeName;
+    return JSON.stringify({
+      answer: answerLanguage === 'secondary' ? `[${native}] ${answer}` : answer,
+      translation: answerLanguage === 'both' ? `[${native}] ${answer}` : '',
+      citations: source ? [{ sectionIndex: source.sectionIndex, pointIndex: point ? 0 : null, page: source.pages[0] ?? null }] : [],
+    });
+  }
+
+  return JSON.stringify({ sections: splitMarkedPages(request.prompt).map(page => buildSection(page, languages, questionMix)) });
+};
@@ -0,0 +1,40 @@
+import { LanguagePair, LANGUAGES } from "../types";
+
+// OCR for pages without a text layer (scanned handouts). tesseract.js runs the
+// recognition in its own web worker; the language data for the file's language
+// pair is downloaded on first use and cached by the browser.
+
+const CJK = '\\u3000-\\u30ff\\u3400-\\u9fff\\uff00-\\uffef'; // Han, kana and full-width forms (not Hangul, which uses spaces)
+const CJK_GAP_REGEX = new RegExp(`([${CJK}])[ \\t]+(?=[${CJK}])`, 'g');
+
+// Tesseract separates Chinese/Japanese characters with spaces; drop those and tidy whitespace
+const cleanOcrText = (text: string) => text
+  .replace(CJK_GAP_REGEX, '$1')
+  .replace(/[ \t]+/g, ' ')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+export interface OcrSession {
+  recognize: (image: string) => Promise<string>;
+  terminate: () => Promise<void>;
+}
+
+// Starts one worker that is reused for every page of a document
+export const createOcrSession = async (languages: LanguagePair): Promise<OcrSession> => {
+  if (!window.Tesseract) {
+    throw new Error("Tesseract.js library not loaded.");
+  }
+
+  const ocrLanguages = Array.from(new Set([languages.primary, languages.secondary].map(code => LANGUAGES[code].ocrLanguage)));
+  const worker = await window.Tesseract.createWorker(ocrLanguages);
+
+  return {
+    recognize: async (image) => {
+      const { data } = await worker.recognize(image);
+      return cleanOcrText(data.text || '');
+    },
+    terminate: async () => {
+      await worker.terminate();
+    },
+  };
+};
@@ -0,0 +1,253 @@
+import { StudyFile, StudySection } from "../types";
+import { getQuestionTexts } from "./examService";
+
+// Full-text search over the whole library. Every topic, note (both languages),
+// key term and exam question is a document in an in-memory inverted index.
+// Latin-script text is split into words (prefix matched while typing); CJK and
+// Hangul have no spaces, so they are indexed as character unigrams and bigrams.
+// The index is updated incrementally: files and sections are diffed by
+// reference, so an edited point only re-indexes its own section.
+
+export type SearchField = 'topic' | 'primary' | 'secondary' | 'keyTerm' | 'question';
+
+export interface SearchDocument {
+  key: string;
+  fileId: string;
+  fileName: string;
+  sectionIndex: number;
+  pointIndex: number | null; // null for topics and exam questions
+  field: SearchField;
+  topic: string;
+  text: string;
+}
+
+export interface SearchResult extends SearchDocument {
+  score: number;
+  snippet: string;
+}
+
+export interface SearchIndex {
+  update: (files: StudyFile[]) => void;
+  search: (query: string, limit?: number) => SearchResult[];
+}
+
+// Matches in topics and key terms say more than matches in long notes
+const FIELD_BOOST: Record<SearchField, number> = {
+  topic: 3,
+  keyTerm: 2.5,
+  primary: 1,
+  secondary: 1,
+  question: 0.8,
+};
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const PHRASE_BONUS = 1.5;
+const PREFIX_WEIGHT = 0.7;
+const SNIPPET_RADIUS = 60;
+
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff\uac00-\ud7af]/; // Kana, Han, Hangul
+
+const normalize = (text: string) => text.normalize('NFKC').toLowerCase();
+
+// Markdown markers would otherwise show up in snippets
+const toPlainText = (text: string) => text.replace(/[*_`#>|]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Documents get CJK unigrams and bigrams; queries only need bigrams (or the single character)
+export const tokenize = (text: string, mode: 'index' | 'query'): string[] => {
+  const tokens: string[] = [];
+
+  const pushRun = (run: string, isCjk: boolean) => {
+    if (!run) return;
+    if (!isCjk) {
+      tokens.push(run);
+      return;
+    }
+    const chars = Array.from(run);
+    if (mode === 'index' || chars.length === 1) tokens.push(...chars);
+    for (let i = 0; i < chars.length - 1; i++) tokens.push(chars[i] + chars[i + 1]);
+  };
+
+  for (const match of normalize(text).matchAll(/[\p{L}\p{N}]+/gu)) {
+    let run = '';
+    let runIsCjk = false;
+    for (const char of match[0]) {
+      const isCjk = CJK_CHAR.test(char);
+      if (run && isCjk !== runIsCjk) {
+        pushRun(run, runIsCjk);
+        run = '';
+      }
+      run += char;
+      runIsCjk = isCjk;
+    }
+    pushRun(run, runIsCjk);
+  }
+  return tokens;
+};
+
+// Terms to highlight for a query, as typed (whitespace separated)
+export const getQueryTerms = (query: string): string[] =>
+  Array.from(new Set(normalize(query).split(/\s+/).filter(Boolean)));
+
+const buildSnippet = (text: string, terms: string[]) => {
+  const lower = normalize(text);
+  const positions = terms.map(term => lower.indexOf(term)).filter(index => index >= 0);
+  const hit = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = Math.max(0, hit - SNIPPET_RADIUS);
+  const end = Math.min(text.length, hit + SNIPPET_RADIUS * 2);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
+
+const sectionDocuments = (file: StudyFile, section: StudySection, sectionIndex: number): SearchDocument[] => {
+  const base = { fileId: file.id, fileName: file.name, sectionIndex, topic: section.topic };
+  const prefix = `${file.id}:${sectionIndex}`;
+  const docs: SearchDocument[] = [
+    { ...base, key: `${prefix}:topic`, pointIndex: null, field: 'topic', text: section.topic },
+  ];
+
+  section.content.forEach((point, pIdx) => {
+    docs.push({ ...base, key: `${prefix}:${pIdx}:primary`, pointIndex: pIdx, field: 'primary', text: toPlainText(point.primary) });
+    docs.push({ ...base, key: `${prefix}:${pIdx}:secondary`, pointIndex: pIdx, field: 'secondary', text: toPlainText(point.secondary) });
+    if (point.keyTerm) {
+      docs.push({ ...base, key: `${prefix}:${pIdx}:keyTerm`, pointIndex: pIdx, field: 'keyTerm', text: point.keyTerm });
+    }
+  });
+
+  (section.questions || []).forEach((question, qIdx) => {
+    const text = getQuestionTexts(question).join(' ');
+    docs.push({ ...base, key: `${prefix}:q${qIdx}`, pointIndex: null, field: 'question', text: toPlainText(text) });
+  });
+
+  return docs.filter(doc => doc.text.length > 0);
+};
+
+interface IndexedDocument extends SearchDocument {
+  length: number; // Token count, for BM25 length normalization
+  normalizedText: string;
+}
+
+export const createSearchIndex = (): SearchIndex => {
+  const documents = new Map<string, IndexedDocument>();
+  const postings = new Map<string, Map<string, number>>(); // token -> document key -> term frequency
+  const indexedFiles = new Map<string, StudyFile>();
+  const indexedSections = new Map<string, { section: StudySection; keys: string[] }>(); // "fileId:sectionIndex"
+  let totalLength = 0;
+
+  const addDocument = (doc: SearchDocument) => {
+    const tokens = tokenize(doc.text, 'index');
+    documents.set(doc.key, { ...doc, length: tokens.length, normalizedText: normalize(doc.text) });
+    totalLength += tokens.length;
+    for (const token of tokens) {
+      let list = postings.get(token);
+      if (!list) {
+        list = new Map();
+        postings.set(token, list);
+      }
+      list.set(doc.key, (list.get(doc.key) || 0) + 1);
+    }
+  };
+
+  const removeDocument = (key: string) => {
+    const doc = documents.get(key);
+    if (!doc) return;
+    for (const token of new Set(tokenize(doc.text, 'index'))) {
+      const list = postings.get(token);
+      list?.delete(key);
+      if (list?.size === 0) postings.delete(token);
+    }
+    totalLength -= doc.length;
+    documents.delete(key);
+  };
+
+  const removeSection = (sectionKey: string) => {
+    indexedSections.get(sectionKey)?.keys.forEach(removeDocument);
+    indexedSections.delete(sectionKey);
+  };
+
+  const indexFile = (file: StudyFile, previous?: StudyFile) => {
+    file.sections.forEach((section, sIdx) => {
+      const sectionKey = `${file.id}:${sIdx}`;
+      const existing = indexedSections.get(sectionKey);
+      if (existing?.section === section && previous?.name === file.name) return;
+      removeSection(sectionKey);
+      const docs = sectionDocuments(file, section, sIdx);
+      docs.forEach(addDocument);
+      indexedSections.set(sectionKey, { section, keys: docs.map(doc => doc.key) });
+    });
+    // Sections past the end were deleted or shifted away
+    for (let sIdx = file.sections.length; previous && sIdx < previous.sections.length; sIdx++) {
+      removeSection(`${file.id}:${sIdx}`);
+    }
+  };
+
+  const update = (files: StudyFile[]) => {
+    const currentIds = new Set(files.map(f => f.id));
+    for (const [id, previous] of indexedFiles) {
+      if (currentIds.has(id)) continue;
+      previous.sections.forEach((_, sIdx) => removeSection(`${id}:${sIdx}`));
+      indexedFiles.delete(id);
+    }
+    for (const file of files) {
+      const previous = indexedFiles.get(file.id);
+      if (previous === file) continue;
+      indexFile(file, previous);
+      indexedFiles.set(file.id, file);
+    }
+  };
+
+  // Postings for a query token; Latin tokens also match longer words starting with them
+  const lookup = (token: string): Map<string, number> => {
+    const matches = new Map<string, number>(postings.get(token) || []);
+    if (CJK_CHAR.test(token) || token.length < 2) return matches;
+    for (const [candidate, list] of postings) {
+      if (candidate === token || !candidate.startsWith(token)) continue;
+      for (const [key, tf] of list) {
+        matches.set(key, Math.max(matches.get(key) || 0, tf * PREFIX_WEIGHT));
+      }
+    }
+    return matches;
+  };
+
+  const search = (query: string, limit = 30): SearchResult[] => {
+    const tokens = Array.from(new Set(tokenize(query, 'query')));
+    if (tokens.length === 0 || documents.size === 0) return [];
+
+    const count = documents.size;
+    const averageLength = totalLength / count || 1;
+    const scores = new Map<string, number>();
+    const matchedTokens = new Map<string, number>();
+
+    for (const token of tokens) {
+      const matches = lookup(token);
+      const idf = Math.log(1 + (count - matches.size + 0.5) / (matches.size + 0.5));
+      for (const [key, tf] of matches) {
+        const doc = documents.get(key)!;
+        const bm25 = idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / averageLength));
+        scores.set(key, (scores.get(key) || 0) + bm25 * FIELD_BOOST[doc.field]);
+        matchedTokens.set(key, (matchedTokens.get(key) || 0) + 1);
+      }
+    }
+
+    const phrase = normalize(query.trim());
+    const terms = getQueryTerms(query);
+
+    return Array.from(scores.entries())
+      // Every query token must match
+      .filter(([key]) => matchedTokens.get(key) === tokens.length)
+      .map(([key, score]) => {
+        const doc = documents.get(key)!;
+        const { length, normalizedText, ...rest } = doc;
+        return {
+          ...rest,
+          score: normalizedText.includes(phrase) ? score * PHRASE_BONUS : score,
+          snippet: buildSnippet(doc.text, terms),
+        };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  };
+
+  return { update, search };
+};
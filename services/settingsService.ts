@@ -0,0 +1,86 @@
+import { LLMSettings, LLMProviderId, LanguagePair, LANGUAGES, DEFAULT_LANGUAGES, QuestionMix, DEFAULT_QUESTION_MIX, ChatAnswerLanguage } from "../types";
+import { QUESTION_TYPES } from "./examService";
+import { DEFAULT_MODELS } from "./llmProviders";
+
+const SETTINGS_KEY = 'bilingual-scholar-settings';
+const LANGUAGES_KEY = 'bilingual-scholar-languages';
+const QUESTION_MIX_KEY = 'bilingual-scholar-question-mix';
+const CHAT_LANGUAGE_KEY = 'bilingual-scholar-chat-language';
+
+const PROVIDERS: LLMProviderId[] = ['gemini', 'openai', 'mock'];
+
+// VITE_LLM_PROVIDER=mock lets CI and demos start without a key or network
+const getDefaultProvider = (): LLMProviderId => {
+  const fromEnv = process.env.LLM_PROVIDER as LLMProviderId | undefined;
+  return fromEnv && PROVIDERS.includes(fromEnv) ? fromEnv : 'gemini';
+};
+
+export const getDefaultSettings = (): LLMSettings => {
+  const provider = getDefaultProvider();
+  return { provider, model: DEFAULT_MODELS[provider] };
+};
+
+export const loadSettings = (): LLMSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (saved) {
+      const parsed: LLMSettings = JSON.parse(saved);
+      if (PROVIDERS.includes(parsed.provider)) return parsed;
+    }
+  } catch (e) {
+    console.warn("Failed to load settings", e);
+  }
+  return getDefaultSettings();
+};
+
+export const saveSettings = (settings: LLMSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Language pair picked for the last upload, offered again for the next one
+export const loadLanguagePair = (): LanguagePair => {
+  try {
+    const saved = localStorage.getItem(LANGUAGES_KEY);
+    if (saved) {
+      const parsed: LanguagePair = JSON.parse(saved);
+      if (LANGUAGES[parsed.primary] && LANGUAGES[parsed.secondary]) return parsed;
+    }
+  } catch (e) {
+    console.warn("Failed to load language pair", e);
+  }
+  return DEFAULT_LANGUAGES;
+};
+
+export const saveLanguagePair = (languages: LanguagePair) => {
+  localStorage.setItem(LANGUAGES_KEY, JSON.stringify(languages));
+};
+
+// Question mix picked for the last upload, offered again for the next one
+export const loadQuestionMix = (): QuestionMix => {
+  try {
+    const saved = localStorage.getItem(QUESTION_MIX_KEY);
+    if (saved) {
+      const parsed: QuestionMix = JSON.parse(saved);
+      return Object.fromEntries(
+        QUESTION_TYPES.filter(type => Number.isInteger(parsed[type]) && parsed[type]! > 0).map(type => [type, parsed[type]])
+      );
+    }
+  } catch (e) {
+    console.warn("Failed to load question mix", e);
+  }
+  return DEFAULT_QUESTION_MIX;
+};
+
+export const saveQuestionMix = (mix: QuestionMix) => {
+  localStorage.setItem(QUESTION_MIX_KEY, JSON.stringify(mix));
+};
+
+// Language the document chat answers in, the same for every file
+export const loadChatLanguage = (): ChatAnswerLanguage => {
+  const saved = localStorage.getItem(CHAT_LANGUAGE_KEY);
+  return saved === 'secondary' || saved === 'both' ? saved : 'primary';
+};
+
+export const saveChatLanguage = (language: ChatAnswerLanguage) => {
+  localStorage.setItem(CHAT_LANGUAGE_KEY, language);
+};
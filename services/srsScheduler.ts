@@ -0,0 +1,207 @@
+import { CardSchedule, FlashcardProgress, StudyFile, StudySection } from "../types";
+
+// SM-2 spaced repetition scheduler. Card state lives in FlashcardProgress.schedule,
+// keyed by the positional card ID (`card-${sIdx}-${pIdx}`).
+
+export type ReviewGrade = 'hard' | 'medium' | 'easy';
+
+export type CardState = 'new' | 'learning' | 'review';
+
+// SM-2 response quality (0-5) for each review button. Below 3 counts as a lapse.
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  hard: 2,
+  medium: 4,
+  easy: 5,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+// Lapsed cards come back within the same session
+const LEARNING_STEP_MS = 60 * 1000;
+// How far back into the session queue a lapsed card is reinserted
+const LEARNING_REINSERT_GAP = 4;
+// Interval (days) after which a card counts as mastered
+export const MATURE_INTERVAL = 21;
+
+export const getCardId = (sectionIndex: number, pointIndex: number) => `card-${sectionIndex}-${pointIndex}`;
+
+export const getCardIds = (sections: StudySection[]): string[] =>
+  sections.flatMap((section, sIdx) => section.content.map((_, pIdx) => getCardId(sIdx, pIdx)));
+
+const CARD_ID_REGEX = /^card-(\d+)-(\d+)$/;
+
+// Rewrite card IDs after sections were inserted or removed, so progress follows its section.
+// `mapSection` returns the new section index, or null to drop the card's progress.
+export const remapSectionCards = (progress: FlashcardProgress, mapSection: (sectionIndex: number) => number | null): FlashcardProgress => {
+  const mapId = (id: string): string | null => {
+    const match = id.match(CARD_ID_REGEX);
+    if (!match) return id;
+    const sectionIndex = mapSection(parseInt(match[1]));
+    return sectionIndex === null ? null : getCardId(sectionIndex, parseInt(match[2]));
+  };
+  const mapIds = (ids: string[]) => ids.map(mapId).filter((id): id is string => id !== null);
+
+  const schedule: Record<string, CardSchedule> = {};
+  Object.entries(progress.schedule ?? {}).forEach(([id, s]) => {
+    const mapped = mapId(id);
+    if (mapped) schedule[mapped] = s;
+  });
+
+  return {
+    mastered: mapIds(progress.mastered),
+    queue: mapIds(progress.queue),
+    ...(progress.schedule ? { schedule } : {}),
+  };
+};
+
+export const endOfDay = (now: number = Date.now()): number => {
+  const d = new Date(now);
+  d.setHours(23, 59, 59, 999);
+  return d.getTime();
+};
+
+export const getCardState = (schedule?: CardSchedule): CardState => {
+  if (!schedule) return 'new';
+  return schedule.repetitions === 0 ? 'learning' : 'review';
+};
+
+export const isDueToday = (schedule: CardSchedule | undefined, now: number = Date.now()): boolean =>
+  !!schedule && schedule.due <= endOfDay(now);
+
+// Core SM-2 step: returns the card's schedule after answering with `grade`.
+export const scheduleReview = (prev: CardSchedule | undefined, grade: ReviewGrade, now: number = Date.now()): CardSchedule => {
+  const quality = GRADE_QUALITY[grade];
+  const easeFactor = prev?.easeFactor ?? DEFAULT_EASE;
+
+  if (quality < 3) {
+    // Lapse: restart repetitions, keep the ease factor (per SM-2)
+    return { easeFactor, interval: 0, repetitions: 0, due: now + LEARNING_STEP_MS, lastReviewed: now };
+  }
+
+  const nextEase = Math.max(MIN_EASE, easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+  const repetitions = (prev?.repetitions ?? 0) + 1;
+  let interval: number;
+  if (repetitions === 1) interval = 1;
+  else if (repetitions === 2) interval = 6;
+  else interval = Math.round(Math.max(1, prev?.interval ?? 1) * nextEase);
+
+  return { easeFactor: nextEase, interval, repetitions, due: now + interval * DAY_MS, lastReviewed: now };
+};
+
+// Files saved before scheduling existed only have a mastered list; treat those
+// cards as reviewed once and due now so they are not shown as brand new.
+const getSchedule = (progress: FlashcardProgress): Record<string, CardSchedule> => {
+  if (progress.schedule) return progress.schedule;
+  const schedule: Record<string, CardSchedule> = {};
+  progress.mastered.forEach(id => {
+    schedule[id] = { easeFactor: DEFAULT_EASE, interval: 1, repetitions: 1, due: 0, lastReviewed: 0 };
+  });
+  return schedule;
+};
+
+const getMastered = (schedule: Record<string, CardSchedule>, cardIds: Set<string>): string[] =>
+  Object.keys(schedule).filter(id => cardIds.has(id) && schedule[id].interval >= MATURE_INTERVAL);
+
+// Align saved progress with the current deck: drop IDs that no longer exist
+// (e.g. a shorter regenerated section), drop cards that are not due, and queue
+// due cards (oldest first) followed by new cards in document order.
+export const reconcileProgress = (progress: FlashcardProgress, cardIds: string[], now: number = Date.now()): FlashcardProgress => {
+  const existing = new Set(cardIds);
+  const schedule: Record<string, CardSchedule> = {};
+  Object.entries(getSchedule(progress)).forEach(([id, s]) => {
+    if (existing.has(id)) schedule[id] = s;
+  });
+
+  const isEligible = (id: string) => !schedule[id] || isDueToday(schedule[id], now);
+  const queue = Array.from(new Set(progress.queue)).filter(id => existing.has(id) && isEligible(id));
+  const queued = new Set(queue);
+
+  const dueIds = cardIds
+    .filter(id => !queued.has(id) && isDueToday(schedule[id], now))
+    .sort((a, b) => schedule[a].due - schedule[b].due);
+  const newIds = cardIds.filter(id => !queued.has(id) && !schedule[id]);
+
+  return {
+    mastered: getMastered(schedule, existing),
+    queue: [...queue, ...dueIds, ...newIds],
+    schedule,
+  };
+};
+
+// Decks that save no queue of their own (the glossary deck) are rebuilt by
+// reconcileProgress after every grade, which would show a lapsed card again at
+// once. Cards still inside their learning step go after the cards that are ready.
+export const deferLearningCards = (progress: FlashcardProgress, now: number = Date.now()): FlashcardProgress => {
+  const schedule = progress.schedule ?? {};
+  const isWaiting = (id: string) => !!schedule[id] && schedule[id].due > now;
+  return { ...progress, queue: [...progress.queue.filter(id => !isWaiting(id)), ...progress.queue.filter(isWaiting)] };
+};
+
+// Grade a card on reconciled progress: update its schedule and move it out of
+// the session queue, or a few places back if it lapsed and is due again today.
+export const applyReview = (progress: FlashcardProgress, cardId: string, grade: ReviewGrade, now: number = Date.now()): FlashcardProgress => {
+  const prevSchedule = progress.schedule ?? {};
+  const next = scheduleReview(prevSchedule[cardId], grade, now);
+  const schedule = { ...prevSchedule, [cardId]: next };
+
+  const queue = progress.queue.filter(id => id !== cardId);
+  if (isDueToday(next, now)) {
+    queue.splice(Math.min(queue.length, LEARNING_REINSERT_GAP), 0, cardId);
+  }
+
+  const mastered = progress.mastered.filter(id => id !== cardId);
+  if (next.interval >= MATURE_INTERVAL) mastered.push(cardId);
+
+  return { mastered, queue, schedule };
+};
+
+// Put cards at the front of the review queue and make scheduled ones due now,
+// e.g. the notes behind a missed exam question. Files without a schedule keep
+// their legacy mastered list untouched.
+export const queueCardsForReview = (progress: FlashcardProgress, cardIds: string[], now: number = Date.now()): FlashcardProgress => {
+  if (cardIds.length === 0) return progress;
+  const ids = new Set(cardIds);
+  const schedule = progress.schedule && Object.fromEntries(
+    Object.entries(progress.schedule).map(([id, s]) => [id, ids.has(id) ? { ...s, due: Math.min(s.due, now) } : s])
+  );
+  return {
+    ...progress,
+    queue: [...cardIds, ...progress.queue.filter(id => !ids.has(id))],
+    ...(schedule ? { schedule } : {}),
+  };
+};
+
+export interface DeckCounts {
+  due: number;
+  new: number;
+  learning: number;
+}
+
+// Counts over the cards of a reconciled session
+export const countCards = (progress: FlashcardProgress, cardIds: string[], now: number = Date.now()): DeckCounts => {
+  const schedule = progress.schedule ?? {};
+  const counts: DeckCounts = { due: 0, new: 0, learning: 0 };
+  cardIds.forEach(id => {
+    const state = getCardState(schedule[id]);
+    if (state === 'new') counts.new++;
+    else if (!isDueToday(schedule[id], now)) return;
+    else if (state === 'learning') counts.learning++;
+    else counts.due++;
+  });
+  return counts;
+};
+
+// Earliest upcoming review, used for the "all caught up" screen
+export const getNextDue = (progress: FlashcardProgress): number | null => {
+  const dues = Object.values(progress.schedule ?? {}).map(s => s.due);
+  return dues.length > 0 ? Math.min(...dues) : null;
+};
+
+// Cards due today (reviews plus relearning) across the whole library
+export const countLibraryDue = (files: StudyFile[], now: number = Date.now()): number =>
+  files.reduce((total, file) => {
+    const cardIds = getCardIds(file.sections);
+    const counts = countCards(reconcileProgress(file.flashcardProgress, cardIds, now), cardIds, now);
+    return total + counts.due + counts.learning;
+  }, 0);
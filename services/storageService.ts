@@ -0,0 +1,375 @@
+import { StudyFile, StudySection, StudyPoint, FlashcardProgress, CardSchedule, GenerationJob, FailedChunk, DEFAULT_LANGUAGES } from "../types";
+import { normalizeQuestions } from "./examService";
+
+// Library persistence in IndexedDB. Each file is split into separate records so
+// that editing notes or grading a flashcard does not rewrite the page images:
+//   files    - file metadata (everything except sections, progress and sources)
+//   sections - generated StudySection[] per file
+//   progress - flashcard progress and glossary schedule per file
+//   sources  - extracted page text and the chunk text of generation jobs and gaps
+//   images   - page/slide images as Blobs, keyed by file and page
+// Sections reference images as `idb://<fileId>/<page>/<n>`, resolved lazily by
+// resolveImageUrl() when an image scrolls into view or is exported.
+
+const DB_NAME = 'bilingual-scholar';
+const DB_VERSION = 2;
+const FILES_STORE = 'files';
+const SECTIONS_STORE = 'sections';
+const PROGRESS_STORE = 'progress';
+const SOURCES_STORE = 'sources';
+const IMAGES_STORE = 'images';
+
+// Pre-IndexedDB library, a single JSON array in localStorage
+const LEGACY_STORAGE_KEY = 'bilingual-scholar-files';
+
+const IMAGE_REF_PREFIX = 'idb://';
+
+// Records saved before the sources store still have their page and chunk text inline
+type FileRecord = Omit<StudyFile, 'sections' | 'flashcardProgress' | 'glossarySchedule' | 'generation' | 'failedChunks'> & {
+  generation?: Omit<GenerationJob, 'chunks'> & { chunks?: string[] };
+  failedChunks?: (Omit<FailedChunk, 'text'> & { text?: string })[];
+};
+
+interface SectionsRecord {
+  fileId: string;
+  sections: StudySection[];
+}
+
+interface ProgressRecord {
+  fileId: string;
+  flashcardProgress: FlashcardProgress;
+  glossarySchedule?: Record<string, CardSchedule>;
+}
+
+interface SourcesRecord {
+  fileId: string;
+  pageText?: Record<number, string>;
+  chunks?: string[]; // GenerationJob.chunks
+  failedChunkText?: Record<number, string>; // FailedChunk.text by chunk index
+}
+
+interface ImageRecord {
+  key: string;
+  fileId: string;
+  page: number;
+  blob: Blob;
+}
+
+export interface StorageUsage {
+  usage: number; // bytes
+  quota: number; // bytes
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!window.indexedDB) {
+      reject(new Error("IndexedDB is not available in this browser."));
+      return;
+    }
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(FILES_STORE)) db.createObjectStore(FILES_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(SECTIONS_STORE)) db.createObjectStore(SECTIONS_STORE, { keyPath: 'fileId' });
+      if (!db.objectStoreNames.contains(PROGRESS_STORE)) db.createObjectStore(PROGRESS_STORE, { keyPath: 'fileId' });
+      if (!db.objectStoreNames.contains(SOURCES_STORE)) db.createObjectStore(SOURCES_STORE, { keyPath: 'fileId' });
+      if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+        const images = db.createObjectStore(IMAGES_STORE, { keyPath: 'key' });
+        images.createIndex('fileId', 'fileId', { unique: false });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a retry if opening failed (e.g. blocked by another tab)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Storage transaction aborted"));
+  });
+
+export const isImageRef = (src: string) => src.startsWith(IMAGE_REF_PREFIX);
+
+const makeImageKey = (fileId: string, page: number, n: number) => `${fileId}/${page}/${n}`;
+
+const urlToBlob = async (url: string): Promise<Blob | null> => {
+  try {
+    const response = await fetch(url);
+    return await response.blob();
+  } catch (e) {
+    // PPTX blob URLs from an earlier session are dead after a reload
+    console.warn("Could not read image for storage", e);
+    return null;
+  }
+};
+
+// Store the rendered pages/slides of a file and return the same map with
+// image URLs replaced by stored image refs.
+export const storePageImages = async (fileId: string, imageMap: Record<number, string[]>): Promise<Record<number, string[]>> => {
+  const records: ImageRecord[] = [];
+  const refs: Record<number, string[]> = {};
+
+  for (const [pageKey, urls] of Object.entries(imageMap)) {
+    const page = Number(pageKey);
+    refs[page] = [];
+    for (const url of urls) {
+      const blob = await urlToBlob(url);
+      if (!blob) continue;
+      const key = makeImageKey(fileId, page, refs[page].length);
+      records.push({ key, fileId, page, blob });
+      refs[page].push(`${IMAGE_REF_PREFIX}${key}`);
+      if (url.startsWith('blob:')) URL.revokeObjectURL(url);
+    }
+  }
+
+  const db = await openDb();
+  const tx = db.transaction(IMAGES_STORE, 'readwrite');
+  const store = tx.objectStore(IMAGES_STORE);
+  records.forEach(record => store.put(record));
+  await transactionDone(tx);
+
+  return refs;
+};
+
+// Object URLs are created once per ref and kept for the session
+const objectUrlCache = new Map<string, Promise<string>>();
+
+export const resolveImageUrl = (src: string): Promise<string> => {
+  if (!isImageRef(src)) return Promise.resolve(src);
+
+  const cached = objectUrlCache.get(src);
+  if (cached) return cached;
+
+  const pending = (async () => {
+    const db = await openDb();
+    const tx = db.transaction(IMAGES_STORE, 'readonly');
+    const record = await requestToPromise<ImageRecord | undefined>(tx.objectStore(IMAGES_STORE).get(src.slice(IMAGE_REF_PREFIX.length)));
+    return record ? URL.createObjectURL(record.blob) : '';
+  })();
+  objectUrlCache.set(src, pending);
+  pending.catch(() => objectUrlCache.delete(src));
+  return pending;
+};
+
+// All stored images for one page of a file, as displayable URLs
+export const getPageImages = async (fileId: string, page: number): Promise<string[]> => {
+  const db = await openDb();
+  const tx = db.transaction(IMAGES_STORE, 'readonly');
+  const prefix = `${fileId}/${page}/`;
+  const keys = await requestToPromise(tx.objectStore(IMAGES_STORE).getAllKeys(IDBKeyRange.bound(prefix, `${prefix}\uffff`)));
+  return Promise.all(keys.map(key => resolveImageUrl(`${IMAGE_REF_PREFIX}${key}`)));
+};
+
+const sameFailedChunkText = (a: FailedChunk[] = [], b: FailedChunk[] = []) =>
+  a.length === b.length && a.every((chunk, i) => chunk.chunkIndex === b[i].chunkIndex && chunk.text === b[i].text);
+
+// Write a file's records. When the previously saved version is given, records
+// whose content did not change (by reference) are skipped.
+export const saveFile = async (file: StudyFile, previous?: StudyFile): Promise<void> => {
+  const { sections, flashcardProgress, glossarySchedule, pageText, generation, failedChunks, ...meta } = file;
+  const db = await openDb();
+  const tx = db.transaction([FILES_STORE, SECTIONS_STORE, PROGRESS_STORE, SOURCES_STORE], 'readwrite');
+
+  const record: FileRecord = {
+    ...meta,
+    ...(generation ? { generation: { status: generation.status, nextChunk: generation.nextChunk, error: generation.error } } : {}),
+    ...(failedChunks ? { failedChunks: failedChunks.map(({ text, ...chunk }) => chunk) } : {}),
+  };
+  tx.objectStore(FILES_STORE).put(record);
+  if (!previous || previous.sections !== sections) {
+    tx.objectStore(SECTIONS_STORE).put({ fileId: file.id, sections } as SectionsRecord);
+  }
+  if (!previous || previous.flashcardProgress !== flashcardProgress || previous.glossarySchedule !== glossarySchedule) {
+    tx.objectStore(PROGRESS_STORE).put({ fileId: file.id, flashcardProgress, glossarySchedule } as ProgressRecord);
+  }
+  if (!previous || previous.pageText !== pageText || previous.generation?.chunks !== generation?.chunks
+    || !sameFailedChunkText(previous.failedChunks, failedChunks)) {
+    tx.objectStore(SOURCES_STORE).put({
+      fileId: file.id,
+      pageText,
+      chunks: generation?.chunks,
+      failedChunkText: failedChunks && Object.fromEntries(failedChunks.map(chunk => [chunk.chunkIndex, chunk.text])),
+    } as SourcesRecord);
+  }
+  await transactionDone(tx);
+};
+
+export const deleteFile = async (fileId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([FILES_STORE, SECTIONS_STORE, PROGRESS_STORE, SOURCES_STORE, IMAGES_STORE], 'readwrite');
+  tx.objectStore(FILES_STORE).delete(fileId);
+  tx.objectStore(SECTIONS_STORE).delete(fileId);
+  tx.objectStore(PROGRESS_STORE).delete(fileId);
+  tx.objectStore(SOURCES_STORE).delete(fileId);
+
+  const cursorRequest = tx.objectStore(IMAGES_STORE).index('fileId').openKeyCursor(IDBKeyRange.only(fileId));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (cursor) {
+      tx.objectStore(IMAGES_STORE).delete(cursor.primaryKey);
+      cursor.continue();
+    }
+  };
+  await transactionDone(tx);
+
+  const refPrefix = `${IMAGE_REF_PREFIX}${fileId}/`;
+  for (const [ref, url] of objectUrlCache) {
+    if (!ref.startsWith(refPrefix)) continue;
+    objectUrlCache.delete(ref);
+    url.then(u => u && URL.revokeObjectURL(u));
+  }
+};
+
+// Move a localStorage library into IndexedDB. Data URL images are stored as
+// blobs (grouped by the page number in the section topic); dead blob URLs are dropped.
+const migrateLegacyStorage = async (): Promise<void> => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return;
+
+  let legacyFiles: StudyFile[];
+  try {
+    legacyFiles = JSON.parse(saved);
+  } catch (e) {
+    console.error("Could not read legacy library, leaving it in place", e);
+    return;
+  }
+
+  for (const file of legacyFiles) {
+    const imageMap: Record<number, string[]> = {};
+    file.sections.forEach(section => {
+      const match = section.topic.match(/(?:Slide|Page)\s?(\d+)/i);
+      const page = match ? parseInt(match[1]) : 0;
+      (section.images || []).filter(url => url.startsWith('data:')).forEach(url => {
+        imageMap[page] = imageMap[page] || [];
+        if (!imageMap[page].includes(url)) imageMap[page].push(url);
+      });
+    });
+
+    const pageImages = await storePageImages(file.id, imageMap);
+    const sections = file.sections.map(section => {
+      const match = section.topic.match(/(?:Slide|Page)\s?(\d+)/i);
+      const page = match ? parseInt(match[1]) : 0;
+      const images = (section.images || [])
+        .filter(url => url.startsWith('data:'))
+        .map(url => pageImages[page]?.[imageMap[page].indexOf(url)])
+        .filter((ref): ref is string => !!ref);
+      return { ...section, images };
+    });
+
+    await saveFile({ ...file, sections, pageImages });
+  }
+
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+// Study points were { english, chinese } before per-file language pairs
+type LegacyStudyPoint = Partial<StudyPoint> & { english?: string; chinese?: string };
+
+// Returns null when the sections already use primary/secondary
+const migrateStudyPoints = (sections: StudySection[]): StudySection[] | null => {
+  const isLegacy = sections.some(section => section.content.some(point => point.primary === undefined));
+  if (!isLegacy) return null;
+
+  return sections.map(section => ({
+    ...section,
+    content: section.content.map((point: LegacyStudyPoint) => ({
+      primary: point.primary ?? point.english ?? '',
+      secondary: point.secondary ?? point.chinese ?? '',
+      keyTerm: point.keyTerm,
+    })),
+  }));
+};
+
+// Questions from before question types are MCQs without a type. Returns null
+// when every question already has one.
+const migrateQuestionTypes = (sections: StudySection[]): StudySection[] | null => {
+  const isLegacy = sections.some(section => section.questions?.some(question => !question.type));
+  if (!isLegacy) return null;
+
+  return sections.map(section => section.questions ? { ...section, questions: normalizeQuestions(section.questions) } : section);
+};
+
+// Put the page and chunk text back on a file record
+const hasInlineSources = (meta: FileRecord) =>
+  meta.pageText !== undefined || meta.generation?.chunks !== undefined || !!meta.failedChunks?.some(chunk => chunk.text !== undefined);
+
+const joinSources = (meta: FileRecord, sources?: SourcesRecord): Pick<StudyFile, 'pageText' | 'generation' | 'failedChunks'> => {
+  const pageText = meta.pageText ?? sources?.pageText;
+  return {
+    ...(pageText ? { pageText } : {}),
+    ...(meta.generation ? { generation: { ...meta.generation, chunks: meta.generation.chunks ?? sources?.chunks ?? [] } } : {}),
+    ...(meta.failedChunks ? {
+      failedChunks: meta.failedChunks.map(chunk => ({ ...chunk, text: chunk.text ?? sources?.failedChunkText?.[chunk.chunkIndex] ?? '' })),
+    } : {}),
+  };
+};
+
+export const loadLibrary = async (): Promise<StudyFile[]> => {
+  await migrateLegacyStorage();
+
+  // Ask the browser not to evict the library under storage pressure
+  navigator.storage?.persist?.().catch(() => undefined);
+
+  const db = await openDb();
+  const tx = db.transaction([FILES_STORE, SECTIONS_STORE, PROGRESS_STORE, SOURCES_STORE], 'readonly');
+  const [metas, sectionRecords, progressRecords, sourcesRecords] = await Promise.all([
+    requestToPromise<FileRecord[]>(tx.objectStore(FILES_STORE).getAll()),
+    requestToPromise<SectionsRecord[]>(tx.objectStore(SECTIONS_STORE).getAll()),
+    requestToPromise<ProgressRecord[]>(tx.objectStore(PROGRESS_STORE).getAll()),
+    requestToPromise<SourcesRecord[]>(tx.objectStore(SOURCES_STORE).getAll()),
+  ]);
+
+  const sectionsById = new Map(sectionRecords.map(r => [r.fileId, r.sections]));
+  const progressById = new Map(progressRecords.map(r => [r.fileId, r]));
+  const sourcesById = new Map(sourcesRecords.map(r => [r.fileId, r]));
+
+  const files: StudyFile[] = [];
+  const migrated: StudyFile[] = [];
+  for (const meta of metas) {
+    const sections = sectionsById.get(meta.id);
+    if (!sections) continue;
+
+    // Files from before language pairs are English–Chinese
+    const pointSections = migrateStudyPoints(sections);
+    const migratedSections = migrateQuestionTypes(pointSections ?? sections) ?? pointSections;
+    const progress = progressById.get(meta.id);
+    const { pageText, generation, failedChunks, ...rest } = meta;
+    const file: StudyFile = {
+      ...rest,
+      ...joinSources(meta, sourcesById.get(meta.id)),
+      languages: meta.languages ?? DEFAULT_LANGUAGES,
+      sections: migratedSections ?? sections,
+      flashcardProgress: progress?.flashcardProgress || { mastered: [], queue: [] },
+      ...(progress?.glossarySchedule ? { glossarySchedule: progress.glossarySchedule } : {}),
+    };
+    if (migratedSections || !meta.languages || hasInlineSources(meta)) migrated.push(file);
+    files.push(file);
+  }
+
+  // Write migrated files back once so the old shape is gone from the database
+  await Promise.all(migrated.map(file => saveFile(file)));
+
+  return files.sort((a, b) => b.uploadDate - a.uploadDate);
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
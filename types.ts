@@ -1,21 +1,111 @@
 
+export type LanguageCode = 'en' | 'zh-Hans' | 'zh-Hant' | 'ja' | 'ko' | 'es';
+
+export interface LanguageInfo {
+  name: string; // English name, used in prompts
+  nativeName: string;
+  fontFamily: string; // CSS font stack for notes in this language
+  pptxFont: string; // Font face for exported slides
+  notesLabel: string; // Column heading in exports
+  ocrLanguage: string; // tesseract.js language data
+  pdfFont?: string; // TrueType font embedded in PDF exports; Latin scripts use the built-in Helvetica
+}
+
+export const LANGUAGES: Record<LanguageCode, LanguageInfo> = {
+  'en': { name: 'English', nativeName: 'English', fontFamily: '"Inter", sans-serif', pptxFont: 'Arial', notesLabel: 'English Notes', ocrLanguage: 'eng' },
+  'zh-Hans': { name: 'Simplified Chinese', nativeName: '简体中文', fontFamily: '"Noto Serif SC", serif', pptxFont: 'Microsoft YaHei', notesLabel: '中文解析 (Chinese)', ocrLanguage: 'chi_sim', pdfFont: 'https://cdn.jsdelivr.net/gh/google/fonts@main/ofl/notosanssc/NotoSansSC%5Bwght%5D.ttf' },
+  'zh-Hant': { name: 'Traditional Chinese', nativeName: '繁體中文', fontFamily: '"Noto Serif TC", serif', pptxFont: 'Microsoft JhengHei', notesLabel: '中文解析 (Traditional Chinese)', ocrLanguage: 'chi_tra', pdfFont: 'https://cdn.jsdelivr.net/gh/google/fonts@main/ofl/notosanstc/NotoSansTC%5Bwght%5D.ttf' },
+  'ja': { name: 'Japanese', nativeName: '日本語', fontFamily: '"Noto Serif JP", serif', pptxFont: 'Yu Gothic', notesLabel: '日本語の解説 (Japanese)', ocrLanguage: 'jpn', pdfFont: 'https://cdn.jsdelivr.net/gh/google/fonts@main/ofl/notosansjp/NotoSansJP%5Bwght%5D.ttf' },
+  'ko': { name: 'Korean', nativeName: '한국어', fontFamily: '"Noto Serif KR", serif', pptxFont: 'Malgun Gothic', notesLabel: '한국어 해설 (Korean)', ocrLanguage: 'kor', pdfFont: 'https://cdn.jsdelivr.net/gh/google/fonts@main/ofl/notosanskr/NotoSansKR%5Bwght%5D.ttf' },
+  'es': { name: 'Spanish', nativeName: 'Español', fontFamily: '"Inter", sans-serif', pptxFont: 'Arial', notesLabel: 'Notas en español (Spanish)', ocrLanguage: 'spa' },
+};
+
+// Language pair of a file: notes are written in the primary (source) language and
+// explained in the secondary (target) language next to them.
+export interface LanguagePair {
+  primary: LanguageCode;
+  secondary: LanguageCode;
+}
+
+// Files created before language pairs were English–Chinese
+export const DEFAULT_LANGUAGES: LanguagePair = { primary: 'en', secondary: 'zh-Hans' };
+
 export interface StudyPoint {
-  english: string;
-  chinese: string;
+  primary: string; // Notes in the file's primary language
+  secondary: string; // The same notes in its secondary language
   keyTerm?: string;
 }
 
-export interface ExamQuestion {
-  question: string;
-  options: string[]; // Array of 4 options
-  correctIndex: number; // 0-3
+export type QuestionType = 'mcq' | 'trueFalse' | 'multiSelect' | 'fillBlank' | 'shortAnswer' | 'matching';
+
+interface QuestionBase {
+  question: string; // Stem; fill-in-the-blank stems mark each blank with "___"
   explanation: string; // Why the answer is correct
 }
 
+export interface McqQuestion extends QuestionBase {
+  type: 'mcq';
+  options: string[];
+  correctIndex: number;
+}
+
+export interface TrueFalseQuestion extends QuestionBase {
+  type: 'trueFalse';
+  answer: boolean;
+}
+
+export interface MultiSelectQuestion extends QuestionBase {
+  type: 'multiSelect';
+  options: string[];
+  correctIndexes: number[];
+}
+
+export interface FillBlankQuestion extends QuestionBase {
+  type: 'fillBlank';
+  blanks: string[][]; // Accepted answers for each "___", in order
+}
+
+export interface ShortAnswerQuestion extends QuestionBase {
+  type: 'shortAnswer';
+  modelAnswer: string;
+  keywords: string[]; // Ideas a full-credit answer mentions
+}
+
+export interface MatchingQuestion extends QuestionBase {
+  type: 'matching';
+  pairs: { term: string; definition: string }[];
+}
+
+export type ExamQuestion =
+  | McqQuestion
+  | TrueFalseQuestion
+  | MultiSelectQuestion
+  | FillBlankQuestion
+  | ShortAnswerQuestion
+  | MatchingQuestion;
+
+// How many questions of each type the model writes per section
+export type QuestionMix = Partial<Record<QuestionType, number>>;
+
+// Matches the fixed "2 MCQs per section" of guides generated before question types
+export const DEFAULT_QUESTION_MIX: QuestionMix = { mcq: 2 };
+
+// A learner's answer: option index (mcq), boolean (trueFalse), option indexes
+// (multiSelect), text per blank (fillBlank), free text (shortAnswer) or the
+// chosen definition index per term (matching, -1 if unanswered)
+export type ExamResponse = number | boolean | number[] | string | string[];
+
+// First and last page/slide number, inclusive
+export interface PageRange {
+  start: number;
+  end: number;
+}
+
 export interface StudySection {
   topic: string; 
   content: StudyPoint[];
-  images?: string[]; // Blob URLs/Base64 of the source page/slide for visual context
+  sourcePages?: PageRange; // Pages/slides the notes come from; absent on older files (see geminiService.getSectionPages)
+  images?: string[]; // Stored image refs (idb://...) of every source page/slide, for visual context
   visualSummary?: string; 
   questions?: ExamQuestion[];
 }
@@ -30,23 +120,172 @@ export interface ProcessingStatus {
   message?: string;
 }
 
+// SM-2 scheduling state of a single flashcard
+export interface CardSchedule {
+  easeFactor: number; // SM-2 E-Factor, never below 1.3
+  interval: number; // Days until the next review (0 while relearning)
+  repetitions: number; // Consecutive successful reviews
+  due: number; // Timestamp of the next review
+  lastReviewed: number;
+}
+
+// Flashcard deck position, persisted per file so sessions resume where they stopped
+export interface FlashcardProgress {
+  mastered: string[]; // IDs of mastered cards (interval past the mature threshold)
+  queue: string[]; // IDs remaining to study, queue[0] is the current card
+  schedule?: Record<string, CardSchedule>; // Keyed by card ID; absent on files saved before scheduling
+}
+
+// A text written in both languages of a file
+export interface BilingualText {
+  primary: string;
+  secondary: string;
+}
+
+// One rubric criterion of an AI-graded answer
+export interface RubricScore {
+  criterion: string;
+  points: number;
+  maxPoints: number;
+  comment: string;
+}
+
+// Model grading of a free-text answer against its section's notes
+export interface AnswerGrade {
+  score: number; // 0-1, rubric points over the maximum
+  rubric: RubricScore[];
+  feedback: BilingualText; // Why the answer earned its score
+  modelAnswer: BilingualText; // The student's answer corrected and completed
+}
+
+// One answered question within a submitted exam
+export interface ExamAttemptAnswer {
+  question: string; // Question text, so history stays readable if the guide is regenerated
+  topic?: string; // Section the question came from; absent on attempts saved before mock exams
+  selectedIndex: number | null; // mcq option; null if unanswered or another question type
+  response?: ExamResponse | null; // Absent on attempts saved before question types
+  credit?: number; // 0-1, partial credit; absent on attempts saved before question types
+  grade?: AnswerGrade; // Short answers graded by the model; keyword scoring is the fallback
+  correct: boolean; // Full credit
+}
+
+// A submitted exam, kept per file to show the score trend across retakes
+export interface ExamAttempt {
+  date: number;
+  score: number; // Sum of credits, may be fractional
+  total: number;
+  durationMs: number;
+  answers: ExamAttemptAnswer[];
+  kind?: 'exam' | 'drill'; // Mistake drills are kept out of the score trend; absent means exam
+}
+
+// A question missed in an exam, kept until it is answered correctly often enough
+export interface MistakeEntry {
+  id: string; // Topic and question text, see mistakeService.getMistakeId
+  sectionIndex: number;
+  topic: string;
+  question: ExamQuestion; // As it was asked, so `response` matches its option order
+  response: ExamResponse | null; // Latest wrong answer
+  pointIndexes: number[]; // StudyPoints of the section the question tests
+  missCount: number;
+  lastMissed: number;
+  streak: number; // Correct answers in a row since the last miss
+}
+
+// A span the user marked in one language column of a point
+export interface TextHighlight {
+  field: 'primary' | 'secondary';
+  quote: string; // The marked text as rendered
+  occurrence: number; // Which match of the quote in the column, 0 for the first
+}
+
+// The user's own marks on a point, stored apart from the generated notes
+export interface PointAnnotation {
+  anchor: string; // Primary text of the point, to find it again after its section is regenerated
+  starred?: boolean;
+  note?: string; // Margin note
+  highlights?: TextHighlight[];
+}
+
+// An annotation whose point was not found in its regenerated section
+export interface UnattachedAnnotation {
+  sectionIndex: number;
+  annotation: PointAnnotation;
+}
+
+// Language of chat answers: one language of the file's pair, or both
+export type ChatAnswerLanguage = 'primary' | 'secondary' | 'both';
+
+// Where an answer came from in the guide
+export interface ChatCitation {
+  sectionIndex: number;
+  pointIndex: number | null; // null cites the section as a whole
+  page: number | null; // Page/slide number of the source text, if known
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  text: string;
+  translation?: string; // Bilingual answers: the text in the secondary language
+  citations?: ChatCitation[];
+  date: number;
+}
+
+// A study guide still being generated chunk by chunk. Saved with the file so an
+// interrupted job (cancel, error, closed tab) can resume where it stopped.
+export interface GenerationJob {
+  status: 'running' | 'interrupted';
+  chunks: string[]; // Source text parts sent to the model one at a time
+  nextChunk: number; // First chunk without generated sections
+  error?: string; // Why the job stopped, if it failed
+}
+
+// A chunk that failed every retry. Shown as a gap in the guide until retried.
+export interface FailedChunk {
+  chunkIndex: number;
+  pageRange: PageRange | null; // Pages/slides the chunk covers, if it had markers
+  sectionIndex: number; // Where its sections belong in StudyFile.sections
+  text: string; // Chunk text, kept so it can be retried after the job is gone
+  error: string;
+}
+
 // Complete File Session for Multi-file management
 export interface StudyFile {
   id: string;
   name: string;
   uploadDate: number;
   lastAccessed: number;
+  languages: LanguagePair;
+  questionMix?: QuestionMix; // Used when retrying or regenerating parts of the guide; absent on older files
   sections: StudySection[];
+  pageImages?: Record<number, string[]>; // Page/Slide Number (1-based) to stored image refs
+  pageText?: Record<number, string>; // Page/Slide Number to its raw extracted text (with marker line)
   // SRS Progress Tracking
-  flashcardProgress: {
-    mastered: string[]; // IDs of mastered cards
-    queue: string[]; // IDs remaining to study
-  };
+  flashcardProgress: FlashcardProgress;
+  glossarySchedule?: Record<string, CardSchedule>; // Glossary deck, keyed by glossaryService.getTermCardId
+  // Latest exam attempt
   examScore?: {
     score: number;
     total: number;
     date: number;
   };
+  examHistory?: ExamAttempt[]; // Every submitted attempt, oldest first
+  mistakes?: MistakeEntry[]; // Wrong-answer notebook
+  annotations?: Record<string, PointAnnotation>; // Keyed by annotationService.getPointKey
+  unattachedAnnotations?: UnattachedAnnotation[];
+  chat?: ChatMessage[]; // Questions about the document and their answers, oldest first
+  generation?: GenerationJob; // Absent once every chunk has been generated
+  failedChunks?: FailedChunk[];
+}
+
+// Model backend used for every AI call (study guide generation etc.)
+export type LLMProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface LLMSettings {
+  provider: LLMProviderId;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible server, e.g. http://localhost:11434/v1
+  apiKey?: string; // Overrides the build-time key when set
 }
 
 export interface AppTheme {
@@ -123,7 +362,8 @@ declare global {
     pdfjsLib: any;
     JSZip: any;
     jspdf: any;
-    html2canvas: any;
     PptxGenJS: any;
+    Tesseract: any;
+    initSqlJs: any;
   }
 }
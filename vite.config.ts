@@ -8,7 +8,8 @@ export default defineConfig(({ mode }) => {
     plugins: [react()],
     base: './', // Ensures assets are relative so it can run in subfolders
     define: {
-      'process.env.API_KEY': JSON.stringify(env.VITE_API_KEY)
+      'process.env.API_KEY': JSON.stringify(env.VITE_API_KEY),
+      'process.env.LLM_PROVIDER': JSON.stringify(env.VITE_LLM_PROVIDER)
     },
     build: {
       chunkSizeWarningLimit: 2000, // Suppress warnings for large PDF/PPTX libraries